@@ -0,0 +1,219 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import axios, { AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import {
+  ConfigurationError,
+  createMessageContext,
+  ErrorCode,
+  MessageContext,
+  ResponseVerificationError,
+  SignatureKeyManager,
+  VerificationError,
+} from '@holmesmr/http-sig'
+import { AxiosSignatureOptions, HttpSigInterceptors } from './types'
+
+export * from './types'
+
+/** The raw body of a response to be verified, once it has been received. */
+type ResponseCapture = {
+  body?: Buffer
+}
+
+// Responses are verified only for requests sent with `verifyResponse` set
+const responseCaptures = new WeakMap<InternalAxiosRequestConfig, ResponseCapture>()
+
+const VERIFIABLE_RESPONSE_TYPES = ['arraybuffer', 'json', 'text']
+
+function toBuffer(data: unknown): Buffer {
+  if (data === undefined || data === null) return Buffer.alloc(0)
+  if (typeof data === 'string') return Buffer.from(data, 'utf8')
+  if (data instanceof ArrayBuffer) return Buffer.from(data)
+  if (ArrayBuffer.isView(data)) return Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+
+  throw new ConfigurationError('message bodies must be strings or bytes to be digested')
+}
+
+function headerValues(headers: AxiosHeaders, name: string): [string, ...string[]] | undefined {
+  const value = headers.get(name)
+  // axios removes headers set to false when sending
+  if (value === undefined || value === null || value === false) return undefined
+  if (Array.isArray(value)) return value.length > 0 ? (value as [string, ...string[]]) : undefined
+
+  return [value.toString()]
+}
+
+function requestMessageWrapper(config: InternalAxiosRequestConfig, body: Buffer): MessageContext {
+  let url: URL
+  try {
+    url = new URL(axios.getUri(config))
+  } catch (e) {
+    throw new ConfigurationError('request URL must be absolute to be signed')
+  }
+
+  return createMessageContext({
+    requestTarget: {
+      method: (config.method || 'get').toUpperCase(),
+      path: url.pathname + url.search,
+      scheme: url.protocol.replace(/:$/, ''),
+    },
+    getHeader(name: string) {
+      const values = headerValues(config.headers, name)
+      if (values) return values
+
+      // The adapter sets these itself, so they are not usually set on the request
+      if (name === 'host') return [url.host]
+      if (name === 'content-length' && body.length > 0) return [body.length.toString()]
+
+      return undefined
+    },
+  })
+}
+
+function responseMessageWrapper(response: AxiosResponse): MessageContext {
+  const headers = AxiosHeaders.from(response.headers as AxiosHeaders)
+
+  return createMessageContext({
+    status: response.status,
+    getHeader: (name: string) => headerValues(headers, name),
+  })
+}
+
+// Serialize the body using the request's transforms, as axios would once the interceptors have run
+function serializeBody(config: InternalAxiosRequestConfig): Buffer {
+  const transforms = config.transformRequest === undefined ? [] : [config.transformRequest].flat()
+  const data = transforms.reduce((data, transform) => transform.call(config, data, config.headers), config.data)
+
+  // axios also sets a default content type on requests which may have bodies, after transforming them
+  if (['post', 'put', 'patch'].includes(config.method || ''))
+    config.headers.setContentType('application/x-www-form-urlencoded', false)
+
+  return toBuffer(data)
+}
+
+// Receive the response body as bytes so that its digest can be checked, then decode it as axios would have
+function captureResponseBody(config: InternalAxiosRequestConfig): ResponseCapture {
+  const { responseType, responseEncoding } = config
+  if (responseType !== undefined && !VERIFIABLE_RESPONSE_TYPES.includes(responseType))
+    throw new ConfigurationError(`responses of type ${responseType} cannot be verified`)
+
+  const capture: ResponseCapture = {}
+  const transforms = config.transformResponse === undefined ? [] : [config.transformResponse].flat()
+
+  config.responseType = 'arraybuffer'
+  config.transformResponse = [
+    (data) => {
+      // The remaining transforms expect the response type which was requested
+      config.responseType = responseType
+      capture.body = toBuffer(data)
+      if (responseType === 'arraybuffer') return data
+
+      const text = capture.body.toString((responseEncoding || 'utf8') as BufferEncoding)
+      return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+    },
+    ...transforms,
+  ]
+
+  return capture
+}
+
+async function verifyResponse(sig: SignatureKeyManager, response: AxiosResponse, body: Buffer): Promise<void> {
+  const msgCtx = responseMessageWrapper(response)
+  const signature = msgCtx.getSignature()
+  const key = await sig.verifyResponse(msgCtx, signature)
+  // Digests covered by the signature are verified even if not calculated by this side
+  if (!key.options.calculateDigest && !signature?.headers.includes(key.digestHeader)) return
+
+  const digest = AxiosHeaders.from(response.headers as AxiosHeaders).get(key.digestHeader)
+  if (typeof digest !== 'string')
+    throw new VerificationError(`${key.digestHeader} header not present on response`, ErrorCode.DIGEST_MISSING, {
+      keyId: key.id,
+    })
+
+  key.verifyDigestHeader(body, digest)
+}
+
+/**
+ * Create axios interceptors which sign requests with the given keyId, and
+ * optionally verify the signature on responses.
+ *
+ * The request body is serialized by the request interceptor, using the
+ * request's `transformRequest` functions, so that the digest covers the bytes
+ * which are sent. The request interceptor should therefore be the last to
+ * modify the request; as axios runs request interceptors in the reverse of the
+ * order they were added, it should be added first.
+ *
+ * When verifying responses, the response body is received as bytes and
+ * decoded as requested by `responseType`, which may only be `json`, `text` or
+ * `arraybuffer`. The body is checked against the digest header if the
+ * `calculateDigest` option is set or the signature covers the digest header.
+ * Responses which fail verification are rejected with a
+ * `ResponseVerificationError`. Error responses are not verified.
+ *
+ * @param sig The `SignatureKeyManager` to sign and verify messages with
+ * @param options The keyId to sign with, and whether to verify responses
+ */
+export function signatureInterceptors(
+  sig: SignatureKeyManager,
+  { keyId, verifyResponse: verify = false }: AxiosSignatureOptions,
+): HttpSigInterceptors {
+  const request = async (config: InternalAxiosRequestConfig) => {
+    const key = await sig.getKey(keyId)
+    const body = serializeBody(config)
+
+    // The body has been serialized, so must now be sent as-is
+    config.data = body.length > 0 ? body : undefined
+    config.transformRequest = [(data) => data]
+
+    if (key.options.calculateDigest) config.headers.set(key.digestHeader, key.createDigestHeader(body))
+    config.headers.set(key.signRequestHeaders(requestMessageWrapper(config, body)))
+
+    if (verify) responseCaptures.set(config, captureResponseBody(config))
+
+    return config
+  }
+
+  const response = async (res: AxiosResponse) => {
+    const capture = responseCaptures.get(res.config)
+    if (!capture) return res
+
+    try {
+      await verifyResponse(sig, res, capture.body || Buffer.alloc(0))
+    } catch (e) {
+      if (e instanceof VerificationError) throw new ResponseVerificationError(e, res)
+      throw e
+    }
+
+    return res
+  }
+
+  return { request, response }
+}
+
+/**
+ * Add interceptors to an axios instance which sign requests with the given
+ * keyId, and optionally verify the signature on responses.
+ *
+ * @see signatureInterceptors
+ *
+ * @param instance The axios instance, such as the `axiosRef` of Nest's `HttpService`
+ * @param sig The `SignatureKeyManager` to sign and verify messages with
+ * @param options The keyId to sign with, and whether to verify responses
+ * @returns A function which removes the interceptors
+ */
+export function attachHttpSignatures(
+  instance: AxiosInstance,
+  sig: SignatureKeyManager,
+  options: AxiosSignatureOptions,
+): () => void {
+  const { request, response } = signatureInterceptors(sig, options)
+  const requestId = instance.interceptors.request.use(request)
+  const responseId = instance.interceptors.response.use(response)
+
+  return () => {
+    instance.interceptors.request.eject(requestId)
+    instance.interceptors.response.eject(responseId)
+  }
+}
+
+export default attachHttpSignatures
@@ -0,0 +1,25 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import { KeyId } from '@holmesmr/http-sig'
+
+export { ConfigurationError, ResponseVerificationError, VerificationError } from '@holmesmr/http-sig'
+
+export type AxiosSignatureOptions = {
+  /** The keyId to sign requests with. */
+  keyId: KeyId
+  /**
+   * Whether to verify the signature on successful responses, along with the
+   * digest of their body if the `calculateDigest` option is set for the key
+   * which signed the response.
+   */
+  verifyResponse?: boolean
+}
+
+export type HttpSigInterceptors = {
+  /** Signs the request, after serializing its body as axios would. */
+  request: (config: InternalAxiosRequestConfig) => Promise<InternalAxiosRequestConfig>
+  /** Verifies the response, if the request was sent with `verifyResponse` set. */
+  response: (response: AxiosResponse) => Promise<AxiosResponse>
+}
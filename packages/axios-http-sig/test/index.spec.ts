@@ -0,0 +1,213 @@
+import axios, { AxiosInstance } from 'axios'
+import {
+  createMessageContext,
+  DigestAlgorithm,
+  ErrorCode,
+  HmacAlgorithm,
+  HttpSigVersion,
+  SignatureAlgorithm,
+  SignatureKeyManager,
+  SignatureOptions,
+  signatures,
+} from '@holmesmr/http-sig'
+import { attachHttpSignatures, ConfigurationError, ResponseVerificationError, signatureInterceptors } from '../src'
+
+import * as crypto from 'crypto'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+
+const sharedSecret = crypto.createSecretKey(crypto.randomBytes(32))
+
+const manager = (version: HttpSigVersion, options: SignatureOptions = {}) =>
+  signatures({
+    version,
+    requestHeaders: { '(request-target)': true, host: true, 'content-type': true },
+    responseHeaders: { 'content-type': true },
+    ...options,
+    keyId: 'test',
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    digest: DigestAlgorithm.SHA256,
+    algorithm: HmacAlgorithm.SHA256,
+    key: sharedSecret,
+  })
+
+type Received = { method?: string; url?: string; headers: http.IncomingHttpHeaders; body: Buffer }
+
+// Verifies each request, and responds with a signed response echoing the request body, unless another body is given.
+// The served body may differ from the signed body, to simulate tampering.
+const startServer = async (sig: SignatureKeyManager, { signed, served }: { signed?: string; served?: string } = {}) => {
+  const received: Received[] = []
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk) => chunks.push(chunk))
+    req.on('end', async () => {
+      const body = Buffer.concat(chunks)
+      const responseBody = signed !== undefined ? Buffer.from(signed) : body
+      received.push({ method: req.method, url: req.url, headers: req.headers, body })
+
+      try {
+        const key = await sig.verifyRequest(
+          createMessageContext({
+            requestTarget: { method: req.method as string, path: req.url as string },
+            getHeader: (name) => {
+              const value = req.headers[name]
+              return typeof value === 'string' ? [value] : value
+            },
+          }),
+        )
+        if (key.options.calculateDigest) key.verifyDigestHeader(body, req.headers.digest as string)
+
+        const responseHeaders: { [header: string]: string } = {
+          'content-type': 'application/json',
+          digest: key.createDigestHeader(responseBody),
+        }
+        Object.assign(
+          responseHeaders,
+          key.signResponseHeaders(
+            createMessageContext({ status: 200, getHeader: (name) => [responseHeaders[name]] as [string] }),
+          ),
+        )
+
+        res.writeHead(200, responseHeaders)
+        res.end(served ?? responseBody)
+      } catch (e) {
+        res.writeHead(401)
+        res.end((e as Error).message)
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  return {
+    received,
+    baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  }
+}
+
+describe('axios interceptors', () => {
+  let server: Awaited<ReturnType<typeof startServer>>
+  let client: AxiosInstance
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  test.each([HttpSigVersion.DRAFT_CAVAGE_12, HttpSigVersion.RFC_9421])(
+    'signs %s requests and verifies responses',
+    async (version) => {
+      server = await startServer(manager(version))
+      client = axios.create({ baseURL: server.baseURL })
+      attachHttpSignatures(client, manager(version), { keyId: 'test', verifyResponse: true })
+
+      const response = await client.post('/echo', { hello: 'world' }, { params: { id: 1 } })
+
+      expect(response.data).toEqual({ hello: 'world' })
+      expect(server.received[0].url).toBe('/echo?id=1')
+      expect(server.received[0].body.toString()).toBe('{"hello":"world"}')
+      expect(server.received[0].headers['content-type']).toBe('application/json')
+    },
+  )
+
+  test('signs the exact bytes of serialized bodies', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+    server = await startServer(sig)
+    client = axios.create({ baseURL: server.baseURL, headers: { post: { 'Content-Type': 'text/plain' } } })
+    attachHttpSignatures(client, sig, { keyId: 'test' })
+
+    // The default transform would trim this body if it were serialized again
+    await client.post('/echo', ' "text" ')
+    await client.post('/form', new URLSearchParams({ a: 'b c' }), { headers: { 'Content-Type': undefined } })
+
+    expect(server.received.map(({ body }) => body.toString())).toEqual([' "text" ', 'a=b+c'])
+    expect(server.received[1].headers['content-type']).toBe('application/x-www-form-urlencoded;charset=utf-8')
+  })
+
+  test('signs requests without bodies', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+    server = await startServer(sig, { signed: '"ok"' })
+    client = axios.create({ baseURL: server.baseURL })
+    attachHttpSignatures(client, sig, { keyId: 'test', verifyResponse: true })
+
+    const response = await client.get('/', { headers: { 'Content-Type': 'text/plain' }, responseType: 'text' })
+
+    expect(response.data).toBe('"ok"')
+    expect(server.received[0].method).toBe('GET')
+  })
+
+  test('decodes verified responses as requested', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+    server = await startServer(sig)
+    client = axios.create({ baseURL: server.baseURL })
+    attachHttpSignatures(client, sig, { keyId: 'test', verifyResponse: true })
+
+    const response = await client.post('/', Buffer.from([1, 2, 3]), {
+      headers: { 'Content-Type': 'application/octet-stream' },
+      responseType: 'arraybuffer',
+    })
+
+    expect(Buffer.from(response.data)).toEqual(Buffer.from([1, 2, 3]))
+    await expect(
+      client.get('/', { headers: { 'Content-Type': 'text/plain' }, responseType: 'stream' }),
+    ).rejects.toThrow(ConfigurationError)
+  })
+
+  test('rejects responses which fail verification', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+    server = await startServer(sig, { served: '{"tampered":true}' })
+    client = axios.create({ baseURL: server.baseURL })
+    attachHttpSignatures(client, sig, { keyId: 'test', verifyResponse: true })
+
+    const error = await client.post('/', { hello: 'world' }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ResponseVerificationError)
+    expect(error.code).toBe(ErrorCode.DIGEST_MISMATCH)
+    expect(error.response.data).toEqual({ tampered: true })
+  })
+
+  test('verifies signed response digests without calculating digests', async () => {
+    server = await startServer(
+      manager(HttpSigVersion.DRAFT_CAVAGE_12, {
+        calculateDigest: false,
+        responseHeaders: { 'content-type': true, digest: true },
+      }),
+      { served: '{"tampered":true}' },
+    )
+    client = axios.create({ baseURL: server.baseURL })
+    attachHttpSignatures(client, manager(HttpSigVersion.DRAFT_CAVAGE_12, { calculateDigest: false }), {
+      keyId: 'test',
+      verifyResponse: true,
+    })
+
+    const error = await client.post('/', { hello: 'world' }).catch((e) => e)
+
+    expect(server.received[0].headers.digest).toBeUndefined()
+    expect(error).toBeInstanceOf(ResponseVerificationError)
+    expect(error.code).toBe(ErrorCode.DIGEST_MISMATCH)
+  })
+
+  test('leaves responses unverified unless asked to verify them', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+    server = await startServer(sig, { served: '{"tampered":true}' })
+    client = axios.create({ baseURL: server.baseURL })
+    const { request, response } = signatureInterceptors(sig, { keyId: 'test' })
+    client.interceptors.request.use(request)
+    client.interceptors.response.use(response)
+
+    await expect(client.post('/', { hello: 'world' })).resolves.toHaveProperty('data', { tampered: true })
+  })
+
+  test('can be removed', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+    server = await startServer(sig)
+    client = axios.create({ baseURL: server.baseURL })
+    const detach = attachHttpSignatures(client, sig, { keyId: 'test' })
+
+    detach()
+
+    await expect(client.post('/', { hello: 'world' })).rejects.toHaveProperty('response.status', 401)
+    expect(server.received[0].headers.signature).toBeUndefined()
+  })
+})
@@ -3,25 +3,23 @@
 
 import {
   ConfigurationError,
+  ErrorCode,
+  KeyId,
   signatures,
-  SignatureKey,
   VerificationError,
   createMessageContext,
   MessageContext,
 } from '@holmesmr/http-sig'
 import { NextFunction, Request, Response } from 'express'
+import { IncomingMessage, ServerResponse } from 'http'
+import readRawBody from 'raw-body'
 import { HttpSigHandler, HttpSigMiddlewareParams } from './types'
 
 export * from './types'
 
-type RequestVerifyContext = {
-  digestMatch?: boolean
-  key: SignatureKey
-}
-
 export function requestMessageWrapper(req: Request): MessageContext {
   return createMessageContext({
-    requestTarget: { method: req.method, path: req.path },
+    requestTarget: { method: req.method, path: req.originalUrl },
     getHeader(name: string) {
       const header = req.headers[name]
       if (typeof header === 'string') {
@@ -52,30 +50,100 @@ function getLastOrOnly<T>(xs: T | T[] | undefined): T | undefined {
   return Array.isArray(xs) ? xs.slice(-1)[0] : xs
 }
 
-export function httpSignatures(config: HttpSigMiddlewareParams): HttpSigHandler {
+// The default limit of body-parser, so that bodies are limited the same way whether or not it is used
+const DEFAULT_BODY_LIMIT = '100kb'
+
+// Per RFC 9112, requests have a body if they have either of these headers
+const hasBody = (req: Request): boolean =>
+  req.headers['transfer-encoding'] !== undefined || Number(req.headers['content-length'] || 0) > 0
+
+async function getRawBody(req: Request, limit: number | string): Promise<Buffer> {
+  if (req.rawBody) return req.rawBody
+
+  // body-parser marks requests whose body it has read
+  if (req._body) throw new ConfigurationError('bodyParser was used without the digestRequestBody helper')
+  if (!hasBody(req)) return Buffer.alloc(0)
+  if (req.readableEnded) throw new ConfigurationError('request body was read before it could be digested')
+
+  // Bodies over the limit are rejected with a 413 error, as by body-parser
+  req.rawBody = await readRawBody(req, { length: req.headers['content-length'], limit })
+  // The body has been consumed, so body parsers which run later must not try to read it
+  req._body = true
+
+  return req.rawBody
+}
+
+/**
+ * Create middleware to verify request signatures and sign responses.
+ *
+ * `requestSigEnforcer` verifies the signature with the key for its keyId, along
+ * with the digest of the body if the signature covers the digest header, which
+ * it must if the `calculateDigest` option is set. Errors are passed to
+ * `next()`, and the verified signature is available as `req.signature`.
+ *
+ * Bodies parsed by body-parser must be captured by passing `digestRequestBody`
+ * as its `verify` option. Otherwise the enforcer reads the body itself, up to
+ * the size given by the `limit` option, which is then available as
+ * `req.rawBody` and is not parsed by later body parsers.
+ *
+ * `responseSigner` signs responses with the keyId of the verified request
+ * signature, or else the `keyId` option. Responses are left unsigned if the key
+ * of the request signature cannot sign, such as when only its public key is
+ * known.
+ */
+export function httpSignatures({ limit = DEFAULT_BODY_LIMIT, ...config }: HttpSigMiddlewareParams): HttpSigHandler {
   const httpSig = signatures(config)
-  const keyId = 'foo'
-  const bodyDigestKey = Symbol('bodyDigest')
+  const defaultKeyId = (config as { keyId?: KeyId }).keyId
 
-  const requestSigEnforcer = (req: Request, res: Response, next: NextFunction) => {
-    // abandon request if no signature present
-    if (!req.headers.signature) throw new VerificationError('request was not signed')
+  const verifyRequest = async (req: Request) => {
+    const msgCtx = requestMessageWrapper(req)
+    const signature = msgCtx.getSignature()
+    if (!signature) throw new VerificationError('request was not signed', ErrorCode.SIGNATURE_MISSING)
+
+    // The key is found by the keyId of the signature, trying each valid version
+    const key = await httpSig.verifyRequest(msgCtx, signature, { checkReplay: false })
+
+    // Digests are only meaningful if they are signed, as otherwise the body could be replaced along with its digest
+    const digestSigned = signature.headers.includes(key.digestHeader)
+    if (key.options.calculateDigest && !digestSigned)
+      throw new VerificationError(
+        `signature missing required headers: ${key.digestHeader}`,
+        ErrorCode.MISSING_REQUIRED_HEADERS,
+        { keyId: key.id, missingHeaders: [key.digestHeader] },
+      )
+
+    if (digestSigned) {
+      // Get the last digest header if multiple set
+      const digestHeader = getLastOrOnly(req.headers[key.digestHeader])
 
-    // Needed to allow use of unique symbol w/ locals
-    const locals = res.locals as any
-    const verifyCtx = locals[bodyDigestKey] as RequestVerifyContext | undefined
-    const parsed = Boolean((req as any)._body)
+      // Require that the digest header be set
+      if (!digestHeader) throw new VerificationError('request digest not set', ErrorCode.DIGEST_MISSING)
 
-    if (!verifyCtx && parsed) throw new ConfigurationError('bodyParser was used without the digestRequestBody helper')
+      key.verifyDigestHeader(await getRawBody(req, limit), digestHeader)
+    }
 
-    // Reuse context from verification step if possible
-    const key = verifyCtx?.key || httpSig.getKey(keyId)
+    // Only remember signatures once the whole request has been verified
+    await httpSig.checkReplay(key, signature)
 
-    next()
+    req.signature = signature
+  }
+
+  const requestSigEnforcer = (req: Request, res: Response, next: NextFunction) => {
+    verifyRequest(req).then(() => next(), next)
   }
 
   const responseSigner = (req: Request, res: Response, next: NextFunction) => {
+    // Respond with the keyId of the verified request signature, if there is one
+    const requestKeyId = req.signature?.keyId
+    const keyId = requestKeyId || defaultKeyId
+    if (!keyId) return next(new ConfigurationError('unable to determine keyId for response'))
+
     httpSig.getKey(keyId).then((key) => {
+      // Requests may be signed with keys of which only the public key is known, which cannot sign responses
+      if (!key.canSign) {
+        return requestKeyId ? next() : next(new ConfigurationError(`key ${keyId} cannot sign responses`))
+      }
+
       const sendInterceptor = (finalRes: Response, send: NextFunction) =>
         function (this: any, body: any) {
           const realSend = send.bind(this as any)
@@ -90,12 +158,11 @@ export function httpSignatures(config: HttpSigMiddlewareParams): HttpSigHandler
 
           const buf = body instanceof Buffer ? body : Buffer.from(body, 'utf-8')
 
-          finalRes.set('Digest', key.createDigestHeader(buf))
+          finalRes.set(key.digestHeader, key.createDigestHeader(buf))
 
           const ctx = responseMessageWrapper(res)
-          const sig = key.signResponse(ctx)
 
-          finalRes.set('Signature', sig)
+          finalRes.set(key.signResponseHeaders(ctx))
 
           return realSend(body)
         }
@@ -103,30 +170,12 @@ export function httpSignatures(config: HttpSigMiddlewareParams): HttpSigHandler
       res.send = sendInterceptor(res, res.send) as any
 
       next()
-    })
+    }, next)
   }
 
-  const digestRequestBody = (req: Request, res: Response, buf: Buffer, _encoding: string) => {
-    httpSig.getKey(keyId).then((key) => {
-      let digestMatch
-      if (key.options.calculateDigest) {
-        // Get the last digest header if multiple set
-        const digestHeader = getLastOrOnly(req.headers.digest)
-
-        // Require that the digest header be set
-        if (!digestHeader) throw new VerificationError('request digest not set')
-
-        digestMatch = key.verifyDigestHeader(buf, digestHeader)
-      }
-      const context: RequestVerifyContext = {
-        digestMatch,
-        key,
-      }
-
-      // Needed to allow use of unique symbol w/ locals
-      const locals = res.locals as any
-      locals[bodyDigestKey] = context
-    })
+  // Keep the raw body read by body-parser, for verification by requestSigEnforcer
+  const digestRequestBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+    ;(req as Request).rawBody = buf
   }
 
   return {
@@ -3,14 +3,33 @@
 
 import { Handler } from 'express'
 import { Options } from 'body-parser'
-import { HttpSigParams } from '@holmesmr/http-sig'
+import { HttpSigParams, Signature } from '@holmesmr/http-sig'
 
 export { ConfigurationError } from '@holmesmr/http-sig'
 
-export type HttpSigMiddlewareParams = HttpSigParams
+export type HttpSigMiddlewareParams = HttpSigParams & {
+  /**
+   * The largest request body read by `requestSigEnforcer` for digest verification,
+   * as a number of bytes or a string such as `'1mb'`. Defaults to `'100kb'`, as for body-parser.
+   */
+  limit?: number | string
+}
 
 export type HttpSigHandler = {
   responseSigner: Handler
   requestSigEnforcer: Handler
   digestRequestBody: Options['verify']
 }
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The request signature, once it has been verified by `requestSigEnforcer`. */
+      signature?: Signature
+      /** The raw request body, as captured for digest verification. */
+      rawBody?: Buffer
+      /** Set by body-parser once it has read the request body. */
+      _body?: boolean
+    }
+  }
+}
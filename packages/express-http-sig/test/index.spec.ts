@@ -0,0 +1,225 @@
+import {
+  createMessageContext,
+  DigestAlgorithm,
+  ErrorCode,
+  HmacAlgorithm,
+  HttpSigParams,
+  HttpSigVersion,
+  KeyPairAlgorithm,
+  MemoryReplayStore,
+  SignatureAlgorithm,
+  signatures,
+  SignatureError,
+} from '@holmesmr/http-sig'
+import express, { NextFunction, Request, Response } from 'express'
+import request from 'supertest'
+import { httpSignatures, HttpSigMiddlewareParams } from '../src'
+
+import * as crypto from 'crypto'
+
+const sharedSecret = crypto.createSecretKey(crypto.randomBytes(32))
+
+const config = (version: HttpSigVersion): HttpSigParams => ({
+  version,
+  requestHeaders: { '(request-target)': true, host: true },
+  responseHeaders: { 'content-type': true },
+  keyId: 'test',
+  signatureAlgorithm: SignatureAlgorithm.HS2019,
+  digest: DigestAlgorithm.SHA256,
+  algorithm: HmacAlgorithm.SHA256,
+  key: sharedSecret,
+})
+
+// Sign a request as a client would, returning its headers
+const signRequest = async (
+  version: HttpSigVersion,
+  method: string,
+  path: string,
+  body: string,
+  params: Partial<HttpSigParams> = {},
+) => {
+  const key = await signatures({ ...config(version), ...params } as HttpSigParams).getKey('test')
+  const requestHeaders: { [header: string]: string } = {
+    host: 'localhost',
+    'content-type': 'application/json',
+    digest: key.createDigestHeader(Buffer.from(body)),
+  }
+  const msgCtx = createMessageContext({
+    requestTarget: { method, path },
+    getHeader: (name) => (requestHeaders[name] !== undefined ? [requestHeaders[name]] : undefined),
+  })
+
+  return { ...requestHeaders, ...key.signRequestHeaders(msgCtx) }
+}
+
+const createApp = (version: HttpSigVersion, params: Partial<HttpSigMiddlewareParams> = {}) => {
+  const app = express()
+  const { requestSigEnforcer, responseSigner, digestRequestBody } = httpSignatures({
+    ...config(version),
+    ...params,
+  } as HttpSigMiddlewareParams)
+
+  const echo = (req: Request, res: Response) => res.send({ keyId: req.signature?.keyId, body: req.body })
+
+  // Bodies parsed by body-parser are captured by the verify helper
+  app.post('/parsed', express.json({ verify: digestRequestBody }), requestSigEnforcer, responseSigner, echo)
+  // Otherwise the body is read by the enforcer, and left unparsed
+  app.post('/raw', requestSigEnforcer, (req, res) => res.send({ rawBody: req.rawBody?.toString() }))
+  app.post('/misconfigured', express.json(), requestSigEnforcer, echo)
+
+  app.use((err: SignatureError, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err.status || 500).send({ code: err.code, message: err.message })
+  })
+
+  return app
+}
+
+// Send a request with exact headers, so the host signed matches the host sent
+const send = (app: express.Express, path: string, headers: { [header: string]: string }, body: string) =>
+  request(app).post(path).set(headers).send(body)
+
+describe('express middleware', () => {
+  test.each([HttpSigVersion.DRAFT_CAVAGE_12, HttpSigVersion.RFC_9421])(
+    'verifies %s requests and signs responses',
+    async (version) => {
+      const payload = '{ "hello": "world" }'
+
+      const res = await send(
+        createApp(version),
+        '/parsed?x=1',
+        await signRequest(version, 'POST', '/parsed?x=1', payload),
+        payload,
+      )
+
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({ keyId: 'test', body: { hello: 'world' } })
+
+      const key = await signatures(config(version)).getKey('test')
+      expect(key.verifyDigestHeader(Buffer.from(res.text), res.headers.digest)).toBe(true)
+      expect(
+        key.verifyResponse(
+          createMessageContext({
+            status: res.status,
+            getHeader: (name) => (res.headers[name] !== undefined ? [res.headers[name]] : undefined),
+          }),
+        ),
+      ).toBe(true)
+    },
+  )
+
+  test('verifies bodies read without body-parser', async () => {
+    const payload = '{"hello":"world"}'
+
+    const res = await send(
+      createApp(HttpSigVersion.DRAFT_CAVAGE_12),
+      '/raw',
+      await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', '/raw', payload),
+      payload,
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ rawBody: payload })
+  })
+
+  test.each(['/parsed', '/raw'])('rejects bodies on %s which do not match the digest', async (path) => {
+    const res = await send(
+      createApp(HttpSigVersion.DRAFT_CAVAGE_12),
+      path,
+      await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', path, '{"hello":"world"}'),
+      '{"hello":"there"}',
+    )
+
+    expect(res.status).toBe(400)
+    expect(res.body).toHaveProperty('code', ErrorCode.DIGEST_MISMATCH)
+    expect(res.headers.signature).toBeUndefined()
+  })
+
+  test('requires the digest header to be signed when calculating digests', async () => {
+    const payload = '{"hello":"world"}'
+    const headers = await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', '/raw', payload, {
+      calculateDigest: false,
+    })
+
+    const res = await send(createApp(HttpSigVersion.DRAFT_CAVAGE_12), '/raw', headers, payload)
+
+    expect(res.status).toBe(401)
+    expect(res.body).toEqual({
+      code: ErrorCode.MISSING_REQUIRED_HEADERS,
+      message: 'signature missing required headers: digest',
+    })
+    expect(
+      (await send(createApp(HttpSigVersion.DRAFT_CAVAGE_12, { calculateDigest: false }), '/raw', headers, payload))
+        .status,
+    ).toBe(200)
+  })
+
+  test('leaves responses unsigned when the request key cannot sign', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519')
+    const keyPair = { keyAlgorithm: KeyPairAlgorithm.EDDSA, algorithm: undefined, key: undefined, publicKey }
+    const payload = '{"hello":"world"}'
+
+    const res = await send(
+      createApp(HttpSigVersion.DRAFT_CAVAGE_12, keyPair),
+      '/parsed',
+      await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', '/parsed', payload, { ...keyPair, privateKey }),
+      payload,
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ keyId: 'test', body: { hello: 'world' } })
+    expect(res.headers.signature).toBeUndefined()
+  })
+
+  test('rejects bodies over the limit before reading them', async () => {
+    const payload = JSON.stringify({ hello: 'world'.repeat(10) })
+
+    const res = await send(
+      createApp(HttpSigVersion.DRAFT_CAVAGE_12, { limit: 16 }),
+      '/raw',
+      await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', '/raw', payload),
+      payload,
+    )
+
+    expect(res.status).toBe(413)
+  })
+
+  test('rejects unsigned requests', async () => {
+    const res = await request(createApp(HttpSigVersion.DRAFT_CAVAGE_12)).post('/parsed').send({ hello: 'world' })
+
+    expect(res.status).toBe(401)
+    expect(res.body).toHaveProperty('code', ErrorCode.SIGNATURE_MISSING)
+  })
+
+  test('rejects replayed requests', async () => {
+    const app = createApp(HttpSigVersion.RFC_9421, { replayStore: new MemoryReplayStore() })
+    const headers = await signRequest(HttpSigVersion.RFC_9421, 'POST', '/raw', '')
+
+    expect((await send(app, '/raw', headers, '')).status).toBe(200)
+    expect((await send(app, '/raw', headers, '')).body).toHaveProperty('code', ErrorCode.SIGNATURE_REPLAYED)
+  })
+
+  test('does not use up signatures on requests with tampered bodies', async () => {
+    const app = createApp(HttpSigVersion.RFC_9421, { replayStore: new MemoryReplayStore() })
+    const headers = await signRequest(HttpSigVersion.RFC_9421, 'POST', '/raw', '{"hello":"world"}')
+
+    expect((await send(app, '/raw', headers, '{"hello":"there"}')).body).toHaveProperty(
+      'code',
+      ErrorCode.DIGEST_MISMATCH,
+    )
+    expect((await send(app, '/raw', headers, '{"hello":"world"}')).status).toBe(200)
+  })
+
+  test('reports bodies parsed without the verify helper', async () => {
+    const payload = '{"hello":"world"}'
+
+    const res = await send(
+      createApp(HttpSigVersion.DRAFT_CAVAGE_12),
+      '/misconfigured',
+      await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', '/misconfigured', payload),
+      payload,
+    )
+
+    expect(res.status).toBe(500)
+    expect(res.body.message).toMatch(/digestRequestBody/)
+  })
+})
@@ -48,12 +48,31 @@ goodRoutes.post('/', (req, res, next) => {
   // const ctx = requestMessageWrapper(req)
   // console.log(req.headers)
   // console.log('sig string:', ctx.canonicalString(['(request-target)', 'Host']))
-  res.status(202).send({ status: 'ok', signatureVerified: res.locals.signatureVerified })
+  res.status(202).send({ status: 'ok', keyId: req.signature?.keyId })
 })
 
 goodRoutes.get('/', (req, res, next) => {
   console.log('Got GET')
-  res.send({ status: 'ok', signatureVerified: res.locals.signatureVerified })
+  res.send({ status: 'ok', keyId: req.signature?.keyId })
+})
+
+// Raw routes verify the body before it is parsed, without the verify helper.
+// The enforcer consumes the body, so it is parsed from req.rawBody instead of by body-parser.
+const rawRoutes = express.Router()
+
+const parseRawBody = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    req.body = req.rawBody?.length ? JSON.parse(req.rawBody.toString('utf8')) : {}
+    next()
+  } catch (e) {
+    next(e)
+  }
+}
+
+rawRoutes.use(requestSigEnforcer, responseSigner, parseRawBody)
+
+rawRoutes.post('/', (req, res) => {
+  res.status(202).send({ status: 'ok', keyId: req.signature?.keyId, body: req.body })
 })
 
 // Bad routes forgets to add the verify helper for request bodies
@@ -69,10 +88,11 @@ badRoutes.use(
 
 badRoutes.post('/', (req, res) => {
   console.log('Got POST with body:', req.body)
-  res.status(202).send({ status: 'bad', signatureVerified: res.locals.signatureVerified })
+  res.status(202).send({ status: 'bad', keyId: req.signature?.keyId })
 })
 
 app.use('/good', goodRoutes)
+app.use('/raw', rawRoutes)
 app.use('/bad', badRoutes)
 
 function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
@@ -80,11 +100,7 @@ function errorHandler(err: any, req: Request, res: Response, next: NextFunction)
     return next(err)
   }
 
-  let status = 500
-  if (err instanceof VerificationError) {
-    status = 403
-  }
-  res.status(status)
+  res.status(err instanceof VerificationError ? err.status : 500)
   res.send({ error: err.message })
 }
 
@@ -0,0 +1,4 @@
+module.exports = {
+  'src/**/*.ts': [() => 'npm run typecheck', 'prettier -c'],
+  './**/*.json': ['prettier -c'],
+}
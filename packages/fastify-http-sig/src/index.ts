@@ -0,0 +1,158 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { ConfigurationError, ErrorCode, signatures, SignatureKeyManager, VerificationError } from '@holmesmr/http-sig'
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify'
+import fp from 'fastify-plugin'
+import { Readable, Transform } from 'stream'
+import { FastifyHttpSigOptions, SignedRouteOptions } from './types'
+import { requestMessageWrapper, responseMessageWrapper } from './message-wrappers'
+
+export * from './types'
+export { requestMessageWrapper, responseMessageWrapper } from './message-wrappers'
+
+const DEFAULT_OPTIONS: SignedRouteOptions = Object.freeze({
+  verifyRequest: true,
+  signResponse: true,
+})
+
+// The raw bodies of requests to be verified, captured as they are parsed
+const rawBodies = new WeakMap<FastifyRequest, Buffer>()
+
+function getRouteOptions(req: FastifyRequest): SignedRouteOptions | undefined {
+  const opts = req.routeOptions.config.signatures
+  if (!opts) return undefined
+
+  return opts === true ? DEFAULT_OPTIONS : { ...DEFAULT_OPTIONS, ...opts }
+}
+
+function getLastOrOnly<T>(xs: T | T[] | undefined): T | undefined {
+  return Array.isArray(xs) ? xs.slice(-1)[0] : xs
+}
+
+// Capture the body as it is read by the content type parser, without changing it
+function captureRawBody(req: FastifyRequest, payload: Readable): Readable {
+  const chunks: Buffer[] = []
+  const capture = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk)
+      callback(null, chunk)
+    },
+    flush(callback) {
+      rawBodies.set(req, Buffer.concat(chunks))
+      callback()
+    },
+  })
+  payload.on('error', (err) => capture.destroy(err))
+
+  return payload.pipe(capture)
+}
+
+async function verifyRequest(sig: SignatureKeyManager, req: FastifyRequest): Promise<void> {
+  // Prepare signature for verification
+  const messageCtx = requestMessageWrapper(req)
+  const signature = messageCtx.getSignature()
+  if (!signature) throw new VerificationError('signature not present on request', ErrorCode.SIGNATURE_MISSING)
+
+  // Verify signature, trying each valid version of the key
+  const key = await sig.verifyRequest(messageCtx, signature, { checkReplay: false })
+
+  // Verify the body against the digest, treating requests without bodies as empty
+  if (key.options.calculateDigest || signature.headers.includes(key.digestHeader)) {
+    const digestHeader = getLastOrOnly(req.headers[key.digestHeader])
+    if (!digestHeader)
+      throw new VerificationError('request digest not set', ErrorCode.DIGEST_MISSING, { keyId: key.id })
+
+    key.verifyDigestHeader(rawBodies.get(req) || Buffer.alloc(0), digestHeader)
+  }
+
+  // Only remember signatures once the whole request has been verified
+  await sig.checkReplay(key, signature)
+
+  req.signatureKeyId = key.id
+}
+
+async function signResponse(
+  sig: SignatureKeyManager,
+  req: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown,
+): Promise<void> {
+  const routeKeyId = getRouteOptions(req)?.keyId
+  const keyId = routeKeyId || req.signatureKeyId
+  if (!keyId) throw new ConfigurationError('unable to determine keyId for response')
+
+  const key = await sig.getKey(keyId)
+  // Requests may be signed with keys of which only the public key is known, which cannot sign responses
+  if (!routeKeyId && !key.canSign) return
+
+  if (key.options.calculateDigest) {
+    let body: Buffer
+    if (payload === undefined || payload === null) body = Buffer.alloc(0)
+    else if (typeof payload === 'string') body = Buffer.from(payload, 'utf8')
+    else if (Buffer.isBuffer(payload)) body = payload
+    else throw new ConfigurationError('streamed responses cannot be signed')
+
+    reply.header(key.digestHeader, key.createDigestHeader(body))
+  }
+
+  reply.headers(key.signResponseHeaders(responseMessageWrapper(reply)))
+}
+
+/**
+ * Verifies requests and signs responses for routes with the `signatures`
+ * route option set.
+ *
+ * The raw body of requests to be verified is captured as it is parsed, and
+ * checked against the digest header in a `preHandler` hook. Requests which
+ * fail verification are rejected with the status of the `VerificationError`,
+ * and a challenge telling the client how to sign its request. The keyId of
+ * verified requests is available as `request.signatureKeyId`.
+ *
+ * Responses are signed in an `onSend` hook, once the body has been serialized,
+ * with the keyId of the route options, or else the keyId of the request
+ * signature. Responses are left unsigned if the key of the request signature
+ * cannot sign, such as when only its public key is known.
+ */
+const httpSignaturesPlugin: FastifyPluginAsync<FastifyHttpSigOptions> = async (fastify, config) => {
+  const sig = signatures(config)
+
+  fastify.decorate('httpSignatures', sig)
+  fastify.decorateRequest('signatureKeyId', null)
+
+  fastify.addHook('preParsing', async (req, _reply, payload) => {
+    if (!getRouteOptions(req)?.verifyRequest) return payload
+
+    return captureRawBody(req, payload)
+  })
+
+  fastify.addHook('preHandler', async (req, reply) => {
+    const opts = getRouteOptions(req)
+    if (!opts?.verifyRequest) return
+
+    try {
+      await verifyRequest(sig, req)
+    } catch (e) {
+      if (e instanceof VerificationError) {
+        // Tell the client how to sign its request
+        reply.headers(sig.createChallenge({ realm: opts.realm }))
+      }
+      throw e
+    }
+  })
+
+  fastify.addHook('onSend', async (req, reply, payload) => {
+    const opts = getRouteOptions(req)
+    if (!opts?.signResponse) return payload
+    // Responses to requests which failed verification are not signed
+    if (opts.verifyRequest && !req.signatureKeyId) return payload
+
+    await signResponse(sig, req, reply, payload)
+
+    return payload
+  })
+}
+
+export const httpSignatures = fp(httpSignaturesPlugin, { fastify: '4.x', name: '@holmesmr/fastify-http-sig' })
+
+export default httpSignatures
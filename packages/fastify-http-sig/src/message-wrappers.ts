@@ -0,0 +1,26 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { createMessageContext, MessageContext } from '@holmesmr/http-sig'
+import { FastifyReply, FastifyRequest } from 'fastify'
+
+const toHeaderValues = (header: string | number | string[] | undefined): [string, ...string[]] | undefined => {
+  if (typeof header === 'number') return [header.toString()]
+  if (typeof header === 'string') return [header]
+
+  return header && header.length > 0 ? (header as [string, ...string[]]) : undefined
+}
+
+export function requestMessageWrapper(req: FastifyRequest): MessageContext {
+  return createMessageContext({
+    requestTarget: { method: req.method, path: req.url, scheme: req.protocol },
+    getHeader: (name: string) => toHeaderValues(req.headers[name]),
+  })
+}
+
+export function responseMessageWrapper(reply: FastifyReply): MessageContext {
+  return createMessageContext({
+    status: reply.statusCode,
+    getHeader: (name: string) => toHeaderValues(reply.getHeader(name)),
+  })
+}
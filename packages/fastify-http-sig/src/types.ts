@@ -0,0 +1,40 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { HttpSigParams, KeyId, SignatureKeyManager } from '@holmesmr/http-sig'
+
+export { ConfigurationError, VerificationError } from '@holmesmr/http-sig'
+
+export type FastifyHttpSigOptions = HttpSigParams
+
+export type SignedRouteOptions = {
+  verifyRequest: boolean
+  signResponse: boolean
+  /**
+   * The keyId to sign responses with. Defaults to the keyId of the verified request
+   * signature, if its key can sign.
+   */
+  keyId?: KeyId
+  /** The protection space given in the challenge sent when request verification fails. */
+  realm?: string
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    /**
+     * Whether requests to the route are verified and responses are signed.
+     * Routes without this option are neither verified nor signed.
+     */
+    signatures?: boolean | Partial<SignedRouteOptions>
+  }
+
+  interface FastifyInstance {
+    /** The `SignatureKeyManager` used by the plugin, to sign or verify other messages with. */
+    httpSignatures: SignatureKeyManager
+  }
+
+  interface FastifyRequest {
+    /** The keyId of the verified request signature, if the request was verified. */
+    signatureKeyId: KeyId | null
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  createMessageContext,
+  DigestAlgorithm,
+  ErrorCode,
+  HmacAlgorithm,
+  HttpSigParams,
+  HttpSigVersion,
+  KeyPairAlgorithm,
+  SignatureAlgorithm,
+  signatures,
+} from '@holmesmr/http-sig'
+import Fastify, { FastifyInstance } from 'fastify'
+import httpSignatures from '../src'
+
+import * as crypto from 'crypto'
+
+const sharedSecret = crypto.createSecretKey(crypto.randomBytes(32))
+
+const config = (version: HttpSigVersion): HttpSigParams => ({
+  version,
+  requestHeaders: { '(request-target)': true, host: true },
+  responseHeaders: { 'content-type': true },
+  keyId: 'test',
+  signatureAlgorithm: SignatureAlgorithm.HS2019,
+  digest: DigestAlgorithm.SHA256,
+  algorithm: HmacAlgorithm.SHA256,
+  key: sharedSecret,
+})
+
+// A partner's key pair, of which the server may only know the public key
+const partnerKeyPair = crypto.generateKeyPairSync('ed25519')
+const partnerConfig = (version: HttpSigVersion, privateKey?: crypto.KeyObject): HttpSigParams => ({
+  version,
+  requestHeaders: { '(request-target)': true, host: true },
+  responseHeaders: { 'content-type': true },
+  keyId: 'test',
+  signatureAlgorithm: SignatureAlgorithm.HS2019,
+  digest: DigestAlgorithm.SHA256,
+  keyAlgorithm: KeyPairAlgorithm.EDDSA,
+  publicKey: partnerKeyPair.publicKey,
+  privateKey,
+})
+
+// Sign a request as a client would, returning its headers
+const signRequest = async (
+  version: HttpSigVersion,
+  method: string,
+  path: string,
+  body: string,
+  headers: { [header: string]: string } = {},
+  params = config(version),
+) => {
+  const key = await signatures(params).getKey('test')
+  const requestHeaders: { [header: string]: string } = {
+    host: 'localhost:80',
+    'content-type': 'application/json',
+    ...headers,
+    digest: key.createDigestHeader(Buffer.from(body)),
+  }
+  const msgCtx = createMessageContext({
+    requestTarget: { method, path },
+    getHeader: (name) => (requestHeaders[name] !== undefined ? [requestHeaders[name]] : undefined),
+  })
+
+  return { ...requestHeaders, ...key.signRequestHeaders(msgCtx) }
+}
+
+const createApp = async (version: HttpSigVersion, params = config(version)): Promise<FastifyInstance> => {
+  const app = Fastify()
+  await app.register(httpSignatures, params)
+
+  app.post('/echo', { config: { signatures: true } }, async (req) => ({ keyId: req.signatureKeyId, body: req.body }))
+  app.get('/sign-only', { config: { signatures: { verifyRequest: false, keyId: 'test' } } }, async () => 'ok')
+  app.get('/unsigned', async (req) => ({ keyId: req.signatureKeyId }))
+
+  return app
+}
+
+describe('fastify plugin', () => {
+  let app: FastifyInstance
+
+  afterEach(() => app.close())
+
+  test.each([HttpSigVersion.DRAFT_CAVAGE_12, HttpSigVersion.RFC_9421])(
+    'verifies %s requests and signs responses',
+    async (version) => {
+      app = await createApp(version)
+      const payload = '{ "hello": "world" }'
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/echo?x=1',
+        headers: await signRequest(version, 'POST', '/echo?x=1', payload),
+        payload,
+      })
+
+      expect(res.statusCode).toBe(200)
+      expect(res.json()).toEqual({ keyId: 'test', body: { hello: 'world' } })
+
+      const key = await app.httpSignatures.getKey('test')
+      expect(key.verifyDigestHeader(res.rawPayload, res.headers.digest as string)).toBe(true)
+      expect(
+        key.verifyResponse(
+          createMessageContext({
+            status: res.statusCode,
+            getHeader: (name) => {
+              const value = res.headers[name]
+              return value === undefined ? undefined : [value.toString()]
+            },
+          }),
+        ),
+      ).toBe(true)
+    },
+  )
+
+  test('rejects bodies which do not match the digest', async () => {
+    app = await createApp(HttpSigVersion.DRAFT_CAVAGE_12)
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/echo',
+      headers: await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', '/echo', '{"hello":"world"}'),
+      payload: '{"hello":"there"}',
+    })
+
+    expect(res.statusCode).toBe(400)
+    expect(res.json()).toHaveProperty('code', ErrorCode.DIGEST_MISMATCH)
+    expect(res.headers.signature).toBeUndefined()
+  })
+
+  test('leaves responses unsigned when the request key cannot sign', async () => {
+    app = await createApp(HttpSigVersion.DRAFT_CAVAGE_12, partnerConfig(HttpSigVersion.DRAFT_CAVAGE_12))
+    const payload = '{"hello":"world"}'
+    const signer = partnerConfig(HttpSigVersion.DRAFT_CAVAGE_12, partnerKeyPair.privateKey)
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/echo',
+      headers: await signRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'POST', '/echo', payload, {}, signer),
+      payload,
+    })
+
+    expect(res.statusCode).toBe(200)
+    expect(res.json()).toEqual({ keyId: 'test', body: { hello: 'world' } })
+    expect(res.headers.signature).toBeUndefined()
+  })
+
+  test('challenges unsigned requests', async () => {
+    app = await createApp(HttpSigVersion.DRAFT_CAVAGE_12)
+
+    const res = await app.inject({ method: 'POST', url: '/echo', payload: { hello: 'world' } })
+
+    expect(res.statusCode).toBe(401)
+    expect(res.json()).toHaveProperty('code', ErrorCode.SIGNATURE_MISSING)
+    expect(res.headers['www-authenticate']).toBe('Signature headers="(request-target) host"')
+  })
+
+  test('signs responses without verifying requests when configured', async () => {
+    app = await createApp(HttpSigVersion.DRAFT_CAVAGE_12)
+
+    const res = await app.inject({ method: 'GET', url: '/sign-only' })
+
+    expect(res.statusCode).toBe(200)
+    expect(res.headers.digest).toBe(`SHA-256=${crypto.createHash('sha256').update('ok').digest('base64')}`)
+    expect(res.headers.signature).toMatch(/^keyId="test"/)
+  })
+
+  test('ignores routes without the signatures option', async () => {
+    app = await createApp(HttpSigVersion.DRAFT_CAVAGE_12)
+
+    const res = await app.inject({ method: 'GET', url: '/unsigned' })
+
+    expect(res.statusCode).toBe(200)
+    expect(res.json()).toEqual({ keyId: null })
+    expect(res.headers.signature).toBeUndefined()
+  })
+})
@@ -0,0 +1,300 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  DsaEncodingType,
+  HmacAlgorithm,
+  KeyConfig,
+  KeyId,
+  KeyLookupFunction,
+  KeyPairAlgorithm,
+  KeyPairConfig,
+  RsaPaddingScheme,
+  SignatureAlgorithm,
+  SignatureOptionOverrides,
+} from './types'
+import { Jwk, keyConfigFromJwk } from './jwk'
+import { KeyPairSignatureKey } from './KeyPairSignatureKey'
+import * as crypto from 'crypto'
+import { FSWatcher, promises as fs, watch } from 'fs'
+import * as path from 'path'
+
+/** The names of the files read from each key directory. */
+export const KEY_FILES = Object.freeze({
+  metadata: 'metadata.json',
+  jwk: 'key.jwk',
+  secret: 'secret.key',
+  publicKey: 'public.pem',
+  privateKey: 'private.pem',
+})
+
+/** The contents of the metadata file of a key directory, which configures how the key is used. */
+export type KeyMetadata = {
+  /** Defaults to hs2019. */
+  signatureAlgorithm?: SignatureAlgorithm
+  /** Defaults to SHA-256. */
+  digest?: DigestAlgorithm
+  /** The MAC algorithm for secret keys. Defaults to hmac-sha256. */
+  algorithm?: HmacAlgorithm
+  /** The key pair algorithm for PEM keys. Inferred from the key type if unset. */
+  keyAlgorithm?: KeyPairAlgorithm
+  /** The hash algorithm for RSA and ECDSA PEM keys. Defaults to sha256. */
+  hashAlgorithm?: string
+  padding?: 'pkcs1' | 'pss'
+  saltLength?: number
+  dsaEncoding?: DsaEncodingType
+  namedCurve?: string
+  options?: SignatureOptionOverrides
+}
+
+export type FileKeyStoreOptions = {
+  /** Whether to watch the directory and reload keys when their files change. Defaults to true. */
+  watch?: boolean
+  /**
+   * Called with the keyId of each key whose files changed, such as to invalidate
+   * the key in a `SignatureKeyManager` key cache.
+   */
+  onChange?: (keyId: KeyId) => void
+}
+
+const NODE_TO_KEY_PAIR_ALGORITHM: { [Value in crypto.KeyType]?: KeyPairAlgorithm } = {
+  rsa: KeyPairAlgorithm.RSA,
+  ec: KeyPairAlgorithm.ECDSA,
+  ed25519: KeyPairAlgorithm.EDDSA,
+  ed448: KeyPairAlgorithm.EDDSA,
+}
+
+const RSA_PADDING_SCHEMES = { pkcs1: RsaPaddingScheme.PKCS1, pss: RsaPaddingScheme.PKCS1_PSS }
+
+// keyIds come from incoming messages, so must never be able to reach outside of the directory
+const isSafeKeyId = (keyId: string): boolean =>
+  keyId.length > 0 && !keyId.startsWith('.') && !/[/\\\0]/.test(keyId) && path.basename(keyId) === keyId
+
+const isNotFound = (e: unknown): boolean => ['ENOENT', 'ENOTDIR'].includes((e as NodeJS.ErrnoException).code || '')
+
+function checkEnum<T>(value: T | undefined, values: T[], name: string, file: string) {
+  if (value !== undefined && !values.includes(value)) throw new ConfigurationError(`unsupported ${name} ${value}`, file)
+}
+
+/**
+ * A key store backed by a directory, containing a subdirectory for each keyId.
+ *
+ * Each key directory contains the key itself, as one of:
+ *
+ * * `key.jwk`: a JSON Web Key, as imported by `keyConfigFromJwk`
+ * * `secret.key`: a base64-encoded secret key, used for HMAC
+ * * `public.pem` and/or `private.pem`: a PEM-encoded key pair
+ *
+ * along with an optional `metadata.json` file, containing `KeyMetadata`.
+ *
+ * Keys are read when first looked up and kept until their files change. Use
+ * the `keyLookup` function as the key lookup of a `SignatureKeyManager`, and
+ * call `close()` to stop watching the directory.
+ */
+export class FileKeyStore {
+  private readonly keys = new Map<KeyId, Promise<KeyConfig | undefined>>()
+  private readonly watchers = new Map<string, FSWatcher>()
+  private readonly watching: boolean
+  private readonly onChange?: (keyId: KeyId) => void
+
+  /**
+   * @param directory The directory containing a subdirectory for each keyId
+   * @param options Options for watching the directory
+   */
+  constructor(readonly directory: string, { watch = true, onChange }: FileKeyStoreOptions = {}) {
+    this.watching = watch
+    this.onChange = onChange
+
+    // Keys added or removed are detected through the top-level directory
+    if (this.watching) this.#watch(directory, (keyId) => keyId && this.#changed(keyId))
+  }
+
+  /** A key lookup function which reads keys from this store. */
+  readonly keyLookup: KeyLookupFunction = ({ keyId }) => this.get(keyId)
+
+  /**
+   * Get the key configuration for a keyId, or undefined if no directory exists for the keyId.
+   *
+   * @throws ConfigurationError if the key's files are invalid, with the path of the invalid file
+   */
+  async get(keyId: KeyId): Promise<KeyConfig | undefined> {
+    if (!isSafeKeyId(keyId)) return undefined
+    // Without watching, changes can only be detected by reading the files every time
+    if (!this.watching) return this.#read(keyId)
+
+    let key = this.keys.get(keyId)
+    if (!key) {
+      key = this.#read(keyId)
+      this.keys.set(keyId, key)
+      // Failures and unknown keyIds are not remembered, so that they are retried on next lookup,
+      // and lookups of arbitrary keyIds cannot grow the cache without bound
+      const forget = () => this.keys.get(keyId) === key && this.keys.delete(keyId)
+      key.then((config) => config || forget(), forget)
+    }
+
+    return key
+  }
+
+  /** Stop watching the directory for changes. */
+  close(): void {
+    for (const watcher of this.watchers.values()) watcher.close()
+    this.watchers.clear()
+    this.keys.clear()
+  }
+
+  #watch(dir: string, listener: (filename: string | undefined) => void) {
+    if (this.watchers.has(dir)) return
+
+    try {
+      // Watchers should not keep the process running
+      const watcher = watch(dir, { persistent: false }, (_event, filename) => listener(filename?.toString()))
+      watcher.on('error', () => {
+        watcher.close()
+        this.watchers.delete(dir)
+      })
+      this.watchers.set(dir, watcher)
+    } catch (e) {
+      throw new ConfigurationError(`unable to watch for key changes: ${(e as Error).message}`, dir)
+    }
+  }
+
+  #changed(keyId: KeyId) {
+    this.keys.delete(keyId)
+
+    const dir = path.join(this.directory, keyId)
+    this.watchers.get(dir)?.close()
+    this.watchers.delete(dir)
+
+    this.onChange?.(keyId)
+  }
+
+  async #read(keyId: KeyId): Promise<KeyConfig | undefined> {
+    const dir = path.join(this.directory, keyId)
+
+    let files: string[]
+    try {
+      files = await fs.readdir(dir)
+    } catch (e) {
+      if (isNotFound(e)) return undefined
+      throw new ConfigurationError(`unable to read key directory: ${(e as Error).message}`, dir)
+    }
+
+    if (this.watching) this.#watch(dir, () => this.#changed(keyId))
+
+    const metadata = files.includes(KEY_FILES.metadata)
+      ? await this.#readJson<KeyMetadata>(dir, KEY_FILES.metadata)
+      : {}
+    const metadataFile = path.join(dir, KEY_FILES.metadata)
+    checkEnum(metadata.signatureAlgorithm, Object.values(SignatureAlgorithm), 'signature algorithm', metadataFile)
+    checkEnum(metadata.digest, Object.values(DigestAlgorithm), 'digest algorithm', metadataFile)
+
+    if (files.includes(KEY_FILES.jwk)) {
+      const jwk = await this.#readJson<Jwk>(dir, KEY_FILES.jwk)
+      try {
+        return keyConfigFromJwk(jwk, { digest: metadata.digest, options: metadata.options })
+      } catch (e) {
+        throw new ConfigurationError((e as Error).message, path.join(dir, KEY_FILES.jwk))
+      }
+    }
+
+    const signatureAlgorithm = metadata.signatureAlgorithm || SignatureAlgorithm.HS2019
+    const base = {
+      signatureAlgorithm,
+      digest: metadata.digest || DigestAlgorithm.SHA256,
+      ...(metadata.options && { options: metadata.options }),
+    }
+
+    if (files.includes(KEY_FILES.secret)) {
+      checkEnum(metadata.algorithm, Object.values(HmacAlgorithm), 'MAC algorithm', metadataFile)
+      const secret = await this.#readFile(dir, KEY_FILES.secret)
+      const key = crypto.createSecretKey(Buffer.from(secret.trim(), 'base64'))
+      if (key.symmetricKeySize === 0)
+        throw new ConfigurationError('secret key is empty', path.join(dir, KEY_FILES.secret))
+
+      return { ...base, algorithm: metadata.algorithm || HmacAlgorithm.SHA256, key } as KeyConfig
+    }
+
+    const hasPublicKey = files.includes(KEY_FILES.publicKey)
+    const hasPrivateKey = files.includes(KEY_FILES.privateKey)
+    if (!hasPublicKey && !hasPrivateKey) throw new ConfigurationError('no key file present', dir)
+
+    const privateKey = hasPrivateKey
+      ? this.#createKey(
+          dir,
+          KEY_FILES.privateKey,
+          crypto.createPrivateKey,
+          await this.#readFile(dir, KEY_FILES.privateKey),
+        )
+      : undefined
+    const publicKey = hasPublicKey
+      ? this.#createKey(
+          dir,
+          KEY_FILES.publicKey,
+          crypto.createPublicKey,
+          await this.#readFile(dir, KEY_FILES.publicKey),
+        )
+      : crypto.createPublicKey(privateKey as crypto.KeyObject)
+
+    // Legacy signature algorithms determine the remaining key configuration
+    if (signatureAlgorithm !== SignatureAlgorithm.HS2019) return { ...base, publicKey, privateKey } as KeyConfig
+
+    checkEnum(metadata.keyAlgorithm, Object.values(KeyPairAlgorithm), 'key pair algorithm', metadataFile)
+    checkEnum(metadata.padding, Object.keys(RSA_PADDING_SCHEMES), 'padding scheme', metadataFile)
+    const keyFile = path.join(dir, hasPublicKey ? KEY_FILES.publicKey : KEY_FILES.privateKey)
+    const keyType = publicKey.asymmetricKeyType
+    if (keyType === undefined)
+      throw new ConfigurationError(`expected asymmetric key, got ${publicKey.type} key`, keyFile)
+    const keyAlgorithm = metadata.keyAlgorithm || NODE_TO_KEY_PAIR_ALGORITHM[keyType]
+    if (!keyAlgorithm) throw new ConfigurationError(`unsupported key type ${keyType}`, keyFile)
+
+    const { padding, saltLength, dsaEncoding, namedCurve } = metadata
+    const config = {
+      ...base,
+      keyAlgorithm,
+      hashAlgorithm: metadata.hashAlgorithm || 'sha256',
+      ...(padding && { padding: RSA_PADDING_SCHEMES[padding] }),
+      ...(saltLength !== undefined && { saltLength }),
+      ...(dsaEncoding && { dsaEncoding }),
+      ...(namedCurve && { namedCurve }),
+      publicKey,
+      privateKey,
+    } as KeyConfig & KeyPairConfig
+
+    // Check the key against its metadata here, so that errors give the file to fix
+    try {
+      KeyPairSignatureKey.checkConfig(config)
+    } catch (e) {
+      throw new ConfigurationError((e as Error).message, metadataFile)
+    }
+
+    return config
+  }
+
+  async #readFile(dir: string, name: string): Promise<string> {
+    const file = path.join(dir, name)
+    try {
+      return await fs.readFile(file, 'utf8')
+    } catch (e) {
+      throw new ConfigurationError(`unable to read key file: ${(e as Error).message}`, file)
+    }
+  }
+
+  async #readJson<T>(dir: string, name: string): Promise<T> {
+    const contents = await this.#readFile(dir, name)
+    try {
+      return JSON.parse(contents)
+    } catch (e) {
+      throw new ConfigurationError(`invalid JSON: ${(e as Error).message}`, path.join(dir, name))
+    }
+  }
+
+  #createKey(dir: string, name: string, create: (key: string) => crypto.KeyObject, contents: string): crypto.KeyObject {
+    try {
+      return create(contents)
+    } catch (e) {
+      throw new ConfigurationError(`invalid key: ${(e as Error).message}`, path.join(dir, name))
+    }
+  }
+}
@@ -5,7 +5,9 @@ import {
   ConcreteSignatureOptions,
   ConfigurationError,
   DigestAlgorithm,
+  ErrorCode,
   HmacAlgorithm,
+  Rfc9421Algorithm,
   SecretKeyConfig,
   SignatureAlgorithm,
   VerificationError,
@@ -32,6 +34,14 @@ export class HmacSignatureKey extends SignatureKey {
     this.algorithm = config.algorithm
   }
 
+  get rfc9421Algorithm(): Rfc9421Algorithm | undefined {
+    return this.algorithm === HmacAlgorithm.SHA256 ? Rfc9421Algorithm.HMAC_SHA256 : undefined
+  }
+
+  get canSign(): boolean {
+    return true
+  }
+
   static createHmacFactory(config: SecretKeyConfig) {
     // Check correct key type used
     if (config.key.type !== 'secret')
@@ -63,7 +73,7 @@ export class HmacSignatureKey extends SignatureKey {
       return crypto.timingSafeEqual(actualMac, mac)
     } catch (e) {
       if (e instanceof RangeError) {
-        throw new VerificationError('signature length mismatch')
+        throw new VerificationError('signature length mismatch', ErrorCode.INVALID_SIGNATURE)
       }
       throw e
     }
@@ -0,0 +1,129 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { Clock, ConfigurationError, KeyCacheOptions } from './types'
+
+type CacheEntry<T> = {
+  value: T | undefined
+  /** The time until which the entry is fresh */
+  expiresAt: number
+  /** The time until which the entry may be served while it is refreshed */
+  staleUntil: number
+}
+
+export type Loader<T> = () => T | undefined | Promise<T | undefined>
+
+/**
+ * A cache of the results of looking up keys, keyed by keyId.
+ *
+ * Concurrent lookups of the same keyId are coalesced into a single load, and
+ * the least recently used entries are evicted beyond the maximum size. Failed
+ * loads are never cached.
+ *
+ * You should not need to create instances of KeyCache yourself; one is created
+ * by a SignatureKeyManager when the `keyCache` option is set.
+ */
+export class KeyCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>()
+  private readonly pending = new Map<string, Promise<T | undefined>>()
+  private readonly ttl: number
+  private readonly maxSize: number
+  private readonly negativeTtl: number
+  private readonly staleWhileRevalidate: number
+
+  constructor(options: KeyCacheOptions, private readonly clock: Clock) {
+    const { ttl, maxSize = 1000, negativeTtl = 0, staleWhileRevalidate = 0 } = options
+
+    for (const [option, value] of Object.entries({ ttl, negativeTtl, staleWhileRevalidate })) {
+      if (typeof value !== 'number' || !(value >= 0))
+        throw new ConfigurationError(`key cache has invalid option ${option}: ${value}`)
+    }
+    if (!Number.isInteger(maxSize) || maxSize < 1)
+      throw new ConfigurationError(`key cache maxSize must be a positive integer, got ${maxSize}`)
+
+    // Durations are configured in seconds
+    this.ttl = ttl * 1000
+    this.maxSize = maxSize
+    this.negativeTtl = negativeTtl * 1000
+    this.staleWhileRevalidate = staleWhileRevalidate * 1000
+  }
+
+  /** The number of entries currently cached, including any which have expired. */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Get the cached value for `keyId`, calling `load` if no fresh value is cached.
+   *
+   * Expired values within the stale-while-revalidate window are returned
+   * immediately, and refreshed in the background.
+   *
+   * @param keyId The keyId to look up
+   * @param load Loads the value when it is not cached
+   */
+  async get(keyId: string, load: Loader<T>): Promise<T | undefined> {
+    const now = this.clock().valueOf()
+    const entry = this.entries.get(keyId)
+
+    if (entry && now < entry.staleUntil) {
+      // Map iteration follows insertion order, so re-inserting marks the entry as most recently used
+      this.entries.delete(keyId)
+      this.entries.set(keyId, entry)
+
+      // Errors are ignored here; the stale value continues to be served until a refresh succeeds
+      if (now >= entry.expiresAt) this.#load(keyId, load).catch(() => undefined)
+
+      return entry.value
+    }
+
+    return this.#load(keyId, load)
+  }
+
+  /** Forget the cached value for `keyId`, so that it is loaded again on next use. */
+  invalidate(keyId: string): void {
+    this.entries.delete(keyId)
+    // Loads already in progress must not repopulate the cache
+    this.pending.delete(keyId)
+  }
+
+  /** Forget every cached value. */
+  clear(): void {
+    this.entries.clear()
+    this.pending.clear()
+  }
+
+  #load(keyId: string, load: Loader<T>): Promise<T | undefined> {
+    const pending = this.pending.get(keyId)
+    if (pending) return pending
+
+    const loading: Promise<T | undefined> = Promise.resolve()
+      .then(load)
+      .then((value) => {
+        if (this.pending.get(keyId) === loading) this.#set(keyId, value)
+        return value
+      })
+      .finally(() => {
+        if (this.pending.get(keyId) === loading) this.pending.delete(keyId)
+      })
+
+    this.pending.set(keyId, loading)
+    return loading
+  }
+
+  #set(keyId: string, value: T | undefined) {
+    const ttl = value === undefined ? this.negativeTtl : this.ttl
+    this.entries.delete(keyId)
+    if (ttl === 0) return
+
+    const expiresAt = this.clock().valueOf() + ttl
+    // Unknown keyIds are not served stale, so that newly added keys are found promptly
+    const staleUntil = value === undefined ? expiresAt : expiresAt + this.staleWhileRevalidate
+    this.entries.set(keyId, { value, expiresAt, staleUntil })
+
+    for (const oldestKeyId of this.entries.keys()) {
+      if (this.entries.size <= this.maxSize) break
+      this.entries.delete(oldestKeyId)
+    }
+  }
+}
@@ -5,32 +5,88 @@ import {
   ConcreteSignatureOptions,
   ConfigurationError,
   DigestAlgorithm,
+  DsaEncodingType,
   KeyPairAlgorithm,
   KeyPairConfig,
+  Rfc9421Algorithm,
+  RsaKeyPairConfig,
+  RsaPaddingScheme,
   SignatureAlgorithm,
 } from './types'
 import { DigestFactory, SignatureKey } from './SignatureKey'
 import * as crypto from 'crypto'
 
-export type SignFactory = () => crypto.Sign
-export type VerifyFactory = () => crypto.Verify
+const NODE_TO_SIG_KEY_TYPE: { [Value in crypto.KeyType]?: KeyPairAlgorithm } = {
+  rsa: KeyPairAlgorithm.RSA,
+  ec: KeyPairAlgorithm.ECDSA,
+  ed25519: KeyPairAlgorithm.EDDSA,
+  ed448: KeyPairAlgorithm.EDDSA,
+}
+
+// asymmetricKeyDetails is not present in the Node 14 typings
+type KeyObjectDetails = { asymmetricKeyDetails?: { namedCurve?: string } }
 
-const SIG_TO_NODE_KEY_TYPE: { [Value in KeyPairAlgorithm]: crypto.KeyType } = {
-  [KeyPairAlgorithm.RSA]: 'rsa',
-  [KeyPairAlgorithm.ECDSA]: 'ec',
+const namedCurve = (key: crypto.KeyObject): string | undefined =>
+  (key as crypto.KeyObject & KeyObjectDetails).asymmetricKeyDetails?.namedCurve
+
+// NIST curve names and their equivalent Node.js curve names
+const NIST_CURVE_NAMES: { [name: string]: string } = {
+  'P-256': 'prime256v1',
+  'P-384': 'secp384r1',
+  'P-521': 'secp521r1',
 }
 
-const NODE_TO_SIG_KEY_TYPE: { [Value in crypto.KeyType]?: KeyPairAlgorithm } = Object.fromEntries(
-  Object.entries(SIG_TO_NODE_KEY_TYPE).map(([k, v]) => [v, k as KeyPairAlgorithm]),
-)
+function checkNamedCurve(config: KeyPairConfig, key: crypto.KeyObject) {
+  if (config.keyAlgorithm === KeyPairAlgorithm.EDDSA) {
+    // Edwards curves are distinguished by the key type itself
+    if (config.namedCurve !== undefined && key.asymmetricKeyType !== config.namedCurve)
+      throw new ConfigurationError(
+        `expected ${key.type} key on curve ${config.namedCurve}, but got ${key.asymmetricKeyType}`,
+      )
+    return
+  }
+  if (config.keyAlgorithm !== KeyPairAlgorithm.ECDSA || config.namedCurve === undefined) return
+
+  const expectedCurve = NIST_CURVE_NAMES[config.namedCurve] || config.namedCurve
+  const actualCurve = namedCurve(key)
+
+  if (actualCurve === undefined) throw new ConfigurationError(`unable to determine curve of ${key.type} key`)
+  if (actualCurve !== expectedCurve)
+    throw new ConfigurationError(`expected ${key.type} key on curve ${config.namedCurve}, but got ${actualCurve}`)
+}
+
+// The hash algorithm passed to Node.js; EdDSA hashes internally so takes none
+function signingHashAlgorithm(config: KeyPairConfig): string | null {
+  if (config.keyAlgorithm === KeyPairAlgorithm.EDDSA) return null
+
+  // Reject unknown signing hash algorithms
+  if (!crypto.getHashes().includes(config.hashAlgorithm))
+    throw new ConfigurationError(`keypair hash algorithm not supported: ${config.hashAlgorithm}`)
+
+  return config.hashAlgorithm
+}
+
+// Normalise hash algorithm names, so that SHA-512 and sha512 are equivalent
+const normalisedHash = (hashAlgorithm: string) => hashAlgorithm.toLowerCase().replace(/-/g, '')
+
+// RFC 9421 requires rsa-pss-sha512 signatures to use a 64 byte salt
+const RFC_9421_PSS_SALT_LENGTH = 64
+
+// The salt length for RSA signatures. Node.js signs with the longest salt by default,
+// so PSS keys with SHA-512 default to the salt length required by RFC 9421
+function rsaSaltLength(config: RsaKeyPairConfig): number | undefined {
+  if (config.saltLength !== undefined || config.padding !== RsaPaddingScheme.PKCS1_PSS) return config.saltLength
+
+  return normalisedHash(config.hashAlgorithm) === 'sha512' ? RFC_9421_PSS_SALT_LENGTH : undefined
+}
 
 type SignContext = {
-  factory: SignFactory
+  hashAlgorithm: string | null
   key: crypto.SignKeyObjectInput
 }
 
 type VerifyContext = {
-  factory: VerifyFactory
+  hashAlgorithm: string | null
   key: crypto.VerifyKeyObjectInput
 }
 
@@ -38,6 +94,7 @@ export class KeyPairSignatureKey extends SignatureKey {
   private readonly verifyCtx: VerifyContext
   private readonly signCtx?: SignContext
   readonly algorithm: KeyPairAlgorithm
+  readonly rfc9421Algorithm: Rfc9421Algorithm | undefined
 
   constructor(
     id: string,
@@ -51,6 +108,46 @@ export class KeyPairSignatureKey extends SignatureKey {
     this.verifyCtx = KeyPairSignatureKey.createVerifyContext(config)
     this.signCtx = KeyPairSignatureKey.createSignContext(config)
     this.algorithm = config.keyAlgorithm
+    this.rfc9421Algorithm = KeyPairSignatureKey.findRfc9421Algorithm(config)
+  }
+
+  /**
+   * Check that a key pair configuration can be used to create a key.
+   *
+   * @throws ConfigurationError as the constructor would for the configuration
+   */
+  static checkConfig(config: KeyPairConfig): void {
+    KeyPairSignatureKey.createVerifyContext(config)
+    KeyPairSignatureKey.createSignContext(config)
+  }
+
+  private static findRfc9421Algorithm(config: KeyPairConfig): Rfc9421Algorithm | undefined {
+    if (config.keyAlgorithm === KeyPairAlgorithm.EDDSA)
+      return config.publicKey.asymmetricKeyType === 'ed25519' ? Rfc9421Algorithm.ED25519 : undefined
+
+    const hash = normalisedHash(config.hashAlgorithm)
+
+    switch (config.keyAlgorithm) {
+      case KeyPairAlgorithm.RSA: {
+        const padding = config.padding ?? RsaPaddingScheme.PKCS1
+        if (
+          padding === RsaPaddingScheme.PKCS1_PSS &&
+          hash === 'sha512' &&
+          rsaSaltLength(config) === RFC_9421_PSS_SALT_LENGTH
+        )
+          return Rfc9421Algorithm.RSA_PSS_SHA512
+        if (padding === RsaPaddingScheme.PKCS1 && hash === 'sha256') return Rfc9421Algorithm.RSA_V1_5_SHA256
+        return undefined
+      }
+      case KeyPairAlgorithm.ECDSA: {
+        // RFC 9421 ECDSA signatures are always the raw concatenation of r and s
+        if (config.dsaEncoding !== DsaEncodingType.IEEE_P1363) return undefined
+        const curve = namedCurve(config.publicKey)
+        if (curve === 'prime256v1' && hash === 'sha256') return Rfc9421Algorithm.ECDSA_P256_SHA256
+        if (curve === 'secp384r1' && hash === 'sha384') return Rfc9421Algorithm.ECDSA_P384_SHA384
+        return undefined
+      }
+    }
   }
 
   private static createVerifyContext(config: KeyPairConfig): VerifyContext {
@@ -72,24 +169,27 @@ export class KeyPairSignatureKey extends SignatureKey {
         `expected ${config.keyAlgorithm} public key, but got public key of type ${actualSigKeyType}`,
       )
 
-    // Reject unknown signing hash algorithms
-    if (!crypto.getHashes().includes(config.hashAlgorithm))
-      throw new ConfigurationError(`keypair hash algorithm not supported: ${config.hashAlgorithm}`)
+    // Reject keys on a different curve to expectation
+    checkNamedCurve(config, config.publicKey)
+
+    const hashAlgorithm = signingHashAlgorithm(config)
 
     // Handle key-type specific config options
     let key: crypto.VerifyKeyObjectInput = { key: config.publicKey }
     switch (config.keyAlgorithm) {
-      case KeyPairAlgorithm.RSA:
+      case KeyPairAlgorithm.RSA: {
         if (config.padding !== undefined) key.padding = config.padding
-        if (config.saltLength !== undefined) key.saltLength = config.saltLength
+        const saltLength = rsaSaltLength(config)
+        if (saltLength !== undefined) key.saltLength = saltLength
         break
+      }
       case KeyPairAlgorithm.ECDSA:
         if (config.dsaEncoding !== undefined) key.dsaEncoding = config.dsaEncoding
         break
     }
 
     return {
-      factory: () => crypto.createVerify(config.hashAlgorithm),
+      hashAlgorithm,
       key,
     }
   }
@@ -100,7 +200,7 @@ export class KeyPairSignatureKey extends SignatureKey {
 
     // Check correct key type used
     if (!config.privateKey.asymmetricKeyType || config.privateKey.type !== 'private')
-      throw new ConfigurationError(`keypair private key type requires private key, got ${config.publicKey.type}`)
+      throw new ConfigurationError(`keypair private key type requires private key, got ${config.privateKey.type}`)
 
     // Get the equivalent node keypair algorithm for the signature scheme
     const actualSigKeyType = NODE_TO_SIG_KEY_TYPE[config.privateKey.asymmetricKeyType]
@@ -108,7 +208,7 @@ export class KeyPairSignatureKey extends SignatureKey {
     // Reject keys of unknown type
     if (actualSigKeyType === undefined)
       throw new ConfigurationError(
-        `keypair private key uses unsupported node crypto key type: ${config.publicKey.asymmetricKeyType}`,
+        `keypair private key uses unsupported node crypto key type: ${config.privateKey.asymmetricKeyType}`,
       )
     // Reject keys of differing type to expectation
     if (actualSigKeyType !== config.keyAlgorithm)
@@ -116,40 +216,41 @@ export class KeyPairSignatureKey extends SignatureKey {
         `expected ${config.keyAlgorithm} private key, but got private key of type ${actualSigKeyType}`,
       )
 
-    // Reject unknown signing hash algorithms
-    if (!crypto.getHashes().includes(config.hashAlgorithm))
-      throw new ConfigurationError(`keypair hash algorithm not supported: ${config.hashAlgorithm}`)
+    // Reject keys on a different curve to expectation
+    checkNamedCurve(config, config.privateKey)
+
+    const hashAlgorithm = signingHashAlgorithm(config)
 
     // Handle key-type specific config options
     let key: crypto.SignKeyObjectInput = { key: config.privateKey }
     switch (config.keyAlgorithm) {
-      case KeyPairAlgorithm.RSA:
+      case KeyPairAlgorithm.RSA: {
         if (config.padding !== undefined) key.padding = config.padding
-        if (config.saltLength !== undefined) key.saltLength = config.saltLength
+        const saltLength = rsaSaltLength(config)
+        if (saltLength !== undefined) key.saltLength = saltLength
         break
+      }
       case KeyPairAlgorithm.ECDSA:
         if (config.dsaEncoding !== undefined) key.dsaEncoding = config.dsaEncoding
         break
     }
 
     return {
-      factory: () => crypto.createSign(config.hashAlgorithm),
+      hashAlgorithm,
       key,
     }
   }
 
+  get canSign(): boolean {
+    return this.signCtx !== undefined
+  }
+
   sign(buf: Buffer): Buffer {
     if (!this.signCtx) throw new ConfigurationError(`cannot sign with public-key only key pairs`)
-    const sign = this.signCtx.factory()
-    sign.write(buf)
-    sign.end()
-    return sign.sign(this.signCtx.key)
+    return crypto.sign(this.signCtx.hashAlgorithm, buf, this.signCtx.key)
   }
 
   verify({ buf, mac }: { buf: Buffer; mac: Buffer }): boolean {
-    const verify = this.verifyCtx.factory()
-    verify.write(buf)
-    verify.end()
-    return verify.verify(this.verifyCtx.key, mac)
+    return crypto.verify(this.verifyCtx.hashAlgorithm, buf, this.verifyCtx.key, mac)
   }
 }
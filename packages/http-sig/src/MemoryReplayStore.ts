@@ -0,0 +1,70 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { Clock, ConfigurationError, ReplayStore } from './types'
+
+export type MemoryReplayStoreOptions = {
+  /// The maximum number of signatures remembered at once. Defaults to 10,000.
+  maxEntries?: number
+  /// The clock used to expire remembered signatures.
+  clock?: Clock
+}
+
+/**
+ * A `ReplayStore` which remembers signatures in memory.
+ *
+ * When more than `maxEntries` signatures are remembered, the least recently
+ * used signature is forgotten, even if it has not yet expired. Once forgotten,
+ * a signature may be replayed, so `maxEntries` should comfortably exceed the
+ * number of signatures accepted within their validity period.
+ *
+ * Signatures are not shared between processes; use a shared store
+ * when running multiple instances of a service.
+ */
+export class MemoryReplayStore implements ReplayStore {
+  private readonly entries = new Map<string, number>()
+  private readonly maxEntries: number
+  private readonly clock: Clock
+
+  constructor({ maxEntries = 10_000, clock = () => new Date() }: MemoryReplayStoreOptions = {}) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1)
+      throw new ConfigurationError(`replay store maxEntries must be a positive integer, got ${maxEntries}`)
+
+    this.maxEntries = maxEntries
+    this.clock = clock
+  }
+
+  /** The number of signatures currently remembered, including any which have expired. */
+  get size(): number {
+    return this.entries.size
+  }
+
+  checkAndRemember(id: string, ttl: number): boolean {
+    const now = this.clock().valueOf()
+    const expiresAt = this.entries.get(id)
+
+    // Map iteration follows insertion order, so re-inserting marks the entry as most recently used
+    this.entries.delete(id)
+    if (expiresAt !== undefined && expiresAt > now) {
+      this.entries.set(id, expiresAt)
+      return false
+    }
+
+    this.entries.set(id, now + ttl)
+    this.#evict(now)
+
+    return true
+  }
+
+  /** Forget all remembered signatures. */
+  clear(): void {
+    this.entries.clear()
+  }
+
+  #evict(now: number) {
+    for (const [id, expiresAt] of this.entries) {
+      if (this.entries.size <= this.maxEntries && expiresAt > now) break
+      this.entries.delete(id)
+    }
+  }
+}
@@ -1,8 +1,19 @@
 // Copyright (c) Michael Holmes
 // SPDX-License-Identifier: MIT
 
-import { VerificationError, ConfigurationError } from './types'
-import { Signature } from './Signature'
+import { VerificationError, ConfigurationError, ErrorCode } from './types'
+import { parseComponentIdentifier, Signature } from './Signature'
+import {
+  BareItem,
+  FieldType,
+  isInnerList,
+  Parameters,
+  parseDictionary,
+  parseField,
+  serializeField,
+  serializeInnerList,
+  serializeItem,
+} from './structured-fields'
 
 export type NonEmptyArray<T> = Exclude<T[], []>
 
@@ -15,10 +26,33 @@ export type NonEmptyArray<T> = Exclude<T[], []>
  */
 export interface HttpMessage {
   getHeader(header: string): NonEmptyArray<string> | undefined
-  requestTarget?: { method: string; path: string }
+  /**
+   * The request method and target (path and query) of requests. The scheme is optional,
+   * but is required to derive the RFC 9421 `@scheme` and `@target-uri` components.
+   */
+  requestTarget?: { method: string; path: string; scheme?: string }
+  /** The status code of responses, used for the RFC 9421 `@status` component. */
+  status?: number
+}
+
+const SUPPORTED_COMPONENT_PARAMS = ['bs', 'key', 'name', 'sf']
+
+// The top-level types of known structured fields, for use with the `sf` component parameter
+const STRUCTURED_FIELD_TYPES: { [header: string]: FieldType } = {
+  'accept-signature': 'dictionary',
+  'cache-status': 'list',
+  'content-digest': 'dictionary',
+  priority: 'dictionary',
+  'proxy-status': 'list',
+  'repr-digest': 'dictionary',
+  signature: 'dictionary',
+  'signature-input': 'dictionary',
+  'want-content-digest': 'dictionary',
+  'want-repr-digest': 'dictionary',
 }
 
-type MessageContextOptions = {
+/** Values for the `(created)` and `(expires)` pseudo-headers, as decimal seconds since the epoch. */
+export type MessageContextOptions = {
   createdAt?: string
   expiresAt?: string
 }
@@ -52,7 +86,14 @@ export class MessageContext {
     this.options = options || {}
   }
 
-  private getHeader(name: string): string[] | undefined {
+  /**
+   * Get the values of a header on the message, including the draft-cavage
+   * pseudo-headers, or undefined if it is not set.
+   *
+   * @param name The case-insensitive name of the header
+   * @param options Values of the (created) and (expires) pseudo-headers
+   */
+  getHeader(name: string, options: MessageContextOptions = this.options): string[] | undefined {
     const normalizedName = name.toLowerCase()
 
     let headerValues
@@ -61,10 +102,10 @@ export class MessageContext {
         headerValues = [this.getRequestTarget()]
         break
       case '(created)':
-        headerValues = this.options.createdAt ? [this.options.createdAt] : undefined
+        headerValues = options.createdAt ? [options.createdAt] : undefined
         break
       case '(expires)':
-        headerValues = this.options.expiresAt ? [this.options.expiresAt] : undefined
+        headerValues = options.expiresAt ? [options.expiresAt] : undefined
         break
       default:
         headerValues = this.message.getHeader(normalizedName)
@@ -73,6 +114,142 @@ export class MessageContext {
     return headerValues
   }
 
+  private getRequestTargetParts(): { method: string; path: string; query?: string; scheme?: string } {
+    if (!this.message.requestTarget)
+      throw new VerificationError(
+        'request-derived components cannot be used with responses',
+        ErrorCode.INVALID_COMPONENT,
+      )
+
+    const { method, path: target, scheme } = this.message.requestTarget
+    const queryIdx = target.indexOf('?')
+    const path = queryIdx < 0 ? target : target.slice(0, queryIdx)
+    const query = queryIdx < 0 ? undefined : target.slice(queryIdx + 1)
+
+    return { method, path: path || '/', query, scheme }
+  }
+
+  private getAuthority(): string | undefined {
+    // The authority is only meaningful for requests
+    this.getRequestTargetParts()
+
+    const host = this.message.getHeader('host')
+    return host && host[0].trim().toLowerCase()
+  }
+
+  private getQueryParam(name: BareItem | undefined): string[] | undefined {
+    if (typeof name !== 'string')
+      throw new VerificationError(
+        'component `@query-param` requires a string `name` parameter',
+        ErrorCode.INVALID_COMPONENT,
+      )
+
+    const values = new URLSearchParams(this.getRequestTargetParts().query || '').getAll(name)
+    if (values.length > 1)
+      throw new VerificationError(`query parameter '${name}' is present multiple times`, ErrorCode.INVALID_COMPONENT)
+
+    return values.length ? [encodeURIComponent(values[0])] : undefined
+  }
+
+  private getDerivedComponent(name: string, params: Parameters): string[] | undefined {
+    switch (name) {
+      case '@method':
+        return [this.getRequestTargetParts().method]
+      case '@target-uri': {
+        const { scheme } = this.getRequestTargetParts()
+        const authority = this.getAuthority()
+        const [target] = this.getDerivedComponent('@request-target', params) as string[]
+        return scheme && authority ? [`${scheme.toLowerCase()}://${authority}${target}`] : undefined
+      }
+      case '@authority': {
+        const authority = this.getAuthority()
+        return authority ? [authority] : undefined
+      }
+      case '@scheme': {
+        const { scheme } = this.getRequestTargetParts()
+        return scheme ? [scheme.toLowerCase()] : undefined
+      }
+      case '@request-target': {
+        const { path, query } = this.getRequestTargetParts()
+        return [query === undefined ? path : `${path}?${query}`]
+      }
+      case '@path':
+        return [this.getRequestTargetParts().path]
+      case '@query':
+        return [`?${this.getRequestTargetParts().query || ''}`]
+      case '@query-param':
+        return this.getQueryParam(params.get('name'))
+      case '@status':
+        return this.message.status !== undefined ? [this.message.status.toString()] : undefined
+      default:
+        throw new VerificationError(`unsupported derived component '${name}'`, ErrorCode.INVALID_COMPONENT)
+    }
+  }
+
+  private getComponentValue(component: string): string {
+    const { name, params } = parseComponentIdentifier(component)
+
+    for (const param of params.keys()) {
+      if (!SUPPORTED_COMPONENT_PARAMS.includes(param))
+        throw new VerificationError(
+          `unsupported parameter '${param}' for component '${name}'`,
+          ErrorCode.INVALID_COMPONENT,
+        )
+    }
+
+    let value
+    if (name.startsWith('@')) {
+      value = this.getDerivedComponent(name, params)
+        ?.map((v) => v.trim())
+        .join(', ')
+    } else {
+      const values = this.message.getHeader(name.toLowerCase())
+      value = values && this.getFieldValue(name.toLowerCase(), values, params)
+    }
+
+    if (value === undefined)
+      throw new VerificationError(`attempted to sign/verify missing component '${name}'`, ErrorCode.MISSING_COMPONENT, {
+        component: name,
+      })
+
+    return value
+  }
+
+  private getFieldValue(name: string, values: string[], params: Parameters): string | undefined {
+    const structured = params.has('sf') || params.has('key')
+
+    if (params.has('bs')) {
+      if (structured)
+        throw new VerificationError(
+          `component '${name}' cannot be both structured and binary`,
+          ErrorCode.INVALID_COMPONENT,
+        )
+      // Each field line is wrapped separately as a byte sequence
+      return values.map((v) => `:${Buffer.from(v.trim()).toString('base64')}:`).join(', ')
+    }
+
+    const combined = values.map((v) => v.trim()).join(', ')
+    if (!structured) return combined
+
+    const key = params.get('key')
+    if (key !== undefined) {
+      if (typeof key !== 'string')
+        throw new VerificationError(`component '${name}' requires a string \`key\``, ErrorCode.INVALID_COMPONENT)
+
+      // Dictionary members are serialized individually
+      const member = parseDictionary(combined).get(key)
+      if (!member) return undefined
+
+      return isInnerList(member) ? serializeInnerList(member) : serializeItem(member)
+    }
+
+    const fieldType = STRUCTURED_FIELD_TYPES[name]
+    if (!fieldType)
+      throw new VerificationError(`component '${name}' is not a known structured field`, ErrorCode.INVALID_COMPONENT)
+
+    return serializeField(parseField(combined, fieldType))
+  }
+
   private getRequestTarget(): string {
     if (!this.message.requestTarget)
       throw new ConfigurationError('BUG: attempted to sign/verify (request-target) for response')
@@ -91,14 +268,21 @@ export class MessageContext {
    *                The headers are ordering-sensitive; using the same headers
    *                in a different order will result in a different signature.
    *
+   * @param pseudoHeaders Values for the `(created)` and `(expires)` pseudo-headers, which take
+   *                      precedence over those the `MessageContext` was created with.
+   *
    * @throws VerificationError if an entry in `headers` is not found on the message
    */
-  canonicalString(headers: string[]): string {
+  canonicalString(headers: string[], pseudoHeaders?: MessageContextOptions): string {
+    const options = { ...this.options, ...pseudoHeaders }
     const mergedHeaders = headers.map((h) => {
       const lowerName = h.toLowerCase()
-      const headerValues = this.getHeader(lowerName)
+      const headerValues = this.getHeader(lowerName, options)
 
-      if (headerValues === undefined) throw new VerificationError(`attempted to sign/verify missing header '${h}'`)
+      if (headerValues === undefined)
+        throw new VerificationError(`attempted to sign/verify missing header '${h}'`, ErrorCode.MISSING_COMPONENT, {
+          component: h,
+        })
 
       // Header must not have trailing whitespace if empty
       return `${lowerName}: ${headerValues.join(', ')}`.trimEnd()
@@ -107,17 +291,77 @@ export class MessageContext {
     return mergedHeaders.join('\n')
   }
 
+  /**
+   * Build the signature base for an HTTP message, per RFC 9421.
+   *
+   * The signature base is used to generate the payload for RFC 9421 signatures.
+   * As with the canonical string, the order of the components matters.
+   *
+   * @param components Array of component identifiers used to build the signature base,
+   *                   as found in the `headers` list of a `Signature`.
+   * @param signatureParams The serialized signature parameters for the signature.
+   *
+   * @throws VerificationError if an entry in `components` is not found on the message
+   */
+  signatureBase(components: string[], signatureParams: string): string {
+    const lines = components.map((component) => {
+      const { serialized } = parseComponentIdentifier(component)
+      return `${serialized}: ${this.getComponentValue(component)}`
+    })
+
+    lines.push(`"@signature-params": ${signatureParams}`)
+
+    return lines.join('\n')
+  }
+
   /**
    * Get a structured Signature from an HTTP message.
    *
    * If no signature is present in the Authorization or Signature headers,
-   * then the function returns `undefined`.
+   * then the function returns `undefined`. If the Signature-Input header is
+   * present, the signature is instead parsed as an RFC 9421 signature.
    *
-   * If multiple candidate signatures are present, an exception is raised.
+   * If multiple candidate signatures are present, an exception is raised;
+   * use `getSignatures` to handle messages with multiple signatures.
    * Note that this behaviour is not specified in the IETF spec; this is
    * the http-sig library's own interpretation.
    */
   getSignature(atTime?: Date): Signature | undefined {
+    const signatures = this.getSignatures(atTime)
+
+    // Bail if no signatures
+    if (signatures.length < 1) return undefined
+
+    // Throw error if multiple signatures
+    // TODO: the behaviour in the presence of multiple signatures is not defined in draft-cavage-http-signatures-12
+    if (signatures.length > 1)
+      throw new VerificationError('multiple signatures present on message', ErrorCode.MULTIPLE_SIGNATURES)
+
+    return signatures[0]
+  }
+
+  /**
+   * Get every structured Signature from an HTTP message, such as when
+   * proxies add their own signatures to a message.
+   *
+   * If the Signature-Input header is present, each of its members is parsed
+   * as an RFC 9421 signature. Otherwise, each value of the Signature header
+   * and each Authorization header using the Signature scheme is parsed as a
+   * draft-cavage signature.
+   *
+   * @throws VerificationError if any of the signatures are malformed
+   */
+  getSignatures(atTime?: Date): Signature[] {
+    // RFC 9421 signatures are identified by the presence of the Signature-Input header
+    const signatureInputHeaders = this.getHeader('signature-input')
+    if (signatureInputHeaders) {
+      const signatureHeaders = this.getHeader('signature')
+      if (!signatureHeaders)
+        throw new VerificationError('signature-input present without signature', ErrorCode.MALFORMED_SIGNATURE)
+
+      return Signature.fromSignatureInput(signatureInputHeaders.join(', '), signatureHeaders.join(', '), atTime)
+    }
+
     // Signatures can be present in either the Signature header or as part of the
     // Authorization: Signature scheme
     const signatureHeaders = this.getHeader('signature')
@@ -129,13 +373,6 @@ export class MessageContext {
       })
     const signatures = [...(signatureHeaders || []), ...(signatureAuthHeaders || [])]
 
-    // Bail if no signatures
-    if (signatures.length < 1) return undefined
-
-    // Throw error if multiple signatures
-    // TODO: the behaviour in the presence of multiple signatures is not defined in draft-cavage-http-signatures-12
-    if (signatures.length > 1) throw new VerificationError('multiple signatures present on message')
-
-    return Signature.fromHeader(signatures[0], atTime)
+    return signatures.map((signature) => Signature.fromHeader(signature, atTime))
   }
 }
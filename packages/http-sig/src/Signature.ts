@@ -1,84 +1,104 @@
 // Copyright (c) Michael Holmes
 // SPDX-License-Identifier: MIT
 
-import { SignatureAlgorithm, VerificationError } from './types'
-
-// TODO: Make configurable
+import {
+  ConfigurationError,
+  ErrorCode,
+  HttpSigVersion,
+  KeyId,
+  Rfc9421Algorithm,
+  SignatureAlgorithm,
+  SignatureHeader,
+  VerificationError,
+} from './types'
+import {
+  isInnerList,
+  Item,
+  Parameters,
+  parseDictionary,
+  parseItem,
+  serializeInnerList,
+  serializeItem,
+  serializeParameters,
+} from './structured-fields'
+import { AuthParam, parseAuthParamList, serializeAuthHeader, serializeAuthParams } from './auth-params'
+
+// Default tolerances for signature timestamps, overridden by the expiryGrace and futureSkew options
 export const EXPIRES_SLACK = 60_000 // 60 seconds
 export const CREATED_SLACK = 60_000 // 60 seconds
 
+/** The authentication scheme of draft-cavage signatures in the Authorization header. */
+export const SIGNATURE_SCHEME = 'Signature'
+
 const MSG_MALFORMED = 'malformed signature string'
 
-const parseStringField = (value: string): string => {
-  if (!value.startsWith('"') || !value.endsWith('"')) {
-    throw new VerificationError(MSG_MALFORMED)
+const parseStringField = ({ value, quoted }: AuthParam): string => {
+  if (!quoted) {
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
   }
 
-  // TODO: properly handle nested quotes?
-  return value.slice(1, -1)
+  return value
 }
 
-const parseIntField = (value: string): number => {
-  if (value.search(/[^0-9]/) !== -1) {
-    throw new VerificationError(MSG_MALFORMED)
+const parseIntField = ({ value, quoted }: AuthParam): number => {
+  if (quoted || value.search(/[^0-9]/) !== -1) {
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
   }
 
   // No leading 0
-  if (value.startsWith('0') && value !== '0') throw new VerificationError(MSG_MALFORMED)
+  if (value.startsWith('0') && value !== '0') throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
 
   return parseInt(value)
 }
 
-const parseDecimalField = (value: string): number => {
-  if (value.search(/[^0-9.]/) !== -1) {
-    throw new VerificationError(MSG_MALFORMED)
+const parseDecimalField = ({ value, quoted }: AuthParam): number => {
+  if (quoted || value.search(/[^0-9.]/) !== -1) {
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
   }
 
   // Additional strictness checks to compensate for slackness of parseFloat
   const firstDecimalIdx = value.indexOf('.')
   const lastDecimalIdx = value.lastIndexOf('.')
   // No leading/trailing decimals
-  if (firstDecimalIdx === 0 || lastDecimalIdx === value.length - 1) throw new VerificationError(MSG_MALFORMED)
+  if (firstDecimalIdx === 0 || lastDecimalIdx === value.length - 1)
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
   // No leading 0 in numerator (sometimes ambiguous about decimal or octal notation)
   // If value.length > 1, and there's an initial 0, then the only permitted following char is '.'
-  if (value.startsWith('0') && value.length > 1 && firstDecimalIdx !== 1) throw new VerificationError(MSG_MALFORMED)
+  if (value.startsWith('0') && value.length > 1 && firstDecimalIdx !== 1)
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
   // maximum of 1 decimal separator
   // this works for 0 or 1 because firstDecimalIdx and lastDecimalIdx are -1 when decimal separator missing
-  if (firstDecimalIdx !== lastDecimalIdx) throw new VerificationError(MSG_MALFORMED)
+  if (firstDecimalIdx !== lastDecimalIdx) throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
 
   return parseFloat(value)
 }
 
-const pairsToMap = (pairs: string[]): Map<string, string> => {
-  const out = new Map()
-
-  pairs.forEach((pair) => {
-    const eqLocation = pair.indexOf('=')
-    if (eqLocation < 0) throw new VerificationError('malformed signature string (missing `=` in field)')
-    const key = pair.slice(0, eqLocation)
-    const value = pair.slice(eqLocation + 1)
+// Parameter names are case-insensitive, so fields are keyed by lowercase name
+const paramsToMap = (params: AuthParam[]): Map<string, AuthParam> => {
+  const out = new Map<string, AuthParam>()
 
-    if (!key || !value || key.search(/\s/) !== -1) {
-      throw new VerificationError(MSG_MALFORMED)
-    }
+  params.forEach((param) => {
+    const key = param.name.toLowerCase()
 
-    if (out.has(key)) throw new VerificationError(`duplicated field ${key} present in signature`)
+    if (out.has(key))
+      throw new VerificationError(`duplicated field ${param.name} present in signature`, ErrorCode.MALFORMED_SIGNATURE)
 
-    out.set(key, value)
+    out.set(key, param)
   })
 
   return out
 }
 
-const getKeyId = (fieldMap: Map<string, string>): string => {
-  const keyId = fieldMap.get('keyId')
+const getKeyId = (fieldMap: Map<string, AuthParam>): string => {
+  const keyId = fieldMap.get('keyid')
 
-  if (!keyId) throw new VerificationError('required field `keyId` not present in signature')
+  if (!keyId)
+    throw new VerificationError('required field `keyId` not present in signature', ErrorCode.MALFORMED_SIGNATURE)
 
   return parseStringField(keyId)
 }
 
-const getSignatureAlgorithm = (fieldMap: Map<string, string>): SignatureAlgorithm | undefined => {
+const getSignatureAlgorithm = (fieldMap: Map<string, AuthParam>): SignatureAlgorithm | undefined => {
   const algorithmVal = fieldMap.get('algorithm')
 
   if (!algorithmVal) return undefined
@@ -86,14 +106,19 @@ const getSignatureAlgorithm = (fieldMap: Map<string, string>): SignatureAlgorith
 
   // string->string enums cannot be inverse lookup'd in a way provable to the compiler
   if (!Object.values(SignatureAlgorithm).includes(algorithm as SignatureAlgorithm))
-    throw new VerificationError(`signature algorithm \`${algorithm}\` is not supported`)
+    throw new VerificationError(
+      `signature algorithm \`${algorithm}\` is not supported`,
+      ErrorCode.UNSUPPORTED_ALGORITHM,
+      { algorithm },
+    )
 
   return algorithm as SignatureAlgorithm
 }
 
 const DEFAULT_HEADERS = Object.freeze(['(created)'])
+const HEADER_NAME_REGEX = /^([!#$%&'*+\-.^_`|~0-9a-z]+|\([a-z0-9-]+\))$/
 
-const getHeaders = (fieldMap: Map<string, string>): string[] => {
+const getHeaders = (fieldMap: Map<string, AuthParam>): string[] => {
   const headersStr = fieldMap.get('headers')
 
   if (!headersStr) return [...DEFAULT_HEADERS]
@@ -102,17 +127,18 @@ const getHeaders = (fieldMap: Map<string, string>): string[] => {
     .split(' ')
     .map((header) => header.toLowerCase())
 
-  // TODO: improved validation of headers around inclusion of ','
-  if (headers.some((s) => s.length === 0 || s.search(/\s/) !== -1))
-    throw new VerificationError('malformed header list in signature string')
+  // Header names are tokens, and pseudo-headers are parenthesized
+  if (headers.some((s) => !HEADER_NAME_REGEX.test(s)))
+    throw new VerificationError('malformed header list in signature string', ErrorCode.MALFORMED_SIGNATURE)
 
   return headers
 }
 
-const getSignature = (fieldMap: Map<string, string>): Buffer => {
+const getSignature = (fieldMap: Map<string, AuthParam>): Buffer => {
   const signatureStrVal = fieldMap.get('signature')
 
-  if (!signatureStrVal) throw new VerificationError('required field `signature` not present in signature')
+  if (!signatureStrVal)
+    throw new VerificationError('required field `signature` not present in signature', ErrorCode.MALFORMED_SIGNATURE)
   const signatureStr = parseStringField(signatureStrVal)
 
   const signature = Buffer.from(signatureStr, 'base64')
@@ -120,13 +146,13 @@ const getSignature = (fieldMap: Map<string, string>): Buffer => {
   const unpaddedSignatureString = signatureStr.replace(/=/g, '')
   // Check for malformed base64 strings
   if (Math.floor(unpaddedSignatureString.length * (3 / 4)) !== signature.length || signature.length === 0) {
-    throw new VerificationError('invalid base64 string provided in signature')
+    throw new VerificationError('invalid base64 string provided in signature', ErrorCode.MALFORMED_SIGNATURE)
   }
 
   return signature
 }
 
-const getCreated = (fieldMap: Map<string, string>): Date | undefined => {
+const getCreated = (fieldMap: Map<string, AuthParam>): Date | undefined => {
   const createdStr = fieldMap.get('created')
 
   if (!createdStr) return undefined
@@ -137,7 +163,7 @@ const getCreated = (fieldMap: Map<string, string>): Date | undefined => {
   return new Date(Math.floor(createdNum * 1000))
 }
 
-const getExpires = (fieldMap: Map<string, string>): Date | undefined => {
+const getExpires = (fieldMap: Map<string, AuthParam>): Date | undefined => {
   const expiresStr = fieldMap.get('expires')
 
   if (!expiresStr) return undefined
@@ -148,6 +174,96 @@ const getExpires = (fieldMap: Map<string, string>): Date | undefined => {
   return new Date(Math.floor(expiresNum * 1000))
 }
 
+/** A component identifier for RFC 9421 signatures, split into its name and parameters. */
+export type ComponentIdentifier = {
+  name: string
+  params: Parameters
+  /** The identifier serialized as it appears in the signature base and Signature-Input header. */
+  serialized: string
+}
+
+/**
+ * Parses a component identifier of the form used in the `headers` list of a
+ * `Signature`, which is the component name followed by any serialized parameters,
+ * e.g. `@query-param;name="id"` or `content-type`.
+ *
+ * @throws VerificationError if the component parameters are malformed
+ */
+export const parseComponentIdentifier = (id: string): ComponentIdentifier => {
+  const paramsIdx = id.indexOf(';')
+  const name = paramsIdx < 0 ? id : id.slice(0, paramsIdx)
+  if (name.length === 0 || name.search(/[^\x21-\x7e]|["\\]/) !== -1)
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
+
+  // Component identifiers are serialized as Structured Field Strings with parameters
+  const { params } = parseItem(`"${name}"${paramsIdx < 0 ? '' : id.slice(paramsIdx)}`)
+
+  return { name, params, serialized: serializeItem({ value: name, params }) }
+}
+
+/**
+ * Serialize a list of component identifiers and signature parameters as the value of
+ * the `@signature-params` component, which is identical to the value of the signature's
+ * member in the Signature-Input header.
+ *
+ * @param components Component identifiers as produced by `parseComponentIdentifier`
+ * @param params Ordered signature parameters
+ */
+export const serializeSignatureParams = (components: string[], params: [string, string | number][]): string => {
+  const items = components.map((component) => {
+    const { name, params } = parseComponentIdentifier(component)
+    return { value: name, params }
+  })
+
+  return serializeInnerList({ items, params: new Map(params) })
+}
+
+/** Convert a component identifier item from a Signature-Input or Accept-Signature header to its string form. */
+export const componentToString = ({ value, params }: Item): string => {
+  if (typeof value !== 'string') throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
+  // Header names are case-insensitive, but derived components are not
+  return (value.startsWith('@') ? value : value.toLowerCase()) + serializeParameters(params)
+}
+
+const getInputString = (params: Parameters, name: string): string | undefined => {
+  const value = params.get(name)
+  if (value !== undefined && typeof value !== 'string')
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
+  return value
+}
+
+const getInputTimestamp = (params: Parameters, name: string): Date | undefined => {
+  const value = params.get(name)
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || value < 0) throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
+  return new Date(value * 1000)
+}
+
+/** Details specific to signatures made according to RFC 9421. */
+export type SignatureInput = {
+  /** The label identifying the signature in the Signature-Input and Signature headers. */
+  label: string
+  /** The serialized signature parameters, which are signed as the `@signature-params` component. */
+  params: string
+  /** The value of the `alg` signature parameter, if present. */
+  algorithm?: Rfc9421Algorithm
+  /** The value of the `nonce` signature parameter, if present. */
+  nonce?: string
+}
+
+/** The fields of a draft-cavage signature, from which a `Signature` can be built. */
+export type SignatureFields = {
+  keyId: KeyId
+  /** The signature over the signing string. */
+  signature: Buffer
+  /** The headers covered by the signature, in signing order. Defaults to `(created)`. */
+  headers?: string[]
+  signatureAlgorithm?: SignatureAlgorithm
+  /** The creation time, which must be a whole number of seconds. */
+  created?: Date
+  expires?: Date
+}
+
 export class Signature {
   readonly observedAt: Date
 
@@ -159,13 +275,118 @@ export class Signature {
     readonly created?: Date,
     readonly expires?: Date,
     observedAt?: Date,
+    readonly input?: SignatureInput,
   ) {
     this.observedAt = observedAt || new Date()
   }
 
+  /**
+   * Parse every signature present in a pair of RFC 9421 Signature-Input and Signature headers.
+   *
+   * @param inputHeader The combined value of the Signature-Input header
+   * @param signatureHeader The combined value of the Signature header
+   * @param atTime The time at which the signatures were observed
+   *
+   * @throws VerificationError if either header is malformed, or if the labels of the headers do not match
+   */
+  static fromSignatureInput(inputHeader: string, signatureHeader: string, atTime?: Date): Signature[] {
+    const inputs = parseDictionary(inputHeader)
+    const signatures = parseDictionary(signatureHeader)
+
+    return [...inputs.entries()].map(([label, input]) => {
+      const signatureMember = signatures.get(label)
+      const signature = signatureMember && !isInnerList(signatureMember) ? signatureMember.value : undefined
+
+      if (!isInnerList(input)) throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_SIGNATURE)
+      if (!Buffer.isBuffer(signature) || signature.length === 0)
+        throw new VerificationError(
+          `signature for label \`${label}\` not present in signature`,
+          ErrorCode.MALFORMED_SIGNATURE,
+        )
+
+      const keyId = getInputString(input.params, 'keyid')
+      if (!keyId)
+        throw new VerificationError(
+          'required parameter `keyid` not present in signature',
+          ErrorCode.MALFORMED_SIGNATURE,
+        )
+
+      const algorithm = getInputString(input.params, 'alg')
+      if (algorithm !== undefined && !Object.values(Rfc9421Algorithm).includes(algorithm as Rfc9421Algorithm))
+        throw new VerificationError(
+          `signature algorithm \`${algorithm}\` is not supported`,
+          ErrorCode.UNSUPPORTED_ALGORITHM,
+          { algorithm },
+        )
+
+      return new Signature(
+        keyId,
+        signature,
+        input.items.map(componentToString),
+        undefined,
+        getInputTimestamp(input.params, 'created'),
+        getInputTimestamp(input.params, 'expires'),
+        atTime,
+        {
+          label,
+          params: serializeInnerList(input),
+          algorithm: algorithm as Rfc9421Algorithm | undefined,
+          nonce: getInputString(input.params, 'nonce'),
+        },
+      )
+    })
+  }
+
+  /**
+   * Build a draft-cavage signature from its fields, such as to serialize it with `toHeader`.
+   *
+   * @param fields The fields of the signature
+   * @param atTime The time at which the signature was observed
+   *
+   * @throws ConfigurationError if any of the fields cannot be represented in a signature header
+   */
+  static create(
+    { keyId, signature, headers = [...DEFAULT_HEADERS], signatureAlgorithm, created, expires }: SignatureFields,
+    atTime?: Date,
+  ): Signature {
+    if (!keyId) throw new ConfigurationError('signature keyId must not be empty')
+    if (signature.length === 0) throw new ConfigurationError('signature must not be empty')
+
+    const normalizedHeaders = headers.map((header) => header.toLowerCase())
+    const invalidHeader = normalizedHeaders.find((header) => !HEADER_NAME_REGEX.test(header))
+    if (invalidHeader !== undefined) throw new ConfigurationError(`invalid header name in signature: ${invalidHeader}`)
+
+    if (signatureAlgorithm !== undefined && !Object.values(SignatureAlgorithm).includes(signatureAlgorithm))
+      throw new ConfigurationError(`unsupported signature algorithm ${signatureAlgorithm}`)
+
+    // created is an integer, while expires may have a fractional part
+    if (created && !(created.valueOf() >= 0 && created.valueOf() % 1000 === 0))
+      throw new ConfigurationError('signature creation time must be a non-negative whole number of seconds')
+    if (expires && !(expires.valueOf() >= 0)) throw new ConfigurationError('signature expiry time must not be negative')
+
+    return new Signature(keyId, signature, normalizedHeaders, signatureAlgorithm, created, expires, atTime)
+  }
+
+  /**
+   * Parse a draft-cavage signature from the value of a Signature header, or the
+   * parameters of an Authorization header using the Signature scheme.
+   *
+   * Parameter names are case-insensitive, and optional whitespace is permitted
+   * around `=` and `,`. String parameters must be quoted strings, which may
+   * contain escaped characters, and numeric parameters must not be quoted.
+   *
+   * @param header The signature parameters
+   * @param atTime The time at which the signature was observed
+   *
+   * @throws VerificationError if the signature is malformed or is missing required parameters
+   */
   static fromHeader(header: string, atTime?: Date): Signature {
-    const pairs = header.split(',')
-    const fieldMap = pairsToMap(pairs)
+    const params = parseAuthParamList(header, {
+      strict: true,
+      message: MSG_MALFORMED,
+      code: ErrorCode.MALFORMED_SIGNATURE,
+    })
+    const fieldMap = paramsToMap(params)
 
     // Required fields and defaulted fields
     const keyId = getKeyId(fieldMap)
@@ -180,27 +401,114 @@ export class Signature {
     return new Signature(keyId, signature, headers, signatureAlgorithm, created, updated, atTime)
   }
 
+  /**
+   * Serialize a draft-cavage signature as the value of a header, which is parsed by
+   * `fromHeader`. String fields are quoted, with any quotes and backslashes escaped.
+   *
+   * @param header Whether the value is for the Signature header, or the Authorization
+   *               header, in which case it is prefixed with the Signature scheme
+   *
+   * @throws ConfigurationError if the signature was made according to RFC 9421, which
+   *                            must be serialized with `toHeaders`
+   */
+  toHeader(header: SignatureHeader = SignatureHeader.SIGNATURE): string {
+    if (this.input) throw new ConfigurationError('rfc9421 signatures must be serialized with toHeaders')
+
+    const params: [string, string | number][] = [['keyId', this.keyId]]
+    if (this.signatureAlgorithm) params.push(['algorithm', this.signatureAlgorithm])
+    if (this.created) params.push(['created', this.created.valueOf() / 1000])
+    if (this.expires) params.push(['expires', this.expires.valueOf() / 1000])
+    params.push(['headers', this.headers.join(' ')])
+    params.push(['signature', this.signature.toString('base64')])
+
+    return header === SignatureHeader.AUTHORIZATION
+      ? serializeAuthHeader(SIGNATURE_SCHEME, params)
+      : serializeAuthParams(params)
+  }
+
+  /**
+   * Serialize the signature as the headers to set on a message, keyed by lowercase
+   * header name. RFC 9421 signatures produce the Signature-Input and Signature
+   * headers, while draft-cavage signatures produce the given header.
+   *
+   * @param header The header for draft-cavage signatures. RFC 9421 signatures cannot
+   *               be carried in the Authorization header.
+   *
+   * @throws ConfigurationError if an RFC 9421 signature is requested in the Authorization header
+   */
+  toHeaders(header: SignatureHeader = SignatureHeader.SIGNATURE): { [header: string]: string } {
+    if (!this.input) return { [header]: this.toHeader(header) }
+    if (header !== SignatureHeader.SIGNATURE)
+      throw new ConfigurationError('rfc9421 signatures can only be carried in the signature header')
+
+    const { label, params } = this.input
+    return {
+      'signature-input': `${label}=${params}`,
+      signature: `${label}=${serializeItem({ value: this.signature, params: new Map() })}`,
+    }
+  }
+
+  /** The version of the HTTP signatures spec the signature was made with. */
+  get version(): HttpSigVersion {
+    return this.input ? HttpSigVersion.RFC_9421 : HttpSigVersion.DRAFT_CAVAGE_12
+  }
+
   get signedCreated(): boolean {
-    return this.created !== undefined && this.headers.includes('(created)')
+    // RFC 9421 signature parameters are always covered by the signature
+    return this.created !== undefined && (this.input !== undefined || this.headers.includes('(created)'))
   }
 
   get signedExpires(): boolean {
-    return this.expires !== undefined && this.headers.includes('(expires)')
+    return this.expires !== undefined && (this.input !== undefined || this.headers.includes('(expires)'))
   }
 
   get validCreation(): boolean {
+    return this.validCreationWithin(CREATED_SLACK)
+  }
+
+  get validExpires(): boolean {
+    return this.validExpiresWithin(EXPIRES_SLACK)
+  }
+
+  /**
+   * Whether the creation time is valid at the given time.
+   *
+   * @param futureSkew The number of milliseconds the creation time may be in the future
+   * @param at The time to check against, defaulting to when the signature was observed
+   */
+  validCreationWithin(futureSkew: number, at: Date = this.observedAt): boolean {
     if (this.created === undefined) return true
-    // created - observedAt = number of msec in future creation is from now
+    // created - at = number of msec in future creation is from now
     // negative: in past
-    // Slack: can be no further in future than CREATED_SLACK
-    return this.created.valueOf() - this.observedAt.valueOf() < CREATED_SLACK
+    // Slack: can be no further in future than futureSkew
+    return this.created.valueOf() - at.valueOf() < futureSkew
   }
 
-  get validExpires(): boolean {
+  /**
+   * Whether the signature had not expired at the given time.
+   *
+   * @param expiryGrace The number of milliseconds after expiry for which the signature is still valid
+   * @param at The time to check against, defaulting to when the signature was observed
+   */
+  validExpiresWithin(expiryGrace: number, at: Date = this.observedAt): boolean {
     if (this.expires === undefined) return true
-    // observedAt - expires = seconds since expiry
+    // at - expires = seconds since expiry
     // negative: not expired
-    // Slack: can be no more than CREATED_SLACK since expiry
-    return this.observedAt.valueOf() - this.expires.valueOf() < EXPIRES_SLACK
+    // Slack: can be no more than expiryGrace since expiry
+    return at.valueOf() - this.expires.valueOf() < expiryGrace
+  }
+
+  /**
+   * Whether the signature was created no more than `maxAge` milliseconds before the given time.
+   * Unless `maxAge` is infinite, the creation time must be covered by the signature, as
+   * the age of the signature cannot otherwise be trusted.
+   *
+   * @param maxAge The maximum age of the signature in milliseconds
+   * @param at The time to check against, defaulting to when the signature was observed
+   */
+  validAge(maxAge: number, at: Date = this.observedAt): boolean {
+    if (maxAge === Infinity) return true
+    if (!this.signedCreated) return false
+    return at.valueOf() - (this.created as Date).valueOf() <= maxAge
   }
 }
@@ -3,6 +3,8 @@
 
 import {
   DigestAlgorithm,
+  DigestHeader,
+  ErrorCode,
   SigningAlgorithm,
   ConfigurationError,
   ConcreteSignatureOptions,
@@ -12,9 +14,27 @@ import {
   SignatureAlgorithm,
   GenericKeyConfigBase,
   SigningKeyConfig,
+  HttpSigVersion,
+  KeyId,
+  Rfc9421Algorithm,
+  SignatureHeaders,
+  SignatureLifetime,
+  SigningTimes,
 } from './types'
 import * as crypto from 'crypto'
-import { MessageContext, HttpMessage } from './MessageContext'
+import { MessageContext, MessageContextOptions } from './MessageContext'
+import { serializeSignatureParams, Signature } from './Signature'
+import { isInnerList, parseDictionary, serializeDictionary } from './structured-fields'
+import { SignatureRequest } from './challenges'
+import {
+  BodyChunk,
+  DigestSource,
+  digestChunks,
+  digestSource,
+  DigestTransform,
+  toWebStream,
+  WebReadableStream,
+} from './digest-streams'
 
 export type DigestFactory = () => crypto.Hash
 
@@ -23,12 +43,77 @@ export type InternalKeyConfig = Omit<GenericKeyConfigBase, 'signatureAlgorithm'>
     signatureAlgorithm: SignatureAlgorithm
   }
 
-function headerList(headers: HeaderSignSpec, mode: HeaderSignMode): string[] {
-  return Object.entries(headers)
+// Algorithm identifiers used in the RFC 9530 Content-Digest and Repr-Digest headers
+const STRUCTURED_DIGEST_ALGORITHMS: { [Value in DigestAlgorithm]: string } = {
+  [DigestAlgorithm.SHA256]: 'sha-256',
+  [DigestAlgorithm.SHA512]: 'sha-512',
+}
+
+/** Options for inspecting the signature on a message without throwing. */
+export type InspectOptions = {
+  /** The signature to inspect, if not the only signature on the message. */
+  signature?: Signature
+  /** The body of the message. When given, it is checked against the digest header. */
+  body?: Buffer
+}
+
+/**
+ * The outcome of inspecting the signature on a message. Unlike verification,
+ * inspection reports every check which failed instead of throwing on the first.
+ */
+export type VerificationResult = {
+  /** Whether every check passed. */
+  verified: boolean
+  /** The keyId of the signature, if one was present. */
+  keyId?: KeyId
+  /** The algorithm named by the signature, or else the algorithm of the key it was checked with. */
+  algorithm?: string
+  /** The headers and derived components covered by the signature. */
+  components: string[]
+  /** The creation time of the signature, if signed. */
+  created?: Date
+  /** The expiry time of the signature, if signed. */
+  expires?: Date
+  /** Whether the body matched the digest header. Only set when a body was given. */
+  digestMatch?: boolean
+  /** The reason for each failed check, in the order checked. Empty when verified. */
+  failures: VerificationError[]
+}
+
+/** The label given to signatures produced for RFC 9421 messages. */
+export const RFC_9421_SIGNATURE_LABEL = 'sig1'
+
+// draft-cavage pseudo-headers and their RFC 9421 equivalents. The (created) and (expires)
+// pseudo-headers become signature parameters, which are always covered by the signature.
+const RFC_9421_COMPONENTS: { [header: string]: string[] } = {
+  '(request-target)': ['@method', '@request-target'],
+  '(created)': [],
+  '(expires)': [],
+}
+
+/**
+ * The headers and derived components of a header spec which are signed or verified,
+ * in the form used by the given version of the spec.
+ */
+export function headerList(headers: HeaderSignSpec, mode: HeaderSignMode, version: HttpSigVersion): string[] {
+  const names = Object.entries(headers)
     .filter(([, value]) => value === mode || value === true)
     .map(([header]) => header)
+
+  if (version !== HttpSigVersion.RFC_9421) return names
+
+  return names.flatMap((name) => RFC_9421_COMPONENTS[name] || [name])
 }
 
+// Signature timestamps only have whole-second precision when signing
+const wholeSeconds = (date: Date): Date => new Date(Math.floor(date.valueOf() / 1000) * 1000)
+
+// The (created) and (expires) pseudo-headers are decimal seconds since the epoch
+const pseudoHeaderTimes = ({ created, expires }: SigningTimes): MessageContextOptions => ({
+  ...(created && { createdAt: String(created.valueOf() / 1000) }),
+  ...(expires && { expiresAt: String(expires.valueOf() / 1000) }),
+})
+
 /**
  * Encapsulation around various operations specific to a keyId.
  *
@@ -56,48 +141,140 @@ export abstract class SignatureKey {
     readonly options: ConcreteSignatureOptions,
   ) {}
 
+  /** The name of the header carrying body digests for this key, per the `digestHeader` option. */
+  get digestHeader(): DigestHeader {
+    return this.options.digestHeader
+  }
+
   /**
-   * Create a Digest header for the given Buffer representing the
+   * Create a digest header value for the given Buffer representing the
    * body of an HTTP message.
    *
-   * WARNING: **Never** verify the Digest header for an incoming
+   * The value is formatted for the header given by `digestHeader`: either
+   * the legacy `Digest` header, or the structured `Content-Digest` or
+   * `Repr-Digest` headers.
+   *
+   * WARNING: **Never** verify the digest header for an incoming
    * HTTP message by using `==` or `===`. Use the KeyWrapper.verifyDigestHeader
-   * method instead. This method should only be used to write the Digest
+   * method instead. This method should only be used to write the digest
    * header for a request.
    *
    * @param body Buffer for body to digest according to key config.
    */
   createDigestHeader(body: Buffer): string {
-    const digest = this.#digestBuffer(body)
+    return this.#formatDigest(this.#digestBuffer(body))
+  }
+
+  /**
+   * Create a digest header value for a body read incrementally from a stream,
+   * so that the whole body need not be held in memory.
+   *
+   * @see createDigestHeader
+   *
+   * @param body A Node.js `Readable`, async iterable or Web `ReadableStream` producing the body
+   */
+  async createStreamDigestHeader(body: DigestSource): Promise<string> {
+    return this.#formatDigest(await digestSource(body, this.hasher()))
+  }
 
-    return `${this.digestAlgorithm}=${digest.toString('base64')}`
+  /**
+   * Create a pass-through stream which digests the body as it is piped through.
+   * The digest header value is available from its `digestHeader` promise once
+   * the stream has ended.
+   *
+   * @see createDigestHeader
+   */
+  createDigestTransform(): DigestTransform {
+    return new DigestTransform(this.hasher(), (digest) => this.#formatDigest(digest))
   }
 
   /**
    * Verifies the body of a request against the digest.
    *
+   * The digest is parsed according to the header given by `digestHeader`.
+   * Structured digest headers may contain digests for several algorithms;
+   * only the digest for the configured algorithm is checked.
+   *
    * @throws VerificationError Thrown when algorithm does not match or digest verification failed
    *
    * @param body Buffer containing body of request to be verified
    * @param digest Digest header extracted from request
    */
   verifyDigestHeader(body: Buffer, digest: string): boolean {
-    const [cmpAlg, encodedCmpDigest] = digest.split('=', 2)
+    const cmpDigest = this.#parseDigestHeader(digest)
 
-    if (cmpAlg.toLowerCase() !== this.digestAlgorithm.toLowerCase())
-      throw new VerificationError(`mismatched digest algorithm: got ${cmpAlg}, expected ${this.digestAlgorithm}`)
+    return SignatureKey.#checkDigest(cmpDigest, this.#digestBuffer(body))
+  }
+
+  /**
+   * Create a pass-through stream which verifies the body piped through it
+   * against the digest. The stream fails with a VerificationError after the
+   * last of the body has passed through if the digest does not match, so the
+   * body must not be trusted until the stream has finished.
+   *
+   * @see verifyDigestHeader
+   *
+   * @throws VerificationError Thrown immediately when the digest header is malformed or uses another algorithm
+   *
+   * @param digest Digest header extracted from the message
+   */
+  verifyDigestTransform(digest: string): DigestTransform {
+    const cmpDigest = this.#parseDigestHeader(digest)
 
-    const cmpDigest = Buffer.from(encodedCmpDigest, 'base64')
-    const refDigest = this.#digestBuffer(body)
+    return new DigestTransform(this.hasher(), (refDigest) => {
+      SignatureKey.#checkDigest(cmpDigest, refDigest)
+      return this.#formatDigest(refDigest)
+    })
+  }
 
-    if (!crypto.timingSafeEqual(cmpDigest, refDigest)) throw new VerificationError(`body digest verification failed`)
+  /**
+   * Verify a body read incrementally against the digest, passing its chunks
+   * through as Buffers. Iteration fails with a VerificationError after the
+   * last chunk if the digest does not match, so the body must not be trusted
+   * until iteration has completed.
+   *
+   * @see verifyDigestTransform
+   *
+   * @throws VerificationError Thrown immediately when the digest header is malformed or uses another algorithm
+   *
+   * @param body A Node.js `Readable`, async iterable or Web `ReadableStream` producing the body
+   * @param digest Digest header extracted from the message
+   */
+  verifyDigestStream(body: DigestSource, digest: string): AsyncGenerator<Buffer, void, undefined> {
+    const cmpDigest = this.#parseDigestHeader(digest)
 
-    return true
+    return digestChunks(body, this.hasher(), (refDigest) => SignatureKey.#checkDigest(cmpDigest, refDigest))
+  }
+
+  /**
+   * Verify a body read from a Web `ReadableStream` against the digest,
+   * returning a `ReadableStream` of the same body which errors after its last
+   * chunk if the digest does not match.
+   *
+   * @see verifyDigestStream
+   *
+   * @throws VerificationError Thrown immediately when the digest header is malformed or uses another algorithm
+   * @throws ConfigurationError if the runtime does not provide Web streams
+   *
+   * @param body A Web `ReadableStream` producing the body
+   * @param digest Digest header extracted from the message
+   */
+  verifyDigestWebStream(body: WebReadableStream<BodyChunk>, digest: string): WebReadableStream<Uint8Array> {
+    return toWebStream(this.verifyDigestStream(body, digest))
   }
 
   /** Identifies the signing algorithm used by this key. Delegated to implementations. */
   abstract get algorithm(): SigningAlgorithm
 
+  /**
+   * Identifies the RFC 9421 `alg` parameter value corresponding to this key, if the key
+   * configuration matches one of the registered algorithms. Delegated to implementations.
+   */
+  abstract get rfc9421Algorithm(): Rfc9421Algorithm | undefined
+
+  /** Whether this key is capable of producing signatures, such as public keys are not. Delegated to implementations. */
+  abstract get canSign(): boolean
+
   /** Signs a Buffer using this key's signing algorithm. May fail if the key is not capable of producing signatures. */
   protected abstract sign(buf: Buffer): Buffer
 
@@ -123,36 +300,118 @@ export abstract class SignatureKey {
    * Create a signature string for a given HTTP request.
    *
    * The signature will be signed against the configured headers.
-   * If the calculateDigest option is set, the Digest header will
-   * be added to the list of signed headers. The header will _not_
-   * be automatically added to the request; it must have already
-   * been calculated using `SignatureKey.createDigestHeader()`
-   * and added to the request before signing.
+   * If the calculateDigest option is set, the digest header (as set by
+   * the digestHeader option) will be added to the list of signed
+   * headers. The header will _not_ be automatically added to the
+   * request; it must have already been calculated using
+   * `SignatureKey.createDigestHeader()` and added to the request
+   * before signing.
+   *
+   * The `created` and `expires` parameters are set according to the
+   * requestLifetime option, unless given explicitly in `times`.
    *
    * @throws VerificationError if any configured headers are not set on the request
    *
    * @param msgCtx MessageContext wrapper around the HTTP request to be signed.
+   * @param times Explicit creation and expiry times for the signature.
    */
-  signRequest(msgCtx: MessageContext): string {
-    return this.#signMessage(msgCtx, this.options.requestHeaders)
+  signRequest(msgCtx: MessageContext, times?: SigningTimes): string {
+    return this.signRequestHeaders(msgCtx, times).signature
+  }
+
+  /**
+   * Create the signature headers for a given HTTP request.
+   *
+   * This behaves the same as `signRequest`, but returns every header which must
+   * be set on the request, keyed by lowercase header name. For RFC 9421 signatures,
+   * this includes the Signature-Input header as well as the Signature header.
+   *
+   * @throws VerificationError if any configured headers are not set on the request
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP request to be signed.
+   * @param times Explicit creation and expiry times for the signature.
+   */
+  signRequestHeaders(msgCtx: MessageContext, times?: SigningTimes): SignatureHeaders {
+    return this.#signMessage(msgCtx, this.options.requestHeaders, this.options.requestLifetime, times)
+  }
+
+  /**
+   * Create the signature headers for a given HTTP request, satisfying a request
+   * for a signature from the server, such as one read from a challenge with
+   * `readSignatureRequests`.
+   *
+   * The requested components are signed in addition to the configured headers,
+   * along with any requested creation and expiry times, label, nonce and tag.
+   *
+   * @throws ConfigurationError if the signature was requested for another keyId or
+   *                            algorithm, or the requested parameters cannot be signed
+   * @throws VerificationError if any configured or requested headers are not set on the request
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP request to be signed.
+   * @param request The signature requested by the server.
+   * @param times Explicit creation and expiry times for the signature.
+   */
+  signRequestFor(msgCtx: MessageContext, request: SignatureRequest, times?: SigningTimes): SignatureHeaders {
+    if (request.keyId !== undefined && request.keyId !== this.id)
+      throw new ConfigurationError(`signature requested for key '${request.keyId}', not '${this.id}'`)
+    if (
+      request.algorithms &&
+      !request.algorithms.some(
+        (algorithm) => algorithm === this.signatureAlgorithm || algorithm === this.rfc9421Algorithm,
+      )
+    )
+      throw new ConfigurationError(
+        `key '${this.id}' supports none of the requested algorithms: ${request.algorithms.join(', ')}`,
+      )
+
+    const headerSpec: HeaderSignSpec = { ...this.options.requestHeaders }
+    const signed = [
+      ...request.components,
+      ...(request.created ? ['(created)'] : []),
+      ...(request.expires ? ['(expires)'] : []),
+    ]
+    for (const component of signed) if (headerSpec[component] !== true) headerSpec[component] = 'sign'
+
+    return this.#signMessage(msgCtx, headerSpec, this.options.requestLifetime, times, request)
   }
 
   /**
    * Create a signature string for a given HTTP response.
    *
    * The signature will be signed against the configured headers.
-   * If the calculateDigest option is set, the Digest header will
-   * be added to the list of signed headers. The header will _not_
-   * be automatically added to the request; it must have already
-   * been calculated using `SignatureKey.createDigestHeader()`
-   * and added to the response before signing.
+   * If the calculateDigest option is set, the digest header (as set by
+   * the digestHeader option) will be added to the list of signed
+   * headers. The header will _not_ be automatically added to the
+   * response; it must have already been calculated using
+   * `SignatureKey.createDigestHeader()` and added to the response
+   * before signing.
+   *
+   * The `created` and `expires` parameters are set according to the
+   * responseLifetime option, unless given explicitly in `times`.
    *
    @throws VerificationError if any configured headers are not set on the response
    *
    * @param msgCtx MessageContext wrapper around the HTTP response to be signed.
+   * @param times Explicit creation and expiry times for the signature.
    */
-  signResponse(msgCtx: MessageContext): string {
-    return this.#signMessage(msgCtx, this.options.responseHeaders)
+  signResponse(msgCtx: MessageContext, times?: SigningTimes): string {
+    return this.signResponseHeaders(msgCtx, times).signature
+  }
+
+  /**
+   * Create the signature headers for a given HTTP response.
+   *
+   * This behaves the same as `signResponse`, but returns every header which must
+   * be set on the response, keyed by lowercase header name. For RFC 9421 signatures,
+   * this includes the Signature-Input header as well as the Signature header.
+   *
+   * @throws VerificationError if any configured headers are not set on the response
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP response to be signed.
+   * @param times Explicit creation and expiry times for the signature.
+   */
+  signResponseHeaders(msgCtx: MessageContext, times?: SigningTimes): SignatureHeaders {
+    return this.#signMessage(msgCtx, this.options.responseHeaders, this.options.responseLifetime, times)
   }
 
   /**
@@ -165,13 +424,72 @@ export abstract class SignatureKey {
    *                           required headers, or has invalid values for created or expires
    *
    * @param msgCtx MessageContext wrapper around the HTTP request to be verified.
+   * @param signature The signature to verify, when the request carries several signatures.
+   *                  By default, the only signature present on the request is verified.
    */
-  verifyRequest(msgCtx: MessageContext): boolean {
-    return this.#verifyMessage(msgCtx, this.options.requestHeaders)
+  verifyRequest(msgCtx: MessageContext, signature?: Signature): boolean {
+    return this.#verifyMessage(msgCtx, this.options.requestHeaders, signature)
+  }
+
+  verifyResponse(msgCtx: MessageContext, signature?: Signature): boolean {
+    return this.#verifyMessage(msgCtx, this.options.responseHeaders, signature)
   }
 
-  verifyResponse(msgCtx: MessageContext): boolean {
-    return this.#verifyMessage(msgCtx, this.options.responseHeaders)
+  /**
+   * Inspect the signature present on a given request, performing the same
+   * checks as `verifyRequest` but reporting their outcome instead of throwing.
+   *
+   * If a body is given, it is also checked against the digest header.
+   *
+   * @throws ConfigurationError if this key has invalid configuration
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP request to be inspected.
+   * @param options The signature to inspect and the body of the request.
+   */
+  inspectRequest(msgCtx: MessageContext, options: InspectOptions = {}): VerificationResult {
+    return this.#inspectMessage(msgCtx, this.options.requestHeaders, options)
+  }
+
+  /**
+   * Inspect the signature present on a given response.
+   *
+   * @see inspectRequest
+   */
+  inspectResponse(msgCtx: MessageContext, options: InspectOptions = {}): VerificationResult {
+    return this.#inspectMessage(msgCtx, this.options.responseHeaders, options)
+  }
+
+  /**
+   * The identifier under which a signature made with this key is remembered for
+   * replay detection. This is the signed `nonce` parameter if present, and
+   * otherwise a hash of the signature value.
+   *
+   * @param signature A signature which has been verified with this key
+   */
+  replayId(signature: Signature): string {
+    if (signature.input?.nonce !== undefined) return `${this.id}:nonce:${signature.input.nonce}`
+
+    const hash = crypto.createHash('sha256').update(signature.signature).digest('base64')
+    return `${this.id}:signature:${hash}`
+  }
+
+  /**
+   * The number of milliseconds for which a signature must be remembered for replay
+   * detection, until it would no longer pass verification. Where the signature is not
+   * bounded by its expiry time or the maxAge option, the replayWindow option is used.
+   *
+   * @param signature A signature which has been verified with this key
+   */
+  replayTtl(signature: Signature): number {
+    const now = this.options.clock().valueOf()
+    const { expiryGrace, maxAge, replayWindow } = this.options
+
+    const limits: number[] = []
+    if (signature.expires) limits.push(signature.expires.valueOf() + expiryGrace * 1000)
+    if (signature.created && Number.isFinite(maxAge)) limits.push(signature.created.valueOf() + maxAge * 1000)
+
+    const validUntil = limits.length > 0 ? Math.min(...limits) : now + replayWindow * 1000
+    return Math.max(validUntil - now, 0)
   }
 
   /**
@@ -187,46 +505,281 @@ export abstract class SignatureKey {
     return hash.digest()
   }
 
-  #signMessage(msgCtx: MessageContext, headerSpec: HeaderSignSpec): string {
-    const headers = headerList(headerSpec, 'sign')
-    const algorithm = this.signatureAlgorithm
+  #formatDigest(digest: Buffer): string {
+    if (this.digestHeader === DigestHeader.DIGEST) return `${this.digestAlgorithm}=${digest.toString('base64')}`
+
+    const algorithm = STRUCTURED_DIGEST_ALGORITHMS[this.digestAlgorithm]
+    return serializeDictionary(new Map([[algorithm, { value: digest, params: new Map() }]]))
+  }
 
-    if (this.options.calculateDigest && !headers.includes('digest')) headers.push('digest')
+  #parseDigestHeader(digest: string): Buffer {
+    return this.digestHeader === DigestHeader.DIGEST ? this.#parseDigest(digest) : this.#parseStructuredDigest(digest)
+  }
 
-    const payload = msgCtx.canonicalString(headers)
-    const signature = this.sign(Buffer.from(payload)).toString('base64')
+  // Digests must only ever be compared in constant time
+  static #checkDigest(cmpDigest: Buffer, refDigest: Buffer): boolean {
+    if (cmpDigest.length !== refDigest.length || !crypto.timingSafeEqual(cmpDigest, refDigest))
+      throw new VerificationError(`body digest verification failed`, ErrorCode.DIGEST_MISMATCH)
 
-    return `keyId="${this.id}",algorithm="${algorithm}",headers="${headers.join(' ')}",signature="${signature}"`
+    return true
   }
 
-  #verifyMessage(msgCtx: MessageContext, headerSpec: HeaderSignSpec): boolean {
-    const refSig = msgCtx.getSignature()
+  #parseDigest(digest: string): Buffer {
+    const [cmpAlg, encodedCmpDigest] = digest.split('=', 2)
 
-    if (!refSig) throw new VerificationError('signature not present on message')
-    // In the verify case, the headers to check are specified by the signature, not
-    // the local config, which is instead used to enforce a minimum set of headers
-    // which are signed.
-    const headers = refSig.headers
+    if (cmpAlg.toLowerCase() !== this.digestAlgorithm.toLowerCase())
+      throw new VerificationError(
+        `mismatched digest algorithm: got ${cmpAlg}, expected ${this.digestAlgorithm}`,
+        ErrorCode.DIGEST_ALGORITHM_MISMATCH,
+        { algorithm: cmpAlg },
+      )
+
+    return Buffer.from(encodedCmpDigest, 'base64')
+  }
+
+  #parseStructuredDigest(digest: string): Buffer {
+    const algorithm = STRUCTURED_DIGEST_ALGORITHMS[this.digestAlgorithm]
+    const member = parseDictionary(digest).get(algorithm)
+
+    if (!member)
+      throw new VerificationError(
+        `mismatched digest algorithm: expected ${algorithm}`,
+        ErrorCode.DIGEST_ALGORITHM_MISMATCH,
+      )
+    if (isInnerList(member) || !Buffer.isBuffer(member.value))
+      throw new VerificationError(`malformed ${this.digestHeader} header`, ErrorCode.MALFORMED_DIGEST)
+
+    return member.value
+  }
+
+  /**
+   * Resolve the creation and expiry times to sign, from the explicit times given
+   * for the message or else the configured lifetime.
+   *
+   * @param headerSpec The headers to sign; listing `(created)` or `(expires)` requires the timestamp
+   * @param lifetime The configured lifetime for signatures of this message type
+   * @param times Explicit times for this message
+   * @private
+   */
+  #signatureTimes(headerSpec: HeaderSignSpec, lifetime: SignatureLifetime, times: SigningTimes): SigningTimes {
+    const isSigned = (header: string) => headerSpec[header] === true || headerSpec[header] === 'sign'
+
+    const signedAt = wholeSeconds(times.created || this.options.clock())
+    const created = times.created || lifetime.created || isSigned('(created)') ? signedAt : undefined
+
+    let expires: Date | undefined
+    if (times.expires) {
+      expires = wholeSeconds(times.expires)
+    } else if (lifetime.ttl !== undefined) {
+      if (!(lifetime.ttl > 0)) throw new ConfigurationError(`signature ttl must be positive, got ${lifetime.ttl}`)
+      expires = wholeSeconds(new Date(signedAt.valueOf() + lifetime.ttl * 1000))
+    } else if (isSigned('(expires)')) {
+      throw new ConfigurationError('cannot sign (expires) without a signature ttl or expiry time')
+    }
+
+    if (created && expires && expires <= created)
+      throw new ConfigurationError('signature expiry must be later than its creation')
+
+    return { created, expires }
+  }
+
+  #signMessage(
+    msgCtx: MessageContext,
+    headerSpec: HeaderSignSpec,
+    lifetime: SignatureLifetime,
+    times: SigningTimes = {},
+    { label = RFC_9421_SIGNATURE_LABEL, nonce, tag }: Pick<SignatureRequest, 'label' | 'nonce' | 'tag'> = {},
+  ): SignatureHeaders {
+    const headers = headerList(headerSpec, 'sign', this.options.version)
+    const algorithm = this.signatureAlgorithm
+    const { created, expires } = this.#signatureTimes(headerSpec, lifetime, times)
+
+    if (this.options.calculateDigest && !headers.includes(this.digestHeader)) headers.push(this.digestHeader)
+
+    if (this.options.version === HttpSigVersion.RFC_9421) {
+      const params: [string, string | number][] = []
+      if (created) params.push(['created', created.valueOf() / 1000])
+      if (expires) params.push(['expires', expires.valueOf() / 1000])
+      params.push(['keyid', this.id])
+      if (this.rfc9421Algorithm) params.push(['alg', this.rfc9421Algorithm])
+      if (nonce !== undefined) params.push(['nonce', nonce])
+      else if (this.options.nonce) params.push(['nonce', crypto.randomBytes(16).toString('base64')])
+      if (tag !== undefined) params.push(['tag', tag])
+
+      const signatureParams = serializeSignatureParams(headers, params)
+      const payload = msgCtx.signatureBase(headers, signatureParams)
+      const signature = this.sign(Buffer.from(payload)).toString('base64')
+
+      return {
+        'signature-input': `${label}=${signatureParams}`,
+        signature: `${label}=:${signature}:`,
+      }
+    }
+
+    if (this.options.nonce || nonce !== undefined)
+      throw new ConfigurationError('nonces can only be signed in rfc9421 signatures')
+    if (tag !== undefined) throw new ConfigurationError('tags can only be signed in rfc9421 signatures')
+
+    // draft-cavage forbids (created) and (expires) with algorithms which imply the key type
+    if ((created || expires) && algorithm !== SignatureAlgorithm.HS2019)
+      throw new ConfigurationError(`(created) and (expires) cannot be used with the ${algorithm} algorithm`)
+
+    // Timestamps must be signed as pseudo-headers in draft-cavage signatures
+    if (created && !headers.includes('(created)')) headers.push('(created)')
+    if (expires && !headers.includes('(expires)')) headers.push('(expires)')
+
+    const payload = msgCtx.canonicalString(headers, pseudoHeaderTimes({ created, expires }))
+    const signature = Signature.create({
+      keyId: this.id,
+      signature: this.sign(Buffer.from(payload)),
+      headers,
+      signatureAlgorithm: algorithm,
+      created,
+      expires,
+    })
+
+    return { signature: signature.toHeader() }
+  }
+
+  #signaturePayload(msgCtx: MessageContext, refSig: Signature): string {
+    if (refSig.version !== this.options.version)
+      throw new VerificationError(
+        `signature for key '${this.id}' must use ${this.options.version}`,
+        ErrorCode.ALGORITHM_MISMATCH,
+        { keyId: this.id },
+      )
+
+    if (refSig.input) {
+      // Verify that the algorithm matches the expected algorithm for the signature, if provided
+      if (refSig.input.algorithm && this.rfc9421Algorithm !== refSig.input.algorithm)
+        throw new VerificationError(
+          `incorrect signature algorithm used for key '${this.id}'`,
+          ErrorCode.ALGORITHM_MISMATCH,
+          { keyId: this.id, algorithm: refSig.input.algorithm },
+        )
+
+      return msgCtx.signatureBase(refSig.headers, refSig.input.params)
+    }
 
     // Verify that the algorithm matches the expected algorithm for the signature, if provided
     if (refSig.signatureAlgorithm && this.signatureAlgorithm !== refSig.signatureAlgorithm)
-      throw new VerificationError(`incorrect signature scheme used for key '${this.id}'`)
+      throw new VerificationError(
+        `incorrect signature scheme used for key '${this.id}'`,
+        ErrorCode.ALGORITHM_MISMATCH,
+        { keyId: this.id, algorithm: refSig.signatureAlgorithm },
+      )
 
-    const payload = msgCtx.canonicalString(headers)
-    const signatureVerified = this.verify({ buf: Buffer.from(payload, 'utf8'), mac: refSig.signature })
+    return msgCtx.canonicalString(refSig.headers, pseudoHeaderTimes(refSig))
+  }
 
-    if (!signatureVerified) throw new VerificationError('signature verification failure')
+  #verifyMessage(msgCtx: MessageContext, headerSpec: HeaderSignSpec, signature?: Signature): boolean {
+    const { failures } = this.#inspectMessage(msgCtx, headerSpec, { signature })
 
-    // After verifying the signature, we can move onto making assertions about the signature
-    const headerSet = new Set(refSig.headers)
-    const missingHeaders = headerList(headerSpec, 'verify').filter((header) => !headerSet.has(header))
+    if (failures.length > 0) throw failures[0]
+
+    return true
+  }
 
-    if (missingHeaders.length > 0)
-      throw new VerificationError(`signature missing required headers: ${missingHeaders.join(', ')}`)
+  #inspectMessage(msgCtx: MessageContext, headerSpec: HeaderSignSpec, options: InspectOptions): VerificationResult {
+    const failures: VerificationError[] = []
+    // Only verification failures are reported; configuration errors are still thrown
+    const check = (fn: () => void) => {
+      try {
+        fn()
+      } catch (e) {
+        if (!(e instanceof VerificationError)) throw e
+        failures.push(e)
+      }
+    }
 
-    if (!refSig.validCreation) throw new VerificationError('signature creation in future')
-    if (!refSig.validExpires) throw new VerificationError('signature has expired')
+    let refSig = options.signature
+    check(() => {
+      refSig = refSig || msgCtx.getSignature(this.options.clock())
+      if (!refSig) throw new VerificationError('signature not present on message', ErrorCode.SIGNATURE_MISSING)
+    })
+    if (!refSig) return { verified: false, components: [], failures }
+
+    const sig: Signature = refSig
+    const result = {
+      keyId: sig.keyId,
+      algorithm: sig.input
+        ? sig.input.algorithm || this.rfc9421Algorithm
+        : sig.signatureAlgorithm || this.signatureAlgorithm,
+      components: [...sig.headers],
+      created: sig.created,
+      expires: sig.expires,
+    }
 
-    return true
+    // In the verify case, the headers to check are specified by the signature, not
+    // the local config, which is instead used to enforce a minimum set of headers
+    // which are signed.
+    check(() => {
+      const payload = this.#signaturePayload(msgCtx, sig)
+      const signatureVerified = this.verify({ buf: Buffer.from(payload, 'utf8'), mac: sig.signature })
+
+      if (!signatureVerified)
+        throw new VerificationError('signature verification failure', ErrorCode.INVALID_SIGNATURE, { keyId: sig.keyId })
+    })
+
+    // After verifying the signature, we can move onto making assertions about the signature
+    check(() => {
+      const headerSet = new Set(sig.headers)
+      const missingHeaders = headerList(headerSpec, 'verify', this.options.version).filter(
+        (header) => !headerSet.has(header),
+      )
+
+      // RFC 9421 signatures carry the (created) and (expires) pseudo-headers as parameters,
+      // which are signed whenever they are present
+      if (sig.input) {
+        const required = (header: string) => headerSpec[header] === true || headerSpec[header] === 'verify'
+        if (required('(created)') && sig.created === undefined) missingHeaders.push('(created)')
+        if (required('(expires)') && sig.expires === undefined) missingHeaders.push('(expires)')
+      }
+
+      if (missingHeaders.length > 0)
+        throw new VerificationError(
+          `signature missing required headers: ${missingHeaders.join(', ')}`,
+          ErrorCode.MISSING_REQUIRED_HEADERS,
+          { keyId: sig.keyId, missingHeaders },
+        )
+    })
+
+    // Check the timestamps against the configured clock, rather than when the signature was parsed
+    const { futureSkew, expiryGrace, maxAge } = this.options
+    const now = this.options.clock()
+    check(() => {
+      if (!sig.validCreationWithin(futureSkew * 1000, now))
+        throw new VerificationError('signature creation in future', ErrorCode.SIGNATURE_NOT_YET_VALID, {
+          keyId: sig.keyId,
+        })
+    })
+    check(() => {
+      if (!sig.validExpiresWithin(expiryGrace * 1000, now))
+        throw new VerificationError('signature has expired', ErrorCode.SIGNATURE_EXPIRED, { keyId: sig.keyId })
+    })
+    check(() => {
+      // The age of signatures can only be limited if their creation time is signed
+      if (maxAge !== Infinity && !sig.signedCreated)
+        throw new VerificationError('signature creation time not signed', ErrorCode.SIGNATURE_TOO_OLD, {
+          keyId: sig.keyId,
+        })
+      if (!sig.validAge(maxAge * 1000, now))
+        throw new VerificationError('signature is too old', ErrorCode.SIGNATURE_TOO_OLD, { keyId: sig.keyId })
+    })
+
+    let digestMatch: boolean | undefined
+    if (options.body) {
+      const body = options.body
+      digestMatch = false
+      check(() => {
+        const digest = msgCtx.getHeader(this.digestHeader)
+        if (!digest)
+          throw new VerificationError(`${this.digestHeader} header not present on message`, ErrorCode.DIGEST_MISSING)
+
+        digestMatch = this.verifyDigestHeader(body, digest[digest.length - 1])
+      })
+    }
+
+    return { verified: failures.length < 1, ...result, ...(options.body && { digestMatch }), failures }
   }
 }
@@ -2,34 +2,103 @@
 // SPDX-License-Identifier: MIT
 
 import {
+  ChallengeHeaders,
   ConcreteSignatureOptions,
   ConfigurationError,
   DigestAlgorithm,
+  DigestHeader,
+  DsaEncodingType,
+  ErrorCode,
   FixedKey,
   HmacAlgorithm,
   HttpSigParams,
   HttpSigVersion,
+  KeyCacheParams,
   KeyConfig,
   KeyId,
   KeyLookup,
   KeyLookupFunction,
+  KeyPairAlgorithm,
   KeyPairConfig,
+  KeyVersion,
+  ReplayProtectionParams,
+  ReplayStore,
   RequiredSignatureOptions,
+  RsaPaddingScheme,
   SecretKeyConfig,
   SignatureAlgorithm,
   SignatureOptionOverrides,
   SignatureOptions,
+  SignaturePolicy,
+  SignaturePolicyType,
+  SignatureHeaders,
+  SigningTimes,
   VerificationError,
 } from './types'
-import { InternalKeyConfig, SignatureKey } from './SignatureKey'
+import { headerList, InspectOptions, InternalKeyConfig, SignatureKey, VerificationResult } from './SignatureKey'
 import { HmacSignatureKey } from './HmacSignatureKey'
+import { KeyPairSignatureKey } from './KeyPairSignatureKey'
 import { HttpMessage, MessageContext } from './MessageContext'
+import { CREATED_SLACK, EXPIRES_SLACK, Signature } from './Signature'
+import { KeyCache } from './KeyCache'
+import { createAcceptSignature, createChallenge, SignatureRequest } from './challenges'
+import { createSignedFetch, FetchFunction, SignedFetchOptions } from './fetch'
+import { FetchResponse } from './web'
 
 type ResolvedOptions = RequiredSignatureOptions & Required<SignatureOptions>
 
+/** Options for challenging a client to sign its request. */
+export type ChallengeOptions = {
+  /** The protection space given in the `WWW-Authenticate` challenge. */
+  realm?: string
+}
+
+/** Options for verifying the signature on a request. */
+export type VerifyRequestOptions = {
+  /**
+   * Whether to check the signature for replays once it has been verified, if
+   * the `replayStore` option is set. Defaults to true. Callers which verify
+   * more of the request afterwards, such as its body digest, should disable
+   * this and call `checkReplay` once the whole request has been verified, so
+   * that requests which fail those checks do not use up the signature.
+   */
+  checkReplay?: boolean
+}
+
+/** The outcome of verifying one of the signatures on a message. */
+export type SignatureVerification = {
+  signature: Signature
+  /** The key the signature was verified with, unless its keyId was not found. */
+  key?: SignatureKey
+  /** The reason verification failed, if it did. */
+  error?: VerificationError
+}
+
+/** The outcome of verifying every signature on a message against a `SignaturePolicy`. */
+export type SignaturesVerification = {
+  /** The signatures which passed verification. */
+  passed: SignatureVerification[]
+  /** The signatures which failed verification, or whose keyId was not found. */
+  failed: SignatureVerification[]
+}
+
+/** A looked-up version of a key, with the times it is valid between. */
+type KeyVersionEntry = {
+  key: SignatureKey
+  notBefore?: Date
+  notAfter?: Date
+}
+
+// Dates are limited to 8.64e15 milliseconds either side of the epoch
+const versionStart = ({ notBefore }: KeyVersionEntry): number => notBefore?.valueOf() ?? Number.MIN_SAFE_INTEGER
+
+const ANY_TRUSTED_POLICY: SignaturePolicy = Object.freeze({ type: SignaturePolicyType.ANY_TRUSTED })
+
 type RequestSignerParamsInternal = {
   keyLookup: KeyLookupFunction
-} & ResolvedOptions
+} & ResolvedOptions &
+  KeyCacheParams &
+  ReplayProtectionParams
 
 function firstDefined<T>(vals: (T | undefined)[]): T | undefined {
   for (const val of vals) {
@@ -56,15 +125,31 @@ const DEFAULT_OPTS: Required<SignatureOptions> = Object.freeze({
   requestHeaders: Object.freeze({ '(request-target)': true, host: true }),
   responseHeaders: Object.freeze({}),
   calculateDigest: true,
+  digestHeader: DigestHeader.DIGEST,
+  requestLifetime: Object.freeze({}),
+  responseLifetime: Object.freeze({}),
+  futureSkew: CREATED_SLACK / 1000,
+  expiryGrace: EXPIRES_SLACK / 1000,
+  maxAge: Infinity,
+  clock: () => new Date(),
+  nonce: false,
+  replayWindow: 300,
+  rotationGrace: 0,
 })
 
+const CLOCK_TOLERANCE_OPTIONS = ['futureSkew', 'expiryGrace', 'maxAge', 'replayWindow', 'rotationGrace'] as const
+
 export class SignatureKeyManager {
   private readonly keyLookup: KeyLookupFunction
+  private readonly replayStore?: ReplayStore
+  private readonly keyCache?: KeyCache<KeyVersionEntry[]>
   private baseSigningOptions: ResolvedOptions
 
-  private constructor({ keyLookup, ...baseSigningConfig }: RequestSignerParamsInternal) {
+  private constructor({ keyLookup, replayStore, keyCache, ...baseSigningConfig }: RequestSignerParamsInternal) {
     this.keyLookup = keyLookup
+    this.replayStore = replayStore
     this.baseSigningOptions = baseSigningConfig
+    if (keyCache) this.keyCache = new KeyCache(keyCache, baseSigningConfig.clock)
   }
 
   private getKeySigningOptions(keyId: string, overrides: SignatureOptionOverrides): ResolvedOptions {
@@ -80,22 +165,101 @@ export class SignatureKeyManager {
       }),
     ) as ResolvedOptions // above checks will ensure that resolvedOptions has all options set to definite values
 
+    for (const option of CLOCK_TOLERANCE_OPTIONS) {
+      const value = resolvedOptions[option]
+      if (typeof value !== 'number' || !(value >= 0))
+        throw new ConfigurationError(`key config for ${keyId} has invalid option ${option}: ${value}`)
+    }
+
     return resolvedOptions
   }
 
-  /** Get the corresponding SignatureKey for a keyId, throwing a VerificationError
-   * if the specified keyId was not found.
+  /**
+   * Get the SignatureKey used to sign messages for a keyId: the newest version
+   * of the key which is currently valid.
+   *
+   * Returns undefined if the keyId was not found, or none of its versions are currently valid.
    *
-   * @throws VerificationError if the specified keyId was not found
    * @throws ConfigurationError if the corresponding key has invalid configuration
    */
   async tryGetKey(keyId: KeyId): Promise<SignatureKey | undefined> {
-    let keyConfig = await this.keyLookup({ keyId })
+    const versions = await this.#getVersions(keyId)
+
+    return versions?.find((version) => SignatureKeyManager.#isValid(version, 0))?.key
+  }
+
+  /**
+   * Get every version of the key for a keyId which is currently valid for
+   * verification, newest first. This includes versions which have expired
+   * within the `rotationGrace` option.
+   *
+   * Returns an empty array if the keyId was not found.
+   *
+   * @throws ConfigurationError if the corresponding key has invalid configuration
+   */
+  async getVerificationKeys(keyId: KeyId): Promise<SignatureKey[]> {
+    return SignatureKeyManager.#verificationKeys((await this.#getVersions(keyId)) || [])
+  }
+
+  /**
+   * Forget the cached key for a keyId, so that it is looked up again on next use.
+   * Does nothing if the keyCache option was not set.
+   */
+  invalidate(keyId: KeyId): void {
+    this.keyCache?.invalidate(keyId)
+  }
+
+  /** Forget every cached key. Does nothing if the keyCache option was not set. */
+  clear(): void {
+    this.keyCache?.clear()
+  }
+
+  async #getVersions(keyId: KeyId): Promise<KeyVersionEntry[] | undefined> {
+    if (!this.keyCache) return this.#lookupVersions(keyId)
+
+    return this.keyCache.get(keyId, () => this.#lookupVersions(keyId))
+  }
+
+  static #verificationKeys(versions: KeyVersionEntry[]): SignatureKey[] {
+    return versions
+      .filter((version) => SignatureKeyManager.#isValid(version, version.key.options.rotationGrace))
+      .map(({ key }) => key)
+  }
+
+  static #isValid({ key, notBefore, notAfter }: KeyVersionEntry, grace: number): boolean {
+    const now = key.options.clock().valueOf()
+
+    return (!notBefore || notBefore.valueOf() <= now) && (!notAfter || now <= notAfter.valueOf() + grace * 1000)
+  }
 
-    if (!keyConfig) return undefined
+  async #lookupVersions(keyId: KeyId): Promise<KeyVersionEntry[] | undefined> {
+    const result = await this.keyLookup({ keyId })
 
-    const options = this.getKeySigningOptions(keyId, keyConfig)
+    if (!result) return undefined
+
+    // A single key is a version valid at all times
+    const versions: KeyVersion[] = Array.isArray(result) ? result : [result]
+    if (versions.length < 1) return undefined
+
+    const entries = versions.map(({ notBefore, notAfter, ...keyConfig }) => {
+      for (const [name, time] of Object.entries({ notBefore, notAfter })) {
+        if (time !== undefined && !(time instanceof Date && !isNaN(time.valueOf())))
+          throw new ConfigurationError(`key config for ${keyId} has invalid ${name}: ${time}`)
+      }
+      if (notBefore && notAfter && notAfter <= notBefore)
+        throw new ConfigurationError(`key config for ${keyId} has notAfter before its notBefore`)
+
+      return { key: this.#createKey(keyId, keyConfig as KeyConfig), notBefore, notAfter }
+    })
+
+    // Newest first; for versions valid from the same time, later versions take precedence
+    return entries.reverse().sort((a, b) => versionStart(b) - versionStart(a))
+  }
+
+  #createKey(keyId: KeyId, keyConfig: KeyConfig): SignatureKey {
+    const options = this.getKeySigningOptions(keyId, keyConfig.options || {})
     const secretKeyConfig = keyConfig as SecretKeyConfig
+    const keyPairConfig = keyConfig as KeyPairConfig
 
     let finalKeyConfig: InternalKeyConfig
 
@@ -111,7 +275,29 @@ export class SignatureKeyManager {
           } as InternalKeyConfig
           break
         }
-        // TODO: include rsa-sha256 and ecdsa-sha256
+        case SignatureAlgorithm.RSA_SHA256: {
+          if (!keyPairConfig.publicKey) throw new ConfigurationError(`cannot use rsa-sha256 with secret keys`)
+          finalKeyConfig = {
+            ...keyConfig,
+            digest: DigestAlgorithm.SHA256,
+            keyAlgorithm: KeyPairAlgorithm.RSA,
+            hashAlgorithm: 'sha256',
+            padding: RsaPaddingScheme.PKCS1,
+          } as InternalKeyConfig
+          break
+        }
+        case SignatureAlgorithm.ECDSA_SHA256: {
+          if (!keyPairConfig.publicKey) throw new ConfigurationError(`cannot use ecdsa-sha256 with secret keys`)
+          finalKeyConfig = {
+            ...keyConfig,
+            digest: DigestAlgorithm.SHA256,
+            keyAlgorithm: KeyPairAlgorithm.ECDSA,
+            hashAlgorithm: 'sha256',
+            dsaEncoding: DsaEncodingType.DER,
+            namedCurve: 'P-256',
+          } as InternalKeyConfig
+          break
+        }
         default:
           throw new ConfigurationError(
             `unrecognized signature algorithm requested for key '${keyId}': ${(keyConfig as any).signatureAlgorithm}`,
@@ -124,20 +310,378 @@ export class SignatureKeyManager {
     return SignatureKeyManager.#createSignatureKey(keyId, finalKeyConfig, options)
   }
 
-  /** Get the corresponding SignatureKey for a keyId, throwing a VerificationError
-   * if the specified keyId was not found.
+  /** Get the SignatureKey used to sign messages for a keyId, throwing a
+   * VerificationError if the specified keyId was not found.
    *
-   * @throws VerificationError if the specified keyId was not found
+   * @throws VerificationError if the specified keyId was not found, or has no currently valid version
    * @throws ConfigurationError if the corresponding key has invalid configuration
    */
   async getKey(keyId: KeyId): Promise<SignatureKey> {
     const key = await this.tryGetKey(keyId)
 
-    if (!key) throw new VerificationError(`key ${keyId} not found`)
+    if (!key) throw new VerificationError(`key ${keyId} not found`, ErrorCode.KEY_NOT_FOUND, { keyId })
 
     return key
   }
 
+  /**
+   * Verify the signature on a given request with the key for its keyId. Each
+   * valid version of the key is tried, as by `getVerificationKeys`. Once
+   * verified, the signature is checked for replays if the `replayStore` option
+   * is set, as by `checkReplay`.
+   *
+   * @throws VerificationError if the signature is not present, its keyId was not found, it fails verification or has been replayed
+   * @throws ConfigurationError if the corresponding key has invalid configuration
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP request to be verified.
+   * @param signature The signature to verify, if not the only signature on the request.
+   * @param options Whether to check the signature for replays.
+   * @returns The version of the key which verified the signature
+   */
+  async verifyRequest(
+    msgCtx: MessageContext,
+    signature?: Signature,
+    { checkReplay = true }: VerifyRequestOptions = {},
+  ): Promise<SignatureKey> {
+    return this.#verifyOne(msgCtx, signature, (key, signature) => key.verifyRequest(msgCtx, signature), checkReplay)
+  }
+
+  /**
+   * Verify the signature on a given response with the key for its keyId.
+   *
+   * @see verifyRequest
+   */
+  async verifyResponse(msgCtx: MessageContext, signature?: Signature): Promise<SignatureKey> {
+    return this.#verifyOne(msgCtx, signature, (key, signature) => key.verifyResponse(msgCtx, signature))
+  }
+
+  /**
+   * Inspect the signature on a given request with the key for its keyId,
+   * reporting the outcome of each check instead of throwing. Each valid version
+   * of the key is tried; if none passes, the result for the newest is returned.
+   *
+   * Signatures are not checked for replays, even if the `replayStore` option is
+   * set, as inspecting a request must not use up its signature. Requests to be
+   * accepted should be verified with `verifyRequest` instead.
+   *
+   * @see SignatureKey.inspectRequest
+   *
+   * @throws ConfigurationError if the corresponding key has invalid configuration
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP request to be inspected.
+   * @param options The signature to inspect and the body of the request.
+   */
+  async verifyRequestDetailed(msgCtx: MessageContext, options: InspectOptions = {}): Promise<VerificationResult> {
+    return this.#inspectOne(msgCtx, options, (key, options) => key.inspectRequest(msgCtx, options))
+  }
+
+  /**
+   * Inspect the signature on a given response with the key for its keyId.
+   *
+   * @see verifyRequestDetailed
+   */
+  async verifyResponseDetailed(msgCtx: MessageContext, options: InspectOptions = {}): Promise<VerificationResult> {
+    return this.#inspectOne(msgCtx, options, (key, options) => key.inspectResponse(msgCtx, options))
+  }
+
+  async #inspectOne(
+    msgCtx: MessageContext,
+    options: InspectOptions,
+    inspect: (key: SignatureKey, options: InspectOptions) => VerificationResult,
+  ): Promise<VerificationResult> {
+    let signature = options.signature
+    try {
+      signature = signature || msgCtx.getSignature(this.baseSigningOptions.clock())
+    } catch (e) {
+      if (!(e instanceof VerificationError)) throw e
+      return { verified: false, components: [], failures: [e] }
+    }
+    if (!signature)
+      return {
+        verified: false,
+        components: [],
+        failures: [new VerificationError('signature not present on message', ErrorCode.SIGNATURE_MISSING)],
+      }
+
+    const versions = await this.#getVersions(signature.keyId)
+    const keys = versions ? SignatureKeyManager.#verificationKeys(versions) : []
+    if (keys.length < 1) {
+      const message = versions ? 'has no currently valid version' : 'not found'
+      const { keyId, headers, created, expires } = signature
+      return {
+        verified: false,
+        keyId,
+        algorithm: signature.input?.algorithm || signature.signatureAlgorithm,
+        components: [...headers],
+        created,
+        expires,
+        failures: [
+          new VerificationError(
+            `key ${keyId} ${message}`,
+            versions ? ErrorCode.KEY_NOT_VALID : ErrorCode.KEY_NOT_FOUND,
+            { keyId },
+          ),
+        ],
+      }
+    }
+
+    const results = keys.map((key) => inspect(key, { ...options, signature }))
+
+    return results.find(({ verified }) => verified) || results[0]
+  }
+
+  async #verifyOne(
+    msgCtx: MessageContext,
+    signature: Signature | undefined,
+    verify: (key: SignatureKey, signature: Signature) => boolean,
+    checkReplay = false,
+  ): Promise<SignatureKey> {
+    const refSig = signature || msgCtx.getSignature(this.baseSigningOptions.clock())
+    if (!refSig) throw new VerificationError('signature not present on message', ErrorCode.SIGNATURE_MISSING)
+
+    const { key, error } = await this.#verifySignature(refSig, verify)
+    if (error) throw error
+
+    if (checkReplay) await this.checkReplay(key as SignatureKey, refSig)
+
+    return key as SignatureKey
+  }
+
+  async #verifySignature(
+    signature: Signature,
+    verify: (key: SignatureKey, signature: Signature) => boolean,
+  ): Promise<SignatureVerification> {
+    const versions = await this.#getVersions(signature.keyId)
+    if (!versions)
+      return {
+        signature,
+        error: new VerificationError(`key ${signature.keyId} not found`, ErrorCode.KEY_NOT_FOUND, {
+          keyId: signature.keyId,
+        }),
+      }
+
+    const keys = SignatureKeyManager.#verificationKeys(versions)
+    if (keys.length < 1)
+      return {
+        signature,
+        error: new VerificationError(`key ${signature.keyId} has no currently valid version`, ErrorCode.KEY_NOT_VALID, {
+          keyId: signature.keyId,
+        }),
+      }
+
+    // The failure from the newest version is reported if no version passes
+    let failure: SignatureVerification | undefined
+    for (const key of keys) {
+      try {
+        verify(key, signature)
+        return { signature, key }
+      } catch (e) {
+        if (!(e instanceof VerificationError)) throw e
+        failure ??= { signature, key, error: e }
+      }
+    }
+
+    return failure as SignatureVerification
+  }
+
+  /**
+   * Verify every signature present on a given request, such as when proxies
+   * add their own signatures, according to `policy`.
+   *
+   * Each signature is verified with the key for its keyId, as by
+   * `verifyRequest`. Signatures whose keyId is not found fail
+   * verification, but do not cause an error unless the policy requires them.
+   * Once the policy is satisfied, each signature which passed is checked for
+   * replays if the `replayStore` option is set.
+   *
+   * @throws VerificationError if no signatures are present, the signatures do not satisfy the policy, or any have been replayed
+   * @throws ConfigurationError if the key for any of the signatures has invalid configuration
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP request to be verified.
+   * @param policy Which signatures must pass verification. By default, any signature from a known key.
+   */
+  async verifyRequestSignatures(
+    msgCtx: MessageContext,
+    policy: SignaturePolicy = ANY_TRUSTED_POLICY,
+  ): Promise<SignaturesVerification> {
+    return this.#verifySignatures(msgCtx, policy, (key, signature) => key.verifyRequest(msgCtx, signature), true)
+  }
+
+  /**
+   * Verify every signature present on a given response according to `policy`.
+   *
+   * @see verifyRequestSignatures
+   */
+  async verifyResponseSignatures(
+    msgCtx: MessageContext,
+    policy: SignaturePolicy = ANY_TRUSTED_POLICY,
+  ): Promise<SignaturesVerification> {
+    return this.#verifySignatures(msgCtx, policy, (key, signature) => key.verifyResponse(msgCtx, signature))
+  }
+
+  async #verifySignatures(
+    msgCtx: MessageContext,
+    policy: SignaturePolicy,
+    verify: (key: SignatureKey, signature: Signature) => boolean,
+    checkReplay = false,
+  ): Promise<SignaturesVerification> {
+    const signatures = msgCtx.getSignatures(this.baseSigningOptions.clock())
+    if (signatures.length < 1)
+      throw new VerificationError('signature not present on message', ErrorCode.SIGNATURE_MISSING)
+
+    const results = await Promise.all(signatures.map((signature) => this.#verifySignature(signature, verify)))
+
+    const passed = results.filter((result) => !result.error)
+    const failed = results.filter((result) => result.error)
+
+    switch (policy.type) {
+      case SignaturePolicyType.ANY_TRUSTED:
+        if (passed.length < 1)
+          throw new VerificationError(
+            'no signature from a trusted key passed verification',
+            ErrorCode.POLICY_NOT_SATISFIED,
+          )
+        break
+      case SignaturePolicyType.ALL_PRESENT:
+        if (failed.length > 0)
+          throw new VerificationError(
+            `signatures failed verification: ${failed.map(({ signature }) => signature.keyId).join(', ')}`,
+            ErrorCode.POLICY_NOT_SATISFIED,
+            { keyIds: failed.map(({ signature }) => signature.keyId) },
+          )
+        break
+      case SignaturePolicyType.REQUIRED_KEYS: {
+        if (policy.keyIds.length < 1) throw new ConfigurationError('signature policy requires no keys')
+
+        const passedKeyIds = new Set(passed.map(({ signature }) => signature.keyId))
+        const missingKeyIds = policy.keyIds.filter((keyId) => !passedKeyIds.has(keyId))
+        if (missingKeyIds.length > 0)
+          throw new VerificationError(
+            `signatures from required keys did not pass verification: ${missingKeyIds.join(', ')}`,
+            ErrorCode.POLICY_NOT_SATISFIED,
+            { keyIds: missingKeyIds },
+          )
+        break
+      }
+      default: {
+        const unknown: never = policy
+        throw new ConfigurationError(`unrecognized signature policy ${(unknown as { type: string }).type}`)
+      }
+    }
+
+    if (checkReplay) {
+      for (const { key, signature } of passed) await this.checkReplay(key as SignatureKey, signature)
+    }
+
+    return { passed, failed }
+  }
+
+  /**
+   * Check that a signature has not been seen before, and remember it until it
+   * would no longer pass verification. This must only be called after the
+   * signature has been verified with `key`, and does nothing if no replayStore
+   * was configured. `verifyRequest` and `verifyRequestSignatures` already
+   * check request signatures for replays, unless `verifyRequest` is told not to.
+   *
+   * @throws VerificationError if the signature has already been seen
+   *
+   * @param key The key the signature was verified with
+   * @param signature The verified signature
+   */
+  async checkReplay(key: SignatureKey, signature: Signature): Promise<void> {
+    if (!this.replayStore) return
+
+    const unseen = await this.replayStore.checkAndRemember(key.replayId(signature), key.replayTtl(signature))
+    if (!unseen)
+      throw new VerificationError('signature has already been used', ErrorCode.SIGNATURE_REPLAYED, {
+        keyId: signature.keyId,
+      })
+  }
+
+  /**
+   * Create the headers challenging a client to sign its request, for responses
+   * to requests which failed verification. The challenge lists the headers
+   * required by the `requestHeaders` option.
+   *
+   * A `WWW-Authenticate: Signature` challenge is always produced. For RFC 9421
+   * signatures, an `Accept-Signature` header is also produced, which requests
+   * the creation and expiry times where the `requestLifetime` option signs them.
+   *
+   * @throws ConfigurationError if the realm or a required header cannot be represented
+   */
+  createChallenge({ realm }: ChallengeOptions = {}): ChallengeHeaders {
+    const { requestHeaders, requestLifetime, version } = this.baseSigningOptions
+    const isRequired = (header: string) => requestHeaders[header] === true || requestHeaders[header] === 'verify'
+
+    const request: SignatureRequest = {
+      components: headerList(requestHeaders, 'verify', version),
+      ...(realm !== undefined && { realm }),
+    }
+    const headers: ChallengeHeaders = { 'www-authenticate': createChallenge(request) }
+
+    if (version === HttpSigVersion.RFC_9421) {
+      const created = !!requestLifetime.created || isRequired('(created)')
+      const expires = requestLifetime.ttl !== undefined || isRequired('(expires)')
+      headers['accept-signature'] = createAcceptSignature([
+        { ...request, ...(created && { created }), ...(expires && { expires }) },
+      ])
+    }
+
+    return headers
+  }
+
+  /**
+   * Sign a request as requested by the server, such as in a challenge read
+   * with `readSignatureRequests`, using the given keyId. The server cannot
+   * choose which key is used: if it requested another keyId, the request is
+   * not signed.
+   *
+   * @see SignatureKey.signRequestFor
+   *
+   * @throws VerificationError if the keyId was not found, or any headers to sign are not set on the request
+   * @throws ConfigurationError if the server requested another keyId, or the key cannot produce the requested signature
+   *
+   * @param msgCtx MessageContext wrapper around the HTTP request to be signed.
+   * @param request The signature requested by the server.
+   * @param keyId The keyId to sign with.
+   * @param times Explicit creation and expiry times for the signature.
+   */
+  async signRequestFor(
+    msgCtx: MessageContext,
+    request: SignatureRequest,
+    keyId: KeyId,
+    times?: SigningTimes,
+  ): Promise<SignatureHeaders> {
+    if (request.keyId !== undefined && request.keyId !== keyId)
+      throw new ConfigurationError(`signature requested for key '${request.keyId}', not '${keyId}'`)
+
+    const key = await this.getKey(keyId)
+
+    return key.signRequestFor(msgCtx, request, times)
+  }
+
+  /**
+   * Create a `fetch` function which signs requests with the given keyId before
+   * sending them, for calling services which verify signatures.
+   *
+   * The request body is digested if the `calculateDigest` option is set, and the
+   * headers given by the `requestHeaders` option are signed. The `host` header is
+   * taken from the URL unless given. Bodies must be given as strings or bytes so
+   * that the digest covers the bytes sent, and are read from a copy when given as
+   * part of a `Request`.
+   *
+   * If the `verifyResponse` option is set, the signature on each response is
+   * verified along with its body digest, and a `ResponseVerificationError` is
+   * thrown if verification fails.
+   *
+   * @throws ConfigurationError if no fetch implementation is given and there is no global `fetch`
+   *
+   * @param options The keyId to sign with, and the fetch implementation to wrap.
+   */
+  createFetch<R extends FetchResponse = FetchResponse>(options: SignedFetchOptions<R>): FetchFunction<R> {
+    return createSignedFetch(this, options)
+  }
+
   /**
    * Create a new instance of the `SignatureKeyManager` from the given `config`.
    *
@@ -153,7 +697,7 @@ export class SignatureKeyManager {
     const fixedKeyVariant = config as FixedKey & { digest?: DigestAlgorithm }
     const keyLookupVariant = config as KeyLookup
 
-    if (config.version !== HttpSigVersion.DRAFT_CAVAGE_12)
+    if (!Object.values(HttpSigVersion).includes(config.version))
       throw new ConfigurationError(`unsupported signature version ${config.version}`)
 
     let modifiedConfig
@@ -162,13 +706,13 @@ export class SignatureKeyManager {
 
       let { keyId, digest, ...baseStrippedConfig } = fixedKeyVariant
       const secretKeyConfig = baseStrippedConfig as SecretKeyConfig
-      const keyPairConfig = baseStrippedConfig as KeyPairConfig
+      const keyPairConfig = baseStrippedConfig as KeyPairConfig & { hashAlgorithm?: string }
 
       let strippedConfig
       if (secretKeyConfig.algorithm) {
         let { algorithm, key, ...newStrippedConfig } = secretKeyConfig
         strippedConfig = newStrippedConfig
-      } else if (keyPairConfig.keyAlgorithm) {
+      } else if (keyPairConfig.publicKey) {
         let { keyAlgorithm, hashAlgorithm, publicKey, privateKey, ...newStrippedConfig } = keyPairConfig
         strippedConfig = newStrippedConfig
       } else {
@@ -185,13 +729,13 @@ export class SignatureKeyManager {
     if (!modifiedConfig?.keyLookup)
       throw new ConfigurationError('either a fixed {keyId, key} or a key lookup function must be provided')
 
-    const finalConfig = { ...DEFAULT_OPTS, ...modifiedConfig }
+    const finalConfig = { ...DEFAULT_OPTS, ...modifiedConfig, version: config.version }
 
     return new SignatureKeyManager(finalConfig)
   }
 
   // Ideally this would live on SignatureKey, but that introduces a
-  // circular reference between SignatureKey and HmacSignatureKey.
+  // circular reference between SignatureKey and its subclasses.
   static #createSignatureKey(id: string, config: InternalKeyConfig, options: ConcreteSignatureOptions): SignatureKey {
     const hasher = SignatureKey.createDigestFactory(config.digest)
 
@@ -205,8 +749,11 @@ export class SignatureKeyManager {
 
       throw new ConfigurationError(`unsupported signing algorithm ${secretKeyConfig.algorithm}`)
     } else if (keyPairConfig.keyAlgorithm) {
-      // TODO: allow constructing keyPairConfig objects
-      throw new ConfigurationError('key pair algorithms are not yet supported')
+      if (Object.values(KeyPairAlgorithm).includes(keyPairConfig.keyAlgorithm)) {
+        return new KeyPairSignatureKey(id, hasher, config.signatureAlgorithm, config.digest, keyPairConfig, options)
+      }
+
+      throw new ConfigurationError(`unsupported key pair algorithm ${keyPairConfig.keyAlgorithm}`)
     } else {
       throw new ConfigurationError('got unrecognized key configuration object')
     }
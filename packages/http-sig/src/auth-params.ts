@@ -0,0 +1,291 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { ConfigurationError, ErrorCode, VerificationError } from './types'
+
+/*
+ * Parser and serializer for HTTP authentication parameters (RFC 9110, section 11),
+ * as used in `WWW-Authenticate` challenges and draft-cavage Signature headers.
+ *
+ * Parameter names are case-insensitive. Values may be tokens or quoted strings,
+ * and are returned with any quoting and escaping removed. Optional whitespace is
+ * permitted around `=` and `,`, and empty list elements are ignored, as required
+ * of recipients of list-based fields, unless parsing strictly.
+ */
+
+const MSG_MALFORMED = 'malformed authentication parameters'
+const MSG_MISSING_EQUALS = 'missing `=` in field'
+
+const TOKEN_CHARS = /[!#$%&'*+\-.^_`|~0-9A-Za-z]/
+const TOKEN_REGEX = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/
+const TOKEN68_REGEX = /[A-Za-z0-9\-._~+/]+=*/y
+
+/** A single authentication parameter. */
+export type AuthParam = {
+  /** The parameter name, as given in the header. */
+  name: string
+  value: string
+  /** Whether the value was given as a quoted string rather than a token. */
+  quoted: boolean
+}
+
+/** Authentication parameters, keyed by lowercase parameter name. */
+export type AuthParams = Map<string, string>
+
+/** A challenge from a `WWW-Authenticate` header. */
+export type Challenge = {
+  /** The authentication scheme, as given in the header. Schemes are case-insensitive. */
+  scheme: string
+  /** The token68 credentials of the challenge, for schemes which use them instead of parameters. */
+  token68?: string
+  params: AuthParams
+}
+
+/** Options for parsing a list of authentication parameters. */
+export type AuthParamListOptions = {
+  /** Whether to reject empty list elements, such as leading, trailing or repeated commas. */
+  strict?: boolean
+  /** The message of errors for malformed input. */
+  message?: string
+  /** The code of errors for malformed input. */
+  code?: ErrorCode
+}
+
+class Parser {
+  private pos = 0
+
+  constructor(
+    private readonly input: string,
+    private readonly message = MSG_MALFORMED,
+    private readonly code = ErrorCode.MALFORMED_HEADER,
+  ) {}
+
+  private get done(): boolean {
+    return this.pos >= this.input.length
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.pos]
+  }
+
+  private skipWhitespace() {
+    while (this.peek() === ' ' || this.peek() === '\t') this.pos++
+  }
+
+  // Skip the separators between list elements, including any empty elements
+  private skipSeparators() {
+    this.skipWhitespace()
+    while (this.peek() === ',') {
+      this.pos++
+      this.skipWhitespace()
+    }
+  }
+
+  private fail(detail?: string): never {
+    throw new VerificationError(detail ? `${this.message} (${detail})` : this.message, this.code)
+  }
+
+  /** Parse the full input as a list of authentication parameters, in the order given. */
+  parseParamList(strict: boolean): AuthParam[] {
+    const params: AuthParam[] = []
+
+    if (strict) this.skipWhitespace()
+    else this.skipSeparators()
+    while (!this.done) {
+      params.push(this.parseParam())
+      this.skipWhitespace()
+      if (this.done) break
+      if (this.peek() !== ',') this.fail()
+
+      if (strict) {
+        this.pos++
+        this.skipWhitespace()
+        // Empty elements are missing their parameter
+        if (this.done) this.fail(MSG_MISSING_EQUALS)
+      } else {
+        this.skipSeparators()
+      }
+    }
+
+    return params
+  }
+
+  /** Parse the full input as a list of challenges. */
+  parseChallenges(): Challenge[] {
+    const challenges: Challenge[] = []
+
+    this.skipSeparators()
+    while (!this.done) {
+      challenges.push(this.parseChallenge())
+      this.skipSeparators()
+    }
+
+    return challenges
+  }
+
+  private parseChallenge(): Challenge {
+    const challenge: Challenge = { scheme: this.parseToken(), params: new Map() }
+    const addParam = () => setParam(challenge.params, this.parseParam())
+
+    if (this.done || this.peek() === ',') return challenge
+    if (this.peek() !== ' ') this.fail()
+    this.skipWhitespace()
+
+    // token68 is only present alone, so must be followed by the end of the challenge
+    TOKEN68_REGEX.lastIndex = this.pos
+    const token68 = TOKEN68_REGEX.exec(this.input)
+    if (token68 && /^[ \t]*(,|$)/.test(this.input.slice(this.pos + token68[0].length))) {
+      this.pos += token68[0].length
+      return { ...challenge, token68: token68[0] }
+    }
+
+    addParam()
+    for (;;) {
+      const start = this.pos
+      this.skipWhitespace()
+      if (this.done) return challenge
+      if (this.peek() !== ',') this.fail()
+
+      // The next element is either another parameter or the start of the next challenge
+      this.skipSeparators()
+      if (this.done || !this.isParamAt(this.pos)) {
+        this.pos = start
+        return challenge
+      }
+      addParam()
+    }
+  }
+
+  // Whether the input at pos is a parameter name followed by `=`
+  private isParamAt(pos: number): boolean {
+    let end = pos
+    while (end < this.input.length && TOKEN_CHARS.test(this.input[end])) end++
+    if (end === pos) return false
+    while (this.input[end] === ' ' || this.input[end] === '\t') end++
+    return this.input[end] === '='
+  }
+
+  private parseParam(): AuthParam {
+    if (!this.isParamAt(this.pos)) this.fail(MSG_MISSING_EQUALS)
+    const name = this.parseToken()
+    this.skipWhitespace()
+    this.pos++
+    this.skipWhitespace()
+
+    const quoted = this.peek() === '"'
+    const value = quoted ? this.parseQuotedString() : this.parseToken()
+
+    return { name, value, quoted }
+  }
+
+  private parseToken(): string {
+    const start = this.pos
+    while (!this.done && TOKEN_CHARS.test(this.input[this.pos])) this.pos++
+    if (this.pos === start) this.fail()
+
+    return this.input.slice(start, this.pos)
+  }
+
+  private parseQuotedString(): string {
+    let out = ''
+    this.pos++
+
+    while (!this.done) {
+      const char = this.input[this.pos++]
+      if (char === '\\') {
+        if (this.done) this.fail()
+        const escaped = this.input[this.pos++]
+        if (!isQuotedText(escaped) && escaped !== '"' && escaped !== '\\') this.fail()
+        out += escaped
+      } else if (char === '"') {
+        return out
+      } else if (!isQuotedText(char)) {
+        this.fail()
+      } else {
+        out += char
+      }
+    }
+
+    this.fail()
+  }
+}
+
+// Characters permitted in quoted strings without escaping: HTAB, SP, VCHAR except `"` and `\`, and obs-text
+const isQuotedText = (char: string): boolean =>
+  char === '\t' || (char >= ' ' && char !== '"' && char !== '\\' && char !== '\x7f' && char <= '\xff')
+
+function setParam(params: AuthParams, { name, value }: AuthParam) {
+  const key = name.toLowerCase()
+  if (params.has(key)) throw new VerificationError(`duplicated parameter ${name} present`, ErrorCode.MALFORMED_HEADER)
+  params.set(key, value)
+}
+
+/**
+ * Parse a list of authentication parameters, returning each parameter in the
+ * order given. Duplicate parameters are not detected.
+ *
+ * @throws VerificationError if the parameters are malformed
+ */
+export function parseAuthParamList(
+  input: string,
+  { strict = false, message, code }: AuthParamListOptions = {},
+): AuthParam[] {
+  return new Parser(input, message, code).parseParamList(strict)
+}
+
+/**
+ * Parse a list of authentication parameters, such as the parameters of a challenge.
+ *
+ * @throws VerificationError if the parameters are malformed, or a parameter is given more than once
+ */
+export function parseAuthParams(input: string): AuthParams {
+  const params: AuthParams = new Map()
+  for (const param of parseAuthParamList(input)) setParam(params, param)
+
+  return params
+}
+
+/**
+ * Parse the challenges of a `WWW-Authenticate` header.
+ *
+ * @param input The header value. Multiple header lines must be combined with `, ` first.
+ * @throws VerificationError if the header is malformed
+ */
+export function parseChallenges(input: string): Challenge[] {
+  return new Parser(input).parseChallenges()
+}
+
+/**
+ * Serialize authentication parameters. String values are always serialized as
+ * quoted strings, and numbers are serialized as tokens.
+ *
+ * @throws ConfigurationError if a name is not a token, or a value cannot be represented
+ */
+export function serializeAuthParams(params: [string, string | number][]): string {
+  return params
+    .map(([name, value]) => {
+      if (!TOKEN_REGEX.test(name)) throw new ConfigurationError(`invalid authentication parameter name: ${name}`)
+      if (typeof value === 'number') {
+        if (!Number.isFinite(value) || value < 0)
+          throw new ConfigurationError(`invalid authentication parameter value: ${value}`)
+        return `${name}=${value}`
+      }
+      if ([...value].some((char) => char !== '"' && char !== '\\' && !isQuotedText(char)))
+        throw new ConfigurationError(`authentication parameter ${name} contains invalid characters`)
+
+      return `${name}="${value.replace(/[\\"]/g, '\\$&')}"`
+    })
+    .join(',')
+}
+
+/**
+ * Serialize an authentication scheme and its parameters, as used for challenges
+ * in the `WWW-Authenticate` header and credentials in the `Authorization` header.
+ *
+ * @throws ConfigurationError if the scheme or a parameter cannot be represented
+ */
+export function serializeAuthHeader(scheme: string, params: [string, string | number][]): string {
+  if (!TOKEN_REGEX.test(scheme)) throw new ConfigurationError(`invalid authentication scheme: ${scheme}`)
+
+  return params.length > 0 ? `${scheme} ${serializeAuthParams(params)}` : scheme
+}
@@ -0,0 +1,170 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { ErrorCode, KeyId, VerificationError } from './types'
+import { parseChallenges, serializeAuthHeader } from './auth-params'
+import { componentToString, parseComponentIdentifier, SIGNATURE_SCHEME } from './Signature'
+import { BareItem, isInnerList, Parameters, parseDictionary, serializeDictionary } from './structured-fields'
+
+/**
+ * A request for the signature a server expects on messages, as described by a
+ * `WWW-Authenticate: Signature` challenge or a member of an RFC 9421
+ * `Accept-Signature` header.
+ */
+export type SignatureRequest = {
+  /** The headers and derived components which the signature must cover. */
+  components: string[]
+  /** The protection space of a `WWW-Authenticate` challenge. */
+  realm?: string
+  /** The RFC 9421 label to give the signature. */
+  label?: string
+  /** The keyId the signature must be made with. */
+  keyId?: KeyId
+  /** The signature algorithms which are accepted; any algorithm is accepted if unset. */
+  algorithms?: string[]
+  /** Whether the signature must include its creation time. */
+  created?: boolean
+  /** Whether the signature must include its expiry time. */
+  expires?: boolean
+  /** The RFC 9421 nonce the signature must include. */
+  nonce?: string
+  /** The RFC 9421 application-specific tag the signature must include. */
+  tag?: string
+}
+
+/** The headers of a response which may request a signature, keyed by header name. */
+export type ChallengeResponseHeaders = { [header: string]: string | string[] | number | undefined }
+
+/**
+ * Create the value of a `WWW-Authenticate` header challenging the client to sign
+ * its request, in the form described by draft-cavage:
+ * `Signature realm="Example",headers="(request-target) date"`.
+ *
+ * @throws ConfigurationError if the realm, a component or an algorithm cannot be represented
+ */
+export function createChallenge({ realm, components, algorithms }: SignatureRequest): string {
+  const params: [string, string][] = []
+  if (realm !== undefined) params.push(['realm', realm])
+  if (components.length > 0) params.push(['headers', components.join(' ')])
+  if (algorithms && algorithms.length > 0) params.push(['algorithms', algorithms.join(' ')])
+
+  return serializeAuthHeader(SIGNATURE_SCHEME, params)
+}
+
+/**
+ * Find the signature challenges in the value of a `WWW-Authenticate` header.
+ * Challenges for other authentication schemes are ignored.
+ *
+ * @param header The header value. Multiple header lines must be combined with `, ` first.
+ * @throws VerificationError if the header is malformed
+ */
+export function parseChallenge(header: string): SignatureRequest[] {
+  const splitList = (value: string | undefined) => value?.split(' ').filter((entry) => entry.length > 0)
+
+  return parseChallenges(header)
+    .filter(({ scheme }) => scheme.toLowerCase() === SIGNATURE_SCHEME.toLowerCase())
+    .map(({ params }) => {
+      const realm = params.get('realm')
+      const algorithms = splitList(params.get('algorithms'))
+
+      return {
+        // Header names are case-insensitive, but derived components are not
+        components: (splitList(params.get('headers')) || []).map((component) =>
+          component.startsWith('@') ? component : component.toLowerCase(),
+        ),
+        ...(realm !== undefined && { realm }),
+        ...(algorithms && { algorithms }),
+      }
+    })
+}
+
+/**
+ * Create the value of an RFC 9421 `Accept-Signature` header, with a member for
+ * each requested signature. Each request is given the label `sig1`, `sig2` and so
+ * on unless it has its own label, and may only name a single algorithm.
+ *
+ * @throws ConfigurationError if a request cannot be represented
+ */
+export function createAcceptSignature(requests: SignatureRequest[]): string {
+  const dictionary = new Map(
+    requests.map((request, i) => {
+      const items = request.components.map((component) => {
+        const { name, params } = parseComponentIdentifier(component)
+        return { value: name, params }
+      })
+
+      const params: Parameters = new Map<string, BareItem>()
+      if (request.created) params.set('created', true)
+      if (request.expires) params.set('expires', true)
+      if (request.keyId !== undefined) params.set('keyid', request.keyId)
+      if (request.algorithms?.length === 1) params.set('alg', request.algorithms[0])
+      if (request.nonce !== undefined) params.set('nonce', request.nonce)
+      if (request.tag !== undefined) params.set('tag', request.tag)
+
+      return [request.label || `sig${i + 1}`, { items, params }]
+    }),
+  )
+
+  return serializeDictionary(dictionary)
+}
+
+const getParamString = (params: Parameters, name: string): string | undefined => {
+  const value = params.get(name)
+  if (value !== undefined && typeof value !== 'string')
+    throw new VerificationError(`malformed ${name} parameter in accept-signature header`, ErrorCode.MALFORMED_HEADER)
+  return value
+}
+
+/**
+ * Parse the requested signatures from the value of an RFC 9421 `Accept-Signature` header.
+ *
+ * @param header The header value. Multiple header lines must be combined with `, ` first.
+ * @throws VerificationError if the header is malformed
+ */
+export function parseAcceptSignature(header: string): SignatureRequest[] {
+  return [...parseDictionary(header).entries()].map(([label, member]) => {
+    if (!isInnerList(member))
+      throw new VerificationError('malformed accept-signature header', ErrorCode.MALFORMED_HEADER)
+
+    const keyId = getParamString(member.params, 'keyid')
+    const algorithm = getParamString(member.params, 'alg')
+    const nonce = getParamString(member.params, 'nonce')
+    const tag = getParamString(member.params, 'tag')
+
+    return {
+      components: member.items.map(componentToString),
+      label,
+      ...(keyId !== undefined && { keyId }),
+      ...(algorithm !== undefined && { algorithms: [algorithm] }),
+      ...(member.params.has('created') && { created: true }),
+      ...(member.params.has('expires') && { expires: true }),
+      ...(nonce !== undefined && { nonce }),
+      ...(tag !== undefined && { tag }),
+    }
+  })
+}
+
+/**
+ * Read the signatures requested by the headers of a response, such as a 401
+ * response to an unsigned request. Requests from an `Accept-Signature` header
+ * are returned first, followed by any `WWW-Authenticate: Signature` challenges.
+ *
+ * @param headers The headers of the response. Header names are matched case-insensitively.
+ * @throws VerificationError if either header is malformed
+ */
+export function readSignatureRequests(headers: ChallengeResponseHeaders): SignatureRequest[] {
+  const getHeader = (name: string): string | undefined => {
+    const values = Object.entries(headers)
+      .filter(([header, value]) => header.toLowerCase() === name && value !== undefined)
+      .flatMap(([, value]) => value)
+    return values.length > 0 ? values.join(', ') : undefined
+  }
+
+  const acceptSignature = getHeader('accept-signature')
+  const wwwAuthenticate = getHeader('www-authenticate')
+
+  return [
+    ...(acceptSignature !== undefined ? parseAcceptSignature(acceptSignature) : []),
+    ...(wwwAuthenticate !== undefined ? parseChallenge(wwwAuthenticate) : []),
+  ]
+}
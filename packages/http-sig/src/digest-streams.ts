@@ -0,0 +1,161 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { ConfigurationError } from './types'
+import * as crypto from 'crypto'
+import { Transform, TransformCallback } from 'stream'
+
+/** A chunk of an HTTP message body. Strings are encoded as UTF-8. */
+export type BodyChunk = Buffer | Uint8Array | string
+
+type WebReadResult<R> = { done: false; value: R } | { done: true; value?: undefined }
+
+/**
+ * The parts of a WHATWG `ReadableStream` used for digests. The DOM typings
+ * are not available to this package, so only the members used are listed.
+ */
+export interface WebReadableStream<R> {
+  getReader(): {
+    read(): Promise<WebReadResult<R>>
+    cancel(reason?: unknown): Promise<void>
+    releaseLock(): void
+  }
+}
+
+type WebReadableStreamConstructor = new <R>(source: {
+  pull(controller: { enqueue(chunk: R): void; close(): void }): Promise<void>
+  cancel(reason?: unknown): Promise<void>
+}) => WebReadableStream<R>
+
+/** A body which can be digested incrementally: a Node.js `Readable`, any async iterable, or a Web `ReadableStream`. */
+export type DigestSource = AsyncIterable<BodyChunk> | WebReadableStream<BodyChunk>
+
+const toBuffer = (chunk: BodyChunk): Buffer =>
+  typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+
+async function* readWebStream<R>(stream: WebReadableStream<R>): AsyncGenerator<R> {
+  const reader = stream.getReader()
+  let done = false
+
+  try {
+    while (!done) {
+      const result = await reader.read()
+      done = result.done
+      if (!result.done) yield result.value
+    }
+  } finally {
+    // Consumers which stop early no longer want the rest of the stream
+    if (!done) await reader.cancel()
+    reader.releaseLock()
+  }
+}
+
+function toAsyncIterable(source: DigestSource): AsyncIterable<BodyChunk> {
+  if (Symbol.asyncIterator in source) return source as AsyncIterable<BodyChunk>
+  if (typeof (source as WebReadableStream<BodyChunk>).getReader === 'function')
+    return readWebStream(source as WebReadableStream<BodyChunk>)
+
+  throw new ConfigurationError('body must be an async iterable or ReadableStream')
+}
+
+/**
+ * Read the whole of `source`, returning its digest.
+ *
+ * @param source The body to digest
+ * @param hash A fresh hash for the digest algorithm
+ */
+export async function digestSource(source: DigestSource, hash: crypto.Hash): Promise<Buffer> {
+  for await (const chunk of toAsyncIterable(source)) hash.update(toBuffer(chunk))
+
+  return hash.digest()
+}
+
+/**
+ * Feed every chunk of `source` into `hash`, passing the chunks through as
+ * Buffers. Once the source is exhausted, `finish` is called with the digest;
+ * any error it throws is raised to the consumer after the final chunk.
+ *
+ * @param source The body to digest
+ * @param hash A fresh hash for the digest algorithm
+ * @param finish Called with the digest of the whole body
+ */
+export async function* digestChunks(
+  source: DigestSource,
+  hash: crypto.Hash,
+  finish: (digest: Buffer) => void,
+): AsyncGenerator<Buffer, void, undefined> {
+  for await (const chunk of toAsyncIterable(source)) {
+    const buf = toBuffer(chunk)
+    hash.update(buf)
+    yield buf
+  }
+
+  finish(hash.digest())
+}
+
+/**
+ * Create a Web `ReadableStream` producing the chunks of an async iterator.
+ * Errors raised by the iterator error the stream.
+ *
+ * @throws ConfigurationError if the runtime does not provide Web streams
+ */
+export function toWebStream(source: AsyncIterator<Uint8Array>): WebReadableStream<Uint8Array> {
+  const ReadableStream = (globalThis as { ReadableStream?: WebReadableStreamConstructor }).ReadableStream
+  if (!ReadableStream) throw new ConfigurationError('Web streams are not supported by this runtime')
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const result = await source.next()
+      if (result.done) controller.close()
+      else controller.enqueue(result.value)
+    },
+    async cancel(reason) {
+      await source.return?.(reason)
+    },
+  })
+}
+
+/**
+ * A pass-through stream which digests the data passing through it.
+ *
+ * When verifying a digest, the stream fails with the verification error once
+ * all of its data has passed through. Consumers must therefore not act on the
+ * data until the stream has finished successfully.
+ *
+ * You should not create instances of DigestTransform yourself; use
+ * `SignatureKey.createDigestTransform` or `SignatureKey.verifyDigestTransform`.
+ */
+export class DigestTransform extends Transform {
+  /**
+   * Resolves to the digest header value for the data which passed through the
+   * stream once it has ended, or rejects if the stream fails first.
+   */
+  readonly digestHeader: Promise<string>
+  #resolve!: (digestHeader: string) => void
+
+  constructor(private readonly hash: crypto.Hash, private readonly finish: (digest: Buffer) => string) {
+    super()
+
+    this.digestHeader = new Promise((resolve, reject) => {
+      this.#resolve = resolve
+      this.once('error', reject)
+      this.once('close', () => reject(new Error('stream closed before the digest was complete')))
+    })
+    // The stream reports its own errors, so the promise need not be awaited
+    this.digestHeader.catch(() => undefined)
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hash.update(chunk)
+    callback(null, chunk)
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.#resolve(this.finish(this.hash.digest()))
+      callback()
+    } catch (e) {
+      callback(e as Error)
+    }
+  }
+}
@@ -0,0 +1,138 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { ConfigurationError, KeyId, ResponseVerificationError, VerificationError } from './types'
+import { HttpMessage, MessageContext, NonEmptyArray } from './MessageContext'
+import type { SignatureKeyManager } from './SignatureKeyManager'
+import { FetchHeaders, FetchRequest, FetchResponse, verifyWebResponse } from './web'
+
+/*
+ * A signing wrapper around WHATWG `fetch`. As with the adapters in `web.ts`,
+ * `fetch` is described by the members used here.
+ */
+
+/** Headers given to `fetch`: a `Headers` object, a list of name and value pairs, or an object keyed by name. */
+export type FetchHeadersInit = FetchHeaders | [string, string][] | { [header: string]: string }
+
+/** A request body which can be digested. Streamed bodies are not supported, as they cannot be read twice. */
+export type FetchBody = string | ArrayBuffer | ArrayBufferView
+
+/** The options of a `fetch` call. Options other than the method, headers and body are passed through unchanged. */
+export type FetchRequestInit = {
+  method?: string
+  headers?: FetchHeadersInit
+  body?: FetchBody | null
+  [option: string]: unknown
+}
+
+/** A function compatible with WHATWG `fetch`. */
+export type FetchFunction<R extends FetchResponse = FetchResponse> = (
+  input: string | { href: string } | FetchRequest,
+  init?: FetchRequestInit,
+) => Promise<R>
+
+/** Options for a signing `fetch` wrapper created with `SignatureKeyManager.createFetch`. */
+export type SignedFetchOptions<R extends FetchResponse = FetchResponse> = {
+  /** The keyId to sign requests with. */
+  keyId: KeyId
+  /**
+   * Whether to verify the signature on responses before returning them, along
+   * with the digest of their body if the `calculateDigest` option is set for
+   * the key which signed the response.
+   */
+  verifyResponse?: boolean
+  /** The `fetch` implementation to send requests with. Defaults to the global `fetch`. */
+  fetch?: FetchFunction<R>
+}
+
+const isRequest = (input: unknown): input is FetchRequest =>
+  typeof input === 'object' && input !== null && 'url' in input && 'method' in input
+
+function toBuffer(body: FetchBody): Buffer {
+  if (typeof body === 'string') return Buffer.from(body, 'utf8')
+  if (body instanceof ArrayBuffer) return Buffer.from(body)
+  if (ArrayBuffer.isView(body)) return Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+
+  throw new ConfigurationError('request bodies must be strings or bytes to be signed')
+}
+
+// Header names are lowercased, and values of repeated headers kept in order
+function readHeaders(init: FetchHeadersInit | undefined): Map<string, string[]> {
+  const headers = new Map<string, string[]>()
+  const append = (value: string, name: string) => {
+    const key = name.toLowerCase()
+    headers.set(key, [...(headers.get(key) || []), value])
+  }
+
+  if (init === undefined) return headers
+  if (Array.isArray(init)) init.forEach(([name, value]) => append(value, name))
+  else if (typeof init.forEach === 'function' && typeof init.get === 'function') (init as FetchHeaders).forEach(append)
+  else Object.entries(init).forEach(([name, value]) => append(value, name))
+
+  return headers
+}
+
+function requestMessage(url: URL, method: string, headers: Map<string, string[]>, body: Buffer): HttpMessage {
+  return {
+    requestTarget: { method, path: url.pathname + url.search, scheme: url.protocol.replace(/:$/, '') },
+    getHeader(header: string): NonEmptyArray<string> | undefined {
+      const values = headers.get(header)
+      if (values) return values
+
+      // fetch sets these itself, so they are not usually given with the request
+      if (header === 'host') return [url.host]
+      if (header === 'content-length' && body.length > 0) return [body.length.toString()]
+
+      return undefined
+    },
+  }
+}
+
+/**
+ * Create a `fetch` function which signs each request before sending it.
+ *
+ * @see SignatureKeyManager.createFetch
+ */
+export function createSignedFetch<R extends FetchResponse = FetchResponse>(
+  sig: SignatureKeyManager,
+  options: SignedFetchOptions<R>,
+): FetchFunction<R> {
+  const fetch = options.fetch || (globalThis as { fetch?: FetchFunction<R> }).fetch
+  if (!fetch) throw new ConfigurationError('fetch is not available; a fetch implementation must be given')
+
+  return async (input, init = {}) => {
+    const request = isRequest(input) ? input : undefined
+    const url = new URL(request ? request.url : typeof input === 'string' ? input : (input as { href: string }).href)
+    const method = (init.method || request?.method || 'GET').toUpperCase()
+    const headers = readHeaders(init.headers ?? request?.headers)
+
+    let body = Buffer.alloc(0)
+    if (init.body !== undefined && init.body !== null) body = toBuffer(init.body)
+    else if (request && init.body === undefined) body = Buffer.from(await request.clone().arrayBuffer())
+
+    const key = await sig.getKey(options.keyId)
+    if (key.options.calculateDigest) headers.set(key.digestHeader, [key.createDigestHeader(body)])
+
+    const signatureHeaders = key.signRequestHeaders(new MessageContext(requestMessage(url, method, headers, body)))
+    for (const [header, value] of Object.entries(signatureHeaders)) headers.set(header, [value])
+
+    const response = await fetch(input, {
+      ...init,
+      method,
+      headers: [...headers].flatMap(([header, values]) => values.map((value): [string, string] => [header, value])),
+      // Bodies read from a request are sent as the bytes which were digested
+      ...(body.length > 0 && { body }),
+    })
+
+    if (options.verifyResponse) {
+      try {
+        await verifyWebResponse(sig, response)
+      } catch (e) {
+        if (e instanceof VerificationError) throw new ResponseVerificationError(e, response)
+        throw e
+      }
+    }
+
+    return response
+  }
+}
@@ -34,8 +34,39 @@ export function createMessageContext(message: HttpMessage): MessageContext {
 
 export default signatures
 
-export { SignatureKey } from './SignatureKey'
+export { InspectOptions, SignatureKey, VerificationResult } from './SignatureKey'
+export { MemoryReplayStore, MemoryReplayStoreOptions } from './MemoryReplayStore'
+export { FileKeyStore, FileKeyStoreOptions, KeyMetadata, KEY_FILES } from './FileKeyStore'
 export { HttpMessage, MessageContext } from './MessageContext'
-export { Signature } from './Signature'
-export { SignatureKeyManager } from './SignatureKeyManager'
+export { Signature, SignatureFields } from './Signature'
+export { BodyChunk, DigestSource, DigestTransform, WebReadableStream } from './digest-streams'
+export {
+  ChallengeOptions,
+  SignatureKeyManager,
+  SignaturesVerification,
+  SignatureVerification,
+  VerifyRequestOptions,
+} from './SignatureKeyManager'
+export {
+  ChallengeResponseHeaders,
+  createAcceptSignature,
+  createChallenge,
+  parseAcceptSignature,
+  parseChallenge,
+  readSignatureRequests,
+  SignatureRequest,
+} from './challenges'
+export { FetchBody, FetchFunction, FetchHeadersInit, FetchRequestInit, SignedFetchOptions } from './fetch'
+export {
+  FetchHeaders,
+  FetchRequest,
+  FetchResponse,
+  signWebResponse,
+  verifyWebRequest,
+  verifyWebResponse,
+  webRequestMessage,
+  webResponseMessage,
+} from './web'
+export * as StructuredFields from './structured-fields'
+export { Jwk, Jwks, JwkImportOptions, JwksSource, jwksKeyLookup, keyConfigFromJwk } from './jwk'
 export * from './types'
@@ -0,0 +1,214 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  DsaEncodingType,
+  GenericKeyConfig,
+  HmacAlgorithm,
+  KeyPairAlgorithm,
+  KeyPairConfig,
+  KeyLookupFunction,
+  RsaPaddingScheme,
+  SignatureAlgorithm,
+  SignatureOptionOverrides,
+} from './types'
+import * as crypto from 'crypto'
+import { promises as fs } from 'fs'
+
+/** A JSON Web Key, per RFC 7517. Only the members used for signature keys are listed. */
+export type Jwk = {
+  kty: string
+  kid?: string
+  alg?: string
+  use?: string
+  key_ops?: string[]
+  crv?: string
+  [member: string]: unknown
+}
+
+/** A JSON Web Key Set, per RFC 7517. */
+export type Jwks = {
+  keys: Jwk[]
+}
+
+export type JwkImportOptions = {
+  /** The digest algorithm used for body digests, which is not described by the JWK. Defaults to SHA-256. */
+  digest?: DigestAlgorithm
+  /** Per-key overrides to signing options. */
+  options?: SignatureOptionOverrides
+}
+
+/** The source of a JWKS document: either a file path, or a function which fetches the document. */
+export type JwksSource = { path: string } | { fetch: () => Jwks | Promise<Jwks> }
+
+// JWK key input is not present in the Node 14 typings, which only describe PEM and DER inputs
+type JwkKeyInput = { key: Jwk; format: 'jwk' }
+type KeyFactory<I> = (input: I) => crypto.KeyObject
+
+// Create a key with `crypto.createPublicKey` or `crypto.createPrivateKey` from a JWK
+function createJwkKey(create: KeyFactory<never>, jwk: Jwk): crypto.KeyObject {
+  const input: JwkKeyInput = { key: jwk, format: 'jwk' }
+  return (create as KeyFactory<JwkKeyInput>)(input)
+}
+
+// JWS RSA algorithms and their hash algorithms. PSS uses a salt as long as the hash.
+const RSA_ALGORITHMS: { [alg: string]: { hashAlgorithm: string; padding: RsaPaddingScheme; saltLength?: number } } = {
+  RS256: { hashAlgorithm: 'sha256', padding: RsaPaddingScheme.PKCS1 },
+  RS384: { hashAlgorithm: 'sha384', padding: RsaPaddingScheme.PKCS1 },
+  RS512: { hashAlgorithm: 'sha512', padding: RsaPaddingScheme.PKCS1 },
+  PS256: { hashAlgorithm: 'sha256', padding: RsaPaddingScheme.PKCS1_PSS, saltLength: 32 },
+  PS384: { hashAlgorithm: 'sha384', padding: RsaPaddingScheme.PKCS1_PSS, saltLength: 48 },
+  PS512: { hashAlgorithm: 'sha512', padding: RsaPaddingScheme.PKCS1_PSS, saltLength: 64 },
+}
+
+// JWK EC curves, with the JWS algorithm and hash algorithm used for each
+const EC_CURVES: { [crv: string]: { alg: string; hashAlgorithm: string } } = {
+  'P-256': { alg: 'ES256', hashAlgorithm: 'sha256' },
+  'P-384': { alg: 'ES384', hashAlgorithm: 'sha384' },
+  'P-521': { alg: 'ES512', hashAlgorithm: 'sha512' },
+}
+
+const HMAC_ALGORITHMS: { [alg: string]: HmacAlgorithm } = {
+  HS256: HmacAlgorithm.SHA256,
+  HS512: HmacAlgorithm.SHA512,
+}
+
+const describeJwk = (jwk: Jwk): string => (jwk.kid ? `JWK '${jwk.kid}'` : 'JWK')
+
+function checkUsage(jwk: Jwk): { canSign: boolean } {
+  if (jwk.use !== undefined && jwk.use !== 'sig')
+    throw new ConfigurationError(`${describeJwk(jwk)} is not a signature key (use: ${jwk.use})`)
+
+  if (jwk.key_ops === undefined) return { canSign: true }
+  if (!Array.isArray(jwk.key_ops)) throw new ConfigurationError(`${describeJwk(jwk)} has malformed key_ops`)
+
+  const canSign = jwk.key_ops.includes('sign')
+  if (!canSign && !jwk.key_ops.includes('verify'))
+    throw new ConfigurationError(`${describeJwk(jwk)} does not permit signing or verification`)
+
+  return { canSign }
+}
+
+function importKeyPair(jwk: Jwk, canSign: boolean): { publicKey: crypto.KeyObject; privateKey?: crypto.KeyObject } {
+  try {
+    // The public key is derived from the private key members when present
+    const publicKey = createJwkKey(crypto.createPublicKey, jwk)
+    const privateKey = canSign && jwk.d !== undefined ? createJwkKey(crypto.createPrivateKey, jwk) : undefined
+
+    return { publicKey, privateKey }
+  } catch (e) {
+    throw new ConfigurationError(`${describeJwk(jwk)} is invalid: ${(e as Error).message}`)
+  }
+}
+
+function keyPairConfig(jwk: Jwk, canSign: boolean): KeyPairConfig {
+  switch (jwk.kty) {
+    case 'RSA': {
+      // The padding scheme cannot be inferred from an RSA key
+      if (jwk.alg === undefined) throw new ConfigurationError(`${describeJwk(jwk)} must specify alg for RSA keys`)
+      const algorithm = RSA_ALGORITHMS[jwk.alg]
+      if (!algorithm) throw new ConfigurationError(`${describeJwk(jwk)} has unsupported alg ${jwk.alg}`)
+
+      return { keyAlgorithm: KeyPairAlgorithm.RSA, ...algorithm, ...importKeyPair(jwk, canSign) }
+    }
+    case 'EC': {
+      const curve = jwk.crv !== undefined ? EC_CURVES[jwk.crv] : undefined
+      if (!curve) throw new ConfigurationError(`${describeJwk(jwk)} has unsupported crv ${jwk.crv}`)
+      if (jwk.alg !== undefined && jwk.alg !== curve.alg)
+        throw new ConfigurationError(`${describeJwk(jwk)} has alg ${jwk.alg}, but ${jwk.crv} keys require ${curve.alg}`)
+
+      return {
+        keyAlgorithm: KeyPairAlgorithm.ECDSA,
+        hashAlgorithm: curve.hashAlgorithm,
+        // JWS and RFC 9421 ECDSA signatures are the raw concatenation of r and s
+        dsaEncoding: DsaEncodingType.IEEE_P1363,
+        namedCurve: jwk.crv,
+        ...importKeyPair(jwk, canSign),
+      }
+    }
+    case 'OKP': {
+      if (jwk.crv !== 'Ed25519' && jwk.crv !== 'Ed448')
+        throw new ConfigurationError(`${describeJwk(jwk)} has unsupported crv ${jwk.crv}`)
+      if (jwk.alg !== undefined && jwk.alg !== 'EdDSA')
+        throw new ConfigurationError(`${describeJwk(jwk)} has alg ${jwk.alg}, but ${jwk.crv} keys require EdDSA`)
+
+      return { keyAlgorithm: KeyPairAlgorithm.EDDSA, ...importKeyPair(jwk, canSign) }
+    }
+    default:
+      throw new ConfigurationError(`${describeJwk(jwk)} has unsupported kty ${jwk.kty}`)
+  }
+}
+
+/**
+ * Create a key configuration from a JSON Web Key.
+ *
+ * `oct` keys are used for HMAC, `RSA` and `EC` keys for RSA and ECDSA, and `OKP`
+ * keys for EdDSA. The signature algorithm is taken from the `alg` member where
+ * present; it is required for RSA keys, as the padding scheme cannot otherwise
+ * be determined. Keys whose `use` or `key_ops` members do not permit signing or
+ * verification are rejected, and private keys are only imported if `key_ops`
+ * permits signing.
+ *
+ * @throws ConfigurationError if the JWK is invalid or not usable for signatures
+ *
+ * @param jwk The JSON Web Key to import
+ * @param importOptions Key configuration which is not described by the JWK
+ */
+export function keyConfigFromJwk(
+  jwk: Jwk,
+  { digest = DigestAlgorithm.SHA256, options }: JwkImportOptions = {},
+): GenericKeyConfig {
+  const { canSign } = checkUsage(jwk)
+  const base = { signatureAlgorithm: SignatureAlgorithm.HS2019 as const, digest, ...(options && { options }) }
+
+  if (jwk.kty !== 'oct') return { ...base, ...keyPairConfig(jwk, canSign) }
+
+  const algorithm = HMAC_ALGORITHMS[jwk.alg ?? 'HS256']
+  if (!algorithm) throw new ConfigurationError(`${describeJwk(jwk)} has unsupported alg ${jwk.alg}`)
+  if (typeof jwk.k !== 'string' || jwk.k.length === 0)
+    throw new ConfigurationError(`${describeJwk(jwk)} is missing key value k`)
+
+  return { ...base, algorithm, key: crypto.createSecretKey(Buffer.from(jwk.k, 'base64url')) }
+}
+
+async function loadJwks(source: JwksSource): Promise<Jwks> {
+  let jwks: Jwks
+  if ('path' in source) {
+    try {
+      jwks = JSON.parse(await fs.readFile(source.path, 'utf8'))
+    } catch (e) {
+      throw new ConfigurationError(`unable to read JWKS from ${source.path}: ${(e as Error).message}`)
+    }
+  } else {
+    jwks = await source.fetch()
+  }
+
+  if (!jwks || !Array.isArray(jwks.keys)) throw new ConfigurationError('JWKS document is missing keys')
+
+  return jwks
+}
+
+/**
+ * Create a key lookup function which finds keys in a JSON Web Key Set by
+ * matching the keyId against the `kid` of each JWK.
+ *
+ * The JWKS is loaded from its source on every lookup, so that changes to the
+ * key set take effect immediately; set the `keyCache` option to avoid loading
+ * the JWKS for every message.
+ *
+ * @param source The file path or fetch function providing the JWKS
+ * @param importOptions Key configuration applied to every key, which is not described by the JWKs
+ */
+export function jwksKeyLookup(source: JwksSource, importOptions?: JwkImportOptions): KeyLookupFunction {
+  return async ({ keyId }) => {
+    const { keys } = await loadJwks(source)
+    const matches = keys.filter((jwk) => jwk.kid === keyId)
+
+    if (matches.length > 1) throw new ConfigurationError(`JWKS contains multiple keys with kid '${keyId}'`)
+    if (matches.length < 1) return undefined
+
+    return keyConfigFromJwk(matches[0], importOptions)
+  }
+}
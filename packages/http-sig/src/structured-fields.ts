@@ -0,0 +1,444 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { ConfigurationError, ErrorCode, VerificationError } from './types'
+
+/*
+ * Parser and serializer for Structured Field Values for HTTP (RFC 8941).
+ *
+ * Parsing follows the algorithms in section 4.2 of the RFC exactly, and fails
+ * with a VerificationError on any malformed input, since parsed values are
+ * usually taken from untrusted HTTP messages. Serialization follows section 4.1,
+ * and fails with a ConfigurationError for values which cannot be represented.
+ *
+ * Values are mapped to JavaScript types as follows:
+ *  - Integers are `number`s
+ *  - Decimals are `Decimal`s, so that they are distinct from Integers
+ *  - Strings are `string`s
+ *  - Tokens are `Token`s
+ *  - Byte Sequences are `Buffer`s
+ *  - Booleans are `boolean`s
+ */
+
+const MSG_MALFORMED = 'malformed structured field'
+
+const MAX_INTEGER = 999_999_999_999_999
+const MAX_DECIMAL_INTEGER_PART = 999_999_999_999
+
+const KEY_REGEX = /^[a-z*][a-z0-9_\-.*]*$/
+const TOKEN_REGEX = /^[A-Za-z*][!#$%&'*+\-.^_`|~0-9A-Za-z:/]*$/
+const BASE64_REGEX = /^[A-Za-z0-9+/=]*$/
+
+/** A Structured Field Token, which is serialized without quotes. */
+export class Token {
+  constructor(readonly value: string) {
+    if (!TOKEN_REGEX.test(value)) throw new ConfigurationError(`invalid structured field token: ${value}`)
+  }
+
+  toString(): string {
+    return this.value
+  }
+}
+
+/** A Structured Field Decimal, which is distinct from an Integer even when it has no fractional part. */
+export class Decimal {
+  constructor(readonly value: number) {
+    if (!Number.isFinite(value)) throw new ConfigurationError(`invalid structured field decimal: ${value}`)
+  }
+
+  valueOf(): number {
+    return this.value
+  }
+}
+
+export type BareItem = number | Decimal | string | Token | Buffer | boolean
+export type Parameters = Map<string, BareItem>
+export type Item = { value: BareItem; params: Parameters }
+export type InnerList = { items: Item[]; params: Parameters }
+export type Member = Item | InnerList
+export type List = Member[]
+export type Dictionary = Map<string, Member>
+
+/** The top-level types a structured field may have. */
+export type FieldType = 'list' | 'dictionary' | 'item'
+
+export function isInnerList(member: Member): member is InnerList {
+  return 'items' in member
+}
+
+const isDigit = (char: string | undefined): boolean => char !== undefined && char >= '0' && char <= '9'
+const isAlpha = (char: string | undefined): boolean => char !== undefined && /^[A-Za-z]$/.test(char)
+const isLcAlpha = (char: string | undefined): boolean => char !== undefined && char >= 'a' && char <= 'z'
+
+class Parser {
+  private pos = 0
+
+  constructor(private readonly input: string) {
+    // Only ASCII is permitted in structured fields
+    if (input.search(/[^\x00-\x7f]/) !== -1) throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_HEADER)
+  }
+
+  private get done(): boolean {
+    return this.pos >= this.input.length
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.pos]
+  }
+
+  private consume(): string {
+    return this.input[this.pos++]
+  }
+
+  private skip(chars: string) {
+    while (!this.done && chars.includes(this.input[this.pos])) this.pos++
+  }
+
+  private fail(): never {
+    throw new VerificationError(MSG_MALFORMED, ErrorCode.MALFORMED_HEADER)
+  }
+
+  /** Parse the full input as a field of the given type. */
+  parseField(type: FieldType): List | Dictionary | Item {
+    this.skip(' ')
+
+    let output
+    switch (type) {
+      case 'list':
+        output = this.parseList()
+        break
+      case 'dictionary':
+        output = this.parseDictionary()
+        break
+      case 'item':
+        output = this.parseItem()
+        break
+    }
+
+    this.skip(' ')
+    if (!this.done) this.fail()
+
+    return output
+  }
+
+  private parseList(): List {
+    const members: List = []
+
+    while (!this.done) {
+      members.push(this.parseMember())
+      this.skip(' \t')
+      if (this.done) return members
+      if (this.consume() !== ',') this.fail()
+      this.skip(' \t')
+      if (this.done) this.fail()
+    }
+
+    return members
+  }
+
+  private parseDictionary(): Dictionary {
+    const dictionary: Dictionary = new Map()
+
+    while (!this.done) {
+      const key = this.parseKey()
+      let member: Member
+      if (this.peek() === '=') {
+        this.pos++
+        member = this.parseMember()
+      } else {
+        member = { value: true, params: this.parseParameters() }
+      }
+      dictionary.set(key, member)
+
+      this.skip(' \t')
+      if (this.done) return dictionary
+      if (this.consume() !== ',') this.fail()
+      this.skip(' \t')
+      if (this.done) this.fail()
+    }
+
+    return dictionary
+  }
+
+  private parseMember(): Member {
+    return this.peek() === '(' ? this.parseInnerList() : this.parseItem()
+  }
+
+  private parseInnerList(): InnerList {
+    const items: Item[] = []
+    if (this.consume() !== '(') this.fail()
+
+    while (!this.done) {
+      this.skip(' ')
+      if (this.peek() === ')') {
+        this.pos++
+        return { items, params: this.parseParameters() }
+      }
+
+      items.push(this.parseItem())
+
+      const next = this.peek()
+      if (next !== ' ' && next !== ')') this.fail()
+    }
+
+    this.fail()
+  }
+
+  private parseItem(): Item {
+    const value = this.parseBareItem()
+    return { value, params: this.parseParameters() }
+  }
+
+  private parseBareItem(): BareItem {
+    const char = this.peek()
+
+    if (char === '-' || isDigit(char)) return this.parseNumber()
+    if (char === '"') return this.parseString()
+    if (char === '*' || isAlpha(char)) return this.parseToken()
+    if (char === ':') return this.parseByteSequence()
+    if (char === '?') return this.parseBoolean()
+
+    this.fail()
+  }
+
+  private parseParameters(): Parameters {
+    const params: Parameters = new Map()
+
+    while (this.peek() === ';') {
+      this.pos++
+      this.skip(' ')
+      const key = this.parseKey()
+      let value: BareItem = true
+      if (this.peek() === '=') {
+        this.pos++
+        value = this.parseBareItem()
+      }
+      params.set(key, value)
+    }
+
+    return params
+  }
+
+  private parseKey(): string {
+    const start = this.pos
+    if (!isLcAlpha(this.peek()) && this.peek() !== '*') this.fail()
+
+    while (!this.done && /[a-z0-9_\-.*]/.test(this.input[this.pos])) this.pos++
+
+    return this.input.slice(start, this.pos)
+  }
+
+  private parseNumber(): number | Decimal {
+    let sign = 1
+    if (this.peek() === '-') {
+      this.pos++
+      sign = -1
+    }
+    if (!isDigit(this.peek())) this.fail()
+
+    let isDecimal = false
+    let numStr = ''
+    while (!this.done) {
+      const char = this.peek() as string
+      if (isDigit(char)) {
+        numStr += this.consume()
+      } else if (!isDecimal && char === '.') {
+        if (numStr.length > 12) this.fail()
+        numStr += this.consume()
+        isDecimal = true
+      } else {
+        break
+      }
+
+      if (!isDecimal && numStr.length > 15) this.fail()
+      if (isDecimal && numStr.length > 16) this.fail()
+    }
+
+    if (!isDecimal) return sign * parseInt(numStr, 10)
+
+    // Decimals must have between 1 and 3 fractional digits
+    const fractionLength = numStr.length - numStr.indexOf('.') - 1
+    if (fractionLength < 1 || fractionLength > 3) this.fail()
+
+    return new Decimal(sign * parseFloat(numStr))
+  }
+
+  private parseString(): string {
+    let out = ''
+    this.pos++
+
+    while (!this.done) {
+      const char = this.consume()
+      if (char === '\\') {
+        if (this.done) this.fail()
+        const escaped = this.consume()
+        if (escaped !== '"' && escaped !== '\\') this.fail()
+        out += escaped
+      } else if (char === '"') {
+        return out
+      } else if (char < ' ' || char > '~') {
+        this.fail()
+      } else {
+        out += char
+      }
+    }
+
+    this.fail()
+  }
+
+  private parseToken(): Token {
+    const start = this.pos
+    this.pos++
+
+    while (!this.done && /[!#$%&'*+\-.^_`|~0-9A-Za-z:/]/.test(this.input[this.pos])) this.pos++
+
+    return new Token(this.input.slice(start, this.pos))
+  }
+
+  private parseByteSequence(): Buffer {
+    this.pos++
+    const end = this.input.indexOf(':', this.pos)
+    if (end < 0) this.fail()
+
+    const content = this.input.slice(this.pos, end)
+    this.pos = end + 1
+    if (!BASE64_REGEX.test(content)) this.fail()
+
+    return Buffer.from(content, 'base64')
+  }
+
+  private parseBoolean(): boolean {
+    this.pos++
+    const char = this.consume()
+    if (char === '1') return true
+    if (char === '0') return false
+
+    this.fail()
+  }
+}
+
+/**
+ * Parse a structured field whose top-level type is a List.
+ *
+ * @param input The field value. Multiple field lines must be combined with `, ` first.
+ * @throws VerificationError if the field value is malformed
+ */
+export function parseList(input: string): List {
+  return new Parser(input).parseField('list') as List
+}
+
+/**
+ * Parse a structured field whose top-level type is a Dictionary.
+ *
+ * @param input The field value. Multiple field lines must be combined with `, ` first.
+ * @throws VerificationError if the field value is malformed
+ */
+export function parseDictionary(input: string): Dictionary {
+  return new Parser(input).parseField('dictionary') as Dictionary
+}
+
+/**
+ * Parse a structured field whose top-level type is an Item.
+ *
+ * @param input The field value.
+ * @throws VerificationError if the field value is malformed
+ */
+export function parseItem(input: string): Item {
+  return new Parser(input).parseField('item') as Item
+}
+
+/**
+ * Parse a structured field of the given top-level type.
+ *
+ * @throws VerificationError if the field value is malformed
+ */
+export function parseField(input: string, type: FieldType): List | Dictionary | Item {
+  return new Parser(input).parseField(type)
+}
+
+function serializeKey(key: string): string {
+  if (!KEY_REGEX.test(key)) throw new ConfigurationError(`invalid structured field key: ${key}`)
+  return key
+}
+
+function serializeInteger(value: number): string {
+  if (!Number.isInteger(value) || Math.abs(value) > MAX_INTEGER)
+    throw new ConfigurationError(`invalid structured field integer: ${value}`)
+  return value.toString()
+}
+
+function serializeDecimal(value: number): string {
+  // Round to 3 decimal places, with ties rounding to even
+  const scaled = value * 1000
+  const floor = Math.floor(scaled)
+  const diff = scaled - floor
+  const rounded = diff > 0.5 || (diff === 0.5 && floor % 2 !== 0) ? floor + 1 : floor
+  const integerPart = Math.trunc(rounded / 1000)
+
+  if (Math.abs(integerPart) > MAX_DECIMAL_INTEGER_PART)
+    throw new ConfigurationError(`invalid structured field decimal: ${value}`)
+
+  const output = (rounded / 1000).toFixed(3).replace(/0{1,2}$/, '')
+  return output === '-0.0' ? '0.0' : output
+}
+
+function serializeString(value: string): string {
+  if (value.search(/[^\x20-\x7e]/) !== -1)
+    throw new ConfigurationError('structured field strings may only contain printable ASCII characters')
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`
+}
+
+export function serializeBareItem(value: BareItem): string {
+  if (typeof value === 'number') return serializeInteger(value)
+  if (value instanceof Decimal) return serializeDecimal(value.value)
+  if (typeof value === 'string') return serializeString(value)
+  if (value instanceof Token) return value.value
+  if (Buffer.isBuffer(value)) return `:${value.toString('base64')}:`
+  if (typeof value === 'boolean') return value ? '?1' : '?0'
+
+  throw new ConfigurationError(`unsupported structured field value: ${value}`)
+}
+
+export function serializeParameters(params: Parameters): string {
+  return [...params.entries()]
+    .map(([key, value]) =>
+      value === true ? `;${serializeKey(key)}` : `;${serializeKey(key)}=${serializeBareItem(value)}`,
+    )
+    .join('')
+}
+
+/** Serialize an Item, including its parameters. */
+export function serializeItem({ value, params }: Item): string {
+  return serializeBareItem(value) + serializeParameters(params)
+}
+
+/** Serialize an Inner List, including its parameters. */
+export function serializeInnerList({ items, params }: InnerList): string {
+  return `(${items.map(serializeItem).join(' ')})${serializeParameters(params)}`
+}
+
+function serializeMember(member: Member): string {
+  return isInnerList(member) ? serializeInnerList(member) : serializeItem(member)
+}
+
+/** Serialize a List. An empty List serializes to an empty string, and the field should be omitted. */
+export function serializeList(list: List): string {
+  return list.map(serializeMember).join(', ')
+}
+
+/** Serialize a Dictionary. An empty Dictionary serializes to an empty string, and the field should be omitted. */
+export function serializeDictionary(dictionary: Dictionary): string {
+  return [...dictionary.entries()]
+    .map(([key, member]) => {
+      if (!isInnerList(member) && member.value === true) return serializeKey(key) + serializeParameters(member.params)
+      return `${serializeKey(key)}=${serializeMember(member)}`
+    })
+    .join(', ')
+}
+
+/** Serialize a structured field of any top-level type. */
+export function serializeField(field: List | Dictionary | Item): string {
+  if (Array.isArray(field)) return serializeList(field)
+  if (field instanceof Map) return serializeDictionary(field)
+  return serializeItem(field)
+}
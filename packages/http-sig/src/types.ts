@@ -6,7 +6,7 @@ import * as crypto from 'crypto'
 export type SignatureOptionOverrides = Partial<RequiredSignatureOptions> & SignatureOptions
 export type ConcreteSignatureOptions = Required<SignatureOptionOverrides>
 
-export type KeyConfig = GenericKeyConfig | LegacyHmacSha256Config
+export type KeyConfig = GenericKeyConfig | LegacyHmacSha256Config | LegacyRsaSha256Config | LegacyEcdsaSha256Config
 
 export type GenericKeyConfig = GenericKeyConfigBase & SigningKeyConfig
 
@@ -26,6 +26,25 @@ export type LegacyHmacSha256Config = {
   options?: SignatureOptionOverrides
 } & SecretKeyConfig
 
+export type LegacyKeyPairConfigBase = {
+  /// Per-key optional overrides to signing options
+  options?: SignatureOptionOverrides
+  /// A key that is able to verify signatures, but not create them.
+  publicKey: crypto.KeyObject
+  /// A key that is able to create signatures but not verify them.
+  privateKey?: crypto.KeyObject
+}
+
+export type LegacyRsaSha256Config = {
+  // Legacy RSA config requires an RSA key pair
+  signatureAlgorithm: SignatureAlgorithm.RSA_SHA256
+} & LegacyKeyPairConfigBase
+
+export type LegacyEcdsaSha256Config = {
+  // Legacy ECDSA config requires a P-256 key pair
+  signatureAlgorithm: SignatureAlgorithm.ECDSA_SHA256
+} & LegacyKeyPairConfigBase
+
 export type SigningKeyConfig = SecretKeyConfig | KeyPairConfig
 
 export type SigningAlgorithm = MacAlgorithm | KeyPairAlgorithm
@@ -38,9 +57,6 @@ export type SecretKeyConfig = {
 }
 
 export type BaseKeyPairConfig = {
-  /// The digital signature hash algorithm to use to sign/verify requests.
-  /// examples: SHA-256, SHA-512
-  hashAlgorithm: string
   /// The digital signature keypair algorithm for the keys.
   keyAlgorithm: KeyPairAlgorithm
   /// A key that is able to verify signatures, but not create them.
@@ -50,7 +66,13 @@ export type BaseKeyPairConfig = {
   privateKey?: crypto.KeyObject
 }
 
-export type RsaKeyPairConfig = BaseKeyPairConfig & {
+export type HashedKeyPairConfig = BaseKeyPairConfig & {
+  /// The digital signature hash algorithm to use to sign/verify requests.
+  /// examples: SHA-256, SHA-512
+  hashAlgorithm: string
+}
+
+export type RsaKeyPairConfig = HashedKeyPairConfig & {
   /// The digital signature keypair algorithm for the keys.
   keyAlgorithm: KeyPairAlgorithm.RSA
 
@@ -61,15 +83,28 @@ export type RsaKeyPairConfig = BaseKeyPairConfig & {
   saltLength?: number
 }
 
-export type DsaKeyPairConfig = BaseKeyPairConfig & {
+export type DsaKeyPairConfig = HashedKeyPairConfig & {
   /// The digital signature keypair algorithm for the keys.
   keyAlgorithm: KeyPairAlgorithm.ECDSA
 
   /// Which of the DSA signature format encodings is used.
   dsaEncoding?: DsaEncodingType
+
+  /// The named curve the keys must use, either as a NIST name (e.g. P-256)
+  /// or as a Node.js curve name (e.g. prime256v1). Any curve is accepted if unset.
+  namedCurve?: string
 }
 
-export type KeyPairConfig = RsaKeyPairConfig | DsaKeyPairConfig
+/// EdDSA signs the message directly, so no hash algorithm is configured.
+export type EddsaKeyPairConfig = BaseKeyPairConfig & {
+  /// The digital signature keypair algorithm for the keys.
+  keyAlgorithm: KeyPairAlgorithm.EDDSA
+
+  /// The Edwards curve the keys must use. Either curve is accepted if unset.
+  namedCurve?: EdwardsCurve
+}
+
+export type KeyPairConfig = RsaKeyPairConfig | DsaKeyPairConfig | EddsaKeyPairConfig
 
 /// MAC algorithms can be symmetric cipher MACs or Hash-based MACs (HMAC).
 /// Only HMAC is supported currently.
@@ -80,6 +115,7 @@ export type MacAlgorithm = HmacAlgorithm
 export enum KeyPairAlgorithm {
   RSA = 'rsa',
   ECDSA = 'ecdsa',
+  EDDSA = 'eddsa',
 }
 
 export enum HmacAlgorithm {
@@ -92,11 +128,36 @@ export enum DigestAlgorithm {
   SHA512 = 'SHA-512',
 }
 
+/// The header used to carry body digests.
+export enum DigestHeader {
+  /// The legacy RFC 3230 `Digest` header, e.g. `Digest: SHA-256=...`
+  DIGEST = 'digest',
+  /// The RFC 9530 `Content-Digest` header, which digests the content of the message
+  /// as sent, e.g. `Content-Digest: sha-256=:...:`
+  CONTENT_DIGEST = 'content-digest',
+  /// The RFC 9530 `Repr-Digest` header, which digests the selected representation
+  /// of the resource, e.g. `Repr-Digest: sha-256=:...:`
+  REPR_DIGEST = 'repr-digest',
+}
+
+/// The header carrying a draft-cavage signature.
+export enum SignatureHeader {
+  /// The `Signature` header, e.g. `Signature: keyId="...",signature="..."`
+  SIGNATURE = 'signature',
+  /// The `Authorization` header with the Signature scheme, e.g. `Authorization: Signature keyId="...",signature="..."`
+  AUTHORIZATION = 'authorization',
+}
+
 export enum DsaEncodingType {
   DER = 'der',
   IEEE_P1363 = 'ieee-p1363',
 }
 
+export enum EdwardsCurve {
+  ED25519 = 'ed25519',
+  ED448 = 'ed448',
+}
+
 export enum RsaPaddingScheme {
   PKCS1 = crypto.constants.RSA_PKCS1_PADDING,
   PKCS1_PSS = crypto.constants.RSA_PKCS1_PSS_PADDING,
@@ -105,13 +166,46 @@ export enum RsaPaddingScheme {
 export type KeyId = string
 
 export type FixedKey = { keyId: KeyId } & KeyConfig
-export type KeyLookupFunction = ({ keyId }: { keyId: KeyId }) => KeyConfig | Promise<KeyConfig | undefined> | undefined
+
+/// One of several versions of a key, as used during key rotation.
+export type KeyVersion = KeyConfig & {
+  /// The time from which this version is valid. Valid from any time if unset.
+  notBefore?: Date
+  /// The time until which this version is valid. Valid indefinitely if unset.
+  notAfter?: Date
+}
+
+/// Either a single key, or every current version of a key. Verification tries
+/// each valid version, while signing uses the newest valid version.
+export type KeyLookupResult = KeyConfig | KeyVersion[]
+export type KeyLookupFunction = ({
+  keyId,
+}: {
+  keyId: KeyId
+}) => KeyLookupResult | Promise<KeyLookupResult | undefined> | undefined
 export type KeyLookup = { keyLookup: KeyLookupFunction }
 
 export type KeyLookupParams = FixedKey | KeyLookup
 
+/// How messages carrying several signatures, such as those added by proxies, are verified.
+export enum SignaturePolicyType {
+  /// At least one signature must be made with a known key and pass verification.
+  ANY_TRUSTED = 'any-trusted',
+  /// Every signature on the message must be made with a known key and pass verification.
+  ALL_PRESENT = 'all-present',
+  /// A signature made with each of the given keys must pass verification. Other
+  /// signatures on the message may fail verification.
+  REQUIRED_KEYS = 'required-keys',
+}
+
+export type SignaturePolicy =
+  | { type: SignaturePolicyType.ANY_TRUSTED }
+  | { type: SignaturePolicyType.ALL_PRESENT }
+  | { type: SignaturePolicyType.REQUIRED_KEYS; keyIds: KeyId[] }
+
 export enum HttpSigVersion {
   DRAFT_CAVAGE_12 = 'draft-cavage-http-signatures-12',
+  RFC_9421 = 'rfc9421',
 }
 
 export type VersionParams = {
@@ -123,7 +217,19 @@ export type HeaderSignSpec = {
   [k in string]: HeaderSignMode | true
 }
 
-export type RequiredSignatureOptions = {}
+/// The headers produced when signing a message, keyed by lowercase header name.
+export type SignatureHeaders = {
+  signature: string
+  [header: string]: string
+}
+
+/// The headers produced to challenge a client to sign its request, keyed by lowercase header name.
+export type ChallengeHeaders = {
+  'www-authenticate': string
+  'accept-signature'?: string
+}
+
+export type RequiredSignatureOptions = VersionParams
 
 export enum SignatureAlgorithm {
   /// Recommended: no inferences made about key type.
@@ -157,30 +263,270 @@ export enum SignatureAlgorithm {
   ECDSA_SHA256 = 'ecdsa-sha256',
 }
 
+/// Algorithm identifiers for the `alg` signature parameter, as registered
+/// in the HTTP Signature Algorithms registry of RFC 9421.
+///
+/// These are only used for RFC 9421 signatures; the key configuration
+/// determines which identifier (if any) corresponds to a key.
+export enum Rfc9421Algorithm {
+  RSA_PSS_SHA512 = 'rsa-pss-sha512',
+  RSA_V1_5_SHA256 = 'rsa-v1_5-sha256',
+  HMAC_SHA256 = 'hmac-sha256',
+  ECDSA_P256_SHA256 = 'ecdsa-p256-sha256',
+  ECDSA_P384_SHA384 = 'ecdsa-p384-sha384',
+  ED25519 = 'ed25519',
+}
+
+/// Controls the `created` and `expires` parameters of signatures produced when signing.
+export type SignatureLifetime = {
+  /// Whether to include the time of signing as the `created` parameter.
+  created?: boolean
+  /// The number of seconds for which signatures remain valid. When set,
+  /// the `expires` parameter is set to this many seconds after creation.
+  ttl?: number
+}
+
+/// Per-message timestamps used when signing, which take precedence over the
+/// configured `SignatureLifetime`.
+export type SigningTimes = {
+  /// The creation time to sign, instead of the current time.
+  created?: Date
+  /// An explicit expiry time to sign, instead of one derived from the `ttl`.
+  expires?: Date
+}
+
+/// A source of the current time, used when signing and verifying signatures.
+export type Clock = () => Date
+
+/// A store of signatures which have already been accepted, used to reject replayed messages.
+export interface ReplayStore {
+  /// Remember `id` for `ttl` milliseconds, returning `false` if it is already
+  /// remembered (i.e. the message is a replay) and `true` otherwise. The check and
+  /// update must be atomic, so that concurrent messages cannot both be accepted.
+  checkAndRemember(id: string, ttl: number): boolean | Promise<boolean>
+}
+
+/// Caching of the keys found by the key lookup function. Durations are in seconds.
+export type KeyCacheOptions = {
+  /// How long found keys are cached for.
+  ttl: number
+  /// The maximum number of keys cached at once. Defaults to 1000.
+  maxSize?: number
+  /// How long unknown keyIds are cached for. Unknown keyIds are not cached by default.
+  negativeTtl?: number
+  /// How long after expiry a cached key may still be used while it is looked up again
+  /// in the background. Defaults to 0, where expired keys are always looked up again first.
+  staleWhileRevalidate?: number
+}
+
+export type KeyCacheParams = {
+  /// Caches keys found by the key lookup function. Keys are looked up on each use if unset.
+  keyCache?: KeyCacheOptions
+}
+
+export type ReplayProtectionParams = {
+  /// The store used to reject replayed signatures. Replays are not detected if unset.
+  replayStore?: ReplayStore
+}
+
 export type SignatureOptions = Partial<{
   requestHeaders: HeaderSignSpec
   responseHeaders: HeaderSignSpec
   calculateDigest: boolean
+  digestHeader: DigestHeader
+  requestLifetime: SignatureLifetime
+  responseLifetime: SignatureLifetime
+  /// The number of seconds a signature's creation time may be in the future,
+  /// to allow for clock skew between the signer and verifier.
+  futureSkew: number
+  /// The number of seconds after a signature's expiry time for which it is
+  /// still accepted.
+  expiryGrace: number
+  /// The maximum age in seconds of signatures, measured from their creation time.
+  /// Unless infinite, signatures must have a signed creation time.
+  maxAge: number
+  /// The clock used to timestamp signatures and check their validity.
+  clock: Clock
+  /// Whether to include a random `nonce` parameter in signatures, which
+  /// identifies them for replay detection. Only supported for RFC 9421.
+  nonce: boolean
+  /// The number of seconds signatures are remembered for replay detection,
+  /// when neither their expiry time nor the `maxAge` option bound their validity.
+  replayWindow: number
+  /// The number of seconds after its `notAfter` time that a key version is still
+  /// accepted for verification, so that messages signed just before a rotation
+  /// are not rejected. Expired versions are never used for signing.
+  rotationGrace: number
 }>
 
-export type HttpSigParams = VersionParams & KeyLookupParams & RequiredSignatureOptions & SignatureOptions
+export type HttpSigParams = VersionParams &
+  KeyLookupParams &
+  RequiredSignatureOptions &
+  SignatureOptions &
+  KeyCacheParams &
+  ReplayProtectionParams
+
+/// Stable, machine-readable codes identifying the cause of a `SignatureError`.
+export enum ErrorCode {
+  /// Verification failed for an unspecified reason.
+  VERIFICATION_FAILED = 'VERIFICATION_FAILED',
+  /// No signature is present on the message.
+  SIGNATURE_MISSING = 'SIGNATURE_MISSING',
+  /// The signature headers could not be parsed.
+  MALFORMED_SIGNATURE = 'MALFORMED_SIGNATURE',
+  /// A structured header could not be parsed.
+  MALFORMED_HEADER = 'MALFORMED_HEADER',
+  /// Several signatures are present where only one is expected.
+  MULTIPLE_SIGNATURES = 'MULTIPLE_SIGNATURES',
+  /// The signature names an algorithm which is not supported.
+  UNSUPPORTED_ALGORITHM = 'UNSUPPORTED_ALGORITHM',
+  /// The signature uses a different algorithm or version to its key.
+  ALGORITHM_MISMATCH = 'ALGORITHM_MISMATCH',
+  /// No key exists for the keyId of the signature.
+  KEY_NOT_FOUND = 'KEY_NOT_FOUND',
+  /// The key for the keyId of the signature has no currently valid version.
+  KEY_NOT_VALID = 'KEY_NOT_VALID',
+  /// The signature does not match the message.
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  /// The signature does not cover every header required by the configuration.
+  MISSING_REQUIRED_HEADERS = 'MISSING_REQUIRED_HEADERS',
+  /// A component covered by the signature is not present on the message.
+  MISSING_COMPONENT = 'MISSING_COMPONENT',
+  /// A component covered by the signature is unsupported or has invalid parameters.
+  INVALID_COMPONENT = 'INVALID_COMPONENT',
+  /// The signature was created in the future.
+  SIGNATURE_NOT_YET_VALID = 'SIGNATURE_NOT_YET_VALID',
+  /// The signature has expired.
+  SIGNATURE_EXPIRED = 'SIGNATURE_EXPIRED',
+  /// The signature was created longer ago than the `maxAge` option allows.
+  SIGNATURE_TOO_OLD = 'SIGNATURE_TOO_OLD',
+  /// The signature has already been used.
+  SIGNATURE_REPLAYED = 'SIGNATURE_REPLAYED',
+  /// The signatures on the message do not satisfy the `SignaturePolicy`.
+  POLICY_NOT_SATISFIED = 'POLICY_NOT_SATISFIED',
+  /// The message has no digest header.
+  DIGEST_MISSING = 'DIGEST_MISSING',
+  /// The digest header could not be parsed.
+  MALFORMED_DIGEST = 'MALFORMED_DIGEST',
+  /// The digest header does not use the configured digest algorithm.
+  DIGEST_ALGORITHM_MISMATCH = 'DIGEST_ALGORITHM_MISMATCH',
+  /// The body does not match the digest header.
+  DIGEST_MISMATCH = 'DIGEST_MISMATCH',
+  /// The configuration is invalid.
+  INVALID_CONFIGURATION = 'INVALID_CONFIGURATION',
+}
+
+/// The HTTP status to respond with for each error code: 400 where the message is malformed,
+/// 401 where its signature cannot be trusted, and 403 where its key is not permitted.
+export const ERROR_STATUS_CODES: { readonly [Code in ErrorCode]: 400 | 401 | 403 | 500 } = Object.freeze({
+  [ErrorCode.VERIFICATION_FAILED]: 401,
+  [ErrorCode.SIGNATURE_MISSING]: 401,
+  [ErrorCode.MALFORMED_SIGNATURE]: 400,
+  [ErrorCode.MALFORMED_HEADER]: 400,
+  [ErrorCode.MULTIPLE_SIGNATURES]: 400,
+  [ErrorCode.UNSUPPORTED_ALGORITHM]: 400,
+  [ErrorCode.ALGORITHM_MISMATCH]: 401,
+  [ErrorCode.KEY_NOT_FOUND]: 403,
+  [ErrorCode.KEY_NOT_VALID]: 403,
+  [ErrorCode.INVALID_SIGNATURE]: 401,
+  [ErrorCode.MISSING_REQUIRED_HEADERS]: 401,
+  [ErrorCode.MISSING_COMPONENT]: 400,
+  [ErrorCode.INVALID_COMPONENT]: 400,
+  [ErrorCode.SIGNATURE_NOT_YET_VALID]: 401,
+  [ErrorCode.SIGNATURE_EXPIRED]: 401,
+  [ErrorCode.SIGNATURE_TOO_OLD]: 401,
+  [ErrorCode.SIGNATURE_REPLAYED]: 401,
+  [ErrorCode.POLICY_NOT_SATISFIED]: 403,
+  [ErrorCode.DIGEST_MISSING]: 400,
+  [ErrorCode.MALFORMED_DIGEST]: 400,
+  [ErrorCode.DIGEST_ALGORITHM_MISMATCH]: 400,
+  [ErrorCode.DIGEST_MISMATCH]: 400,
+  [ErrorCode.INVALID_CONFIGURATION]: 500,
+})
+
+/// Structured details of a `SignatureError`. Which members are set depends on the error code.
+export type ErrorContext = {
+  /// The keyId of the signature or key concerned.
+  keyId?: KeyId
+  /// The algorithm concerned, such as an unsupported signature algorithm.
+  algorithm?: string
+  /// The headers required by the configuration but not covered by the signature.
+  missingHeaders?: string[]
+  /// The component of the message concerned.
+  component?: string
+  /// The keyIds of the signatures concerned.
+  keyIds?: KeyId[]
+  /// The file containing invalid configuration.
+  path?: string
+}
 
 export abstract class SignatureError extends Error {
+  /**
+   * @param message Description of the error
+   * @param code Machine-readable code identifying the cause of the error
+   * @param context Structured details of the error
+   */
+  constructor(message: string | undefined, readonly code: ErrorCode, readonly context: ErrorContext = {}) {
+    super(message)
+  }
+
   get name(): string {
     return 'SignatureError'
   }
+
+  /** The HTTP status to respond with when this error prevents handling a request. */
+  get status(): number {
+    return ERROR_STATUS_CODES[this.code] || 500
+  }
 }
 
 export class VerificationError extends SignatureError {
+  constructor(message?: string, code: ErrorCode = ErrorCode.VERIFICATION_FAILED, context?: ErrorContext) {
+    super(message, code, context)
+  }
+
   get name(): string {
     return 'VerificationError'
   }
 }
 
+/**
+ * Raised by HTTP clients which verify responses, such as the signing `fetch`
+ * wrapper, when a response fails verification. The code and context are those
+ * of the failed check, and the unverified response is available to inspect,
+ * such as to read a challenge from its headers.
+ */
+export class ResponseVerificationError<R = unknown> extends VerificationError {
+  /**
+   * @param error The failed check
+   * @param response The response which failed verification, as given by the HTTP client
+   */
+  constructor(error: VerificationError, readonly response: R) {
+    super(error.message, error.code, error.context)
+  }
+
+  get name(): string {
+    return 'ResponseVerificationError'
+  }
+}
+
 export class ConfigurationError extends SignatureError {
+  /**
+   * @param message Description of the configuration problem
+   * @param path The file containing the invalid configuration, if the configuration was read from a file
+   */
+  constructor(message?: string, path?: string) {
+    super(path ? `${path}: ${message}` : message, ErrorCode.INVALID_CONFIGURATION, path ? { path } : {})
+  }
+
   get name(): string {
     return 'ConfigurationError'
   }
+
+  /** The file containing the invalid configuration, if read from a file. */
+  get path(): string | undefined {
+    return this.context.path
+  }
 }
 
 export type RequestTarget = {
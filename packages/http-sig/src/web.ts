@@ -0,0 +1,182 @@
+// Copyright (c) Michael Holmes
+// SPDX-License-Identifier: MIT
+
+import { ConfigurationError, ErrorCode, SigningTimes, VerificationError } from './types'
+import { HttpMessage, MessageContext, NonEmptyArray } from './MessageContext'
+import { Signature } from './Signature'
+import type { SignatureKey } from './SignatureKey'
+import type { SignatureKeyManager } from './SignatureKeyManager'
+
+/*
+ * Adapters for WHATWG `Request` and `Response` objects, as used by `fetch` and
+ * Web-standard servers. The DOM typings are not available to this package, so
+ * `Request`, `Response` and `Headers` are described by the members used here,
+ * which the implementations in browsers, Node.js 18+ and most polyfills provide.
+ */
+
+/** The parts of a WHATWG `Headers` object used for signing. */
+export interface FetchHeaders {
+  get(name: string): string | null
+  forEach(callback: (value: string, name: string) => void): void
+}
+
+/** The parts of a WHATWG `Request` used for signing. */
+export interface FetchRequest {
+  url: string
+  method: string
+  headers: FetchHeaders
+  clone(): FetchRequest
+  arrayBuffer(): Promise<ArrayBuffer>
+}
+
+/** The parts of a WHATWG `Response` used for signing and verification. */
+export interface FetchResponse {
+  status: number
+  statusText?: string
+  headers: FetchHeaders
+  clone(): FetchResponse
+  arrayBuffer(): Promise<ArrayBuffer>
+}
+
+type FetchResponseConstructor = new (
+  body: Uint8Array | null,
+  init: { status: number; statusText?: string; headers: [string, string][] },
+) => FetchResponse
+
+// Statuses whose responses cannot have a body
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304]
+
+const getHeader = (headers: FetchHeaders, name: string): NonEmptyArray<string> | undefined => {
+  const value = headers.get(name)
+  return value === null ? undefined : [value]
+}
+
+/**
+ * Wrap a WHATWG `Request` as an `HttpMessage`. The request target and scheme
+ * are taken from the URL, as is the `host` header unless it is set on the
+ * request, which is not usually the case for requests created with `fetch`.
+ */
+export function webRequestMessage(request: Pick<FetchRequest, 'url' | 'method' | 'headers'>): HttpMessage {
+  const url = new URL(request.url)
+
+  return {
+    requestTarget: {
+      method: request.method.toUpperCase(),
+      path: url.pathname + url.search,
+      scheme: url.protocol.replace(/:$/, ''),
+    },
+    getHeader(header: string): NonEmptyArray<string> | undefined {
+      return getHeader(request.headers, header) || (header === 'host' ? [url.host] : undefined)
+    },
+  }
+}
+
+/** Wrap a WHATWG `Response` as an `HttpMessage`. */
+export function webResponseMessage(response: Pick<FetchResponse, 'status' | 'headers'>): HttpMessage {
+  return {
+    status: response.status,
+    getHeader: (header: string) => getHeader(response.headers, header),
+  }
+}
+
+/**
+ * Read the body of a request or response from a copy, so that the original
+ * can still be read. Messages without a body are read as empty.
+ */
+async function readBody(message: FetchRequest | FetchResponse): Promise<Buffer> {
+  return Buffer.from(await message.clone().arrayBuffer())
+}
+
+async function verifyDigest(key: SignatureKey, signature: Signature, message: FetchRequest | FetchResponse) {
+  if (!key.options.calculateDigest && !signature.headers.includes(key.digestHeader)) return
+
+  const digest = message.headers.get(key.digestHeader)
+  if (digest === null)
+    throw new VerificationError(`${key.digestHeader} header not present on message`, ErrorCode.DIGEST_MISSING, {
+      keyId: key.id,
+    })
+
+  key.verifyDigestHeader(await readBody(message), digest)
+}
+
+/**
+ * Verify the signature on a WHATWG `Request` with the key for its keyId, along
+ * with the digest of its body if the `calculateDigest` option is set or the
+ * signature covers the digest header. The body is read from a copy of the
+ * request, so it can still be read by the handler. Once the whole request has
+ * been verified, the signature is checked for replays if the `replayStore`
+ * option is set.
+ *
+ * @throws VerificationError if the signature or digest is not present, either fails verification, or the signature has been replayed
+ * @throws ConfigurationError if the corresponding key has invalid configuration
+ *
+ * @param sig The `SignatureKeyManager` to verify the request with
+ * @param request The request to verify
+ * @returns The version of the key which verified the signature
+ */
+export async function verifyWebRequest(sig: SignatureKeyManager, request: FetchRequest): Promise<SignatureKey> {
+  const msgCtx = new MessageContext(webRequestMessage(request))
+  const signature = msgCtx.getSignature()
+  if (!signature) throw new VerificationError('signature not present on message', ErrorCode.SIGNATURE_MISSING)
+
+  const key = await sig.verifyRequest(msgCtx, signature, { checkReplay: false })
+  await verifyDigest(key, signature, request)
+  // Only remember signatures once the whole request has been verified
+  await sig.checkReplay(key, signature)
+
+  return key
+}
+
+/**
+ * Verify the signature on a WHATWG `Response` with the key for its keyId,
+ * along with the digest of its body.
+ *
+ * @see verifyWebRequest
+ */
+export async function verifyWebResponse(sig: SignatureKeyManager, response: FetchResponse): Promise<SignatureKey> {
+  const msgCtx = new MessageContext(webResponseMessage(response))
+  const signature = msgCtx.getSignature()
+  if (!signature) throw new VerificationError('signature not present on message', ErrorCode.SIGNATURE_MISSING)
+
+  const key = await sig.verifyResponse(msgCtx, signature)
+  await verifyDigest(key, signature, response)
+
+  return key
+}
+
+/**
+ * Sign a WHATWG `Response`, returning a new `Response` with the same status
+ * and body, and the digest and signature headers added. The digest header is
+ * only added if the `calculateDigest` option is set. The body of the original
+ * response is read, so it must not be used afterwards.
+ *
+ * @throws VerificationError if any configured headers are not set on the response
+ * @throws ConfigurationError if the runtime does not provide WHATWG `Response`
+ *
+ * @param key The key to sign the response with
+ * @param response The response to sign
+ * @param times Explicit creation and expiry times for the signature.
+ */
+export async function signWebResponse(
+  key: SignatureKey,
+  response: FetchResponse,
+  times?: SigningTimes,
+): Promise<FetchResponse> {
+  const Response = (globalThis as { Response?: FetchResponseConstructor }).Response
+  if (!Response) throw new ConfigurationError('WHATWG Response is not supported by this runtime')
+
+  const headers = new Map<string, string[]>()
+  response.headers.forEach((value, name) => headers.set(name, [...(headers.get(name) || []), value]))
+
+  const body = Buffer.from(await response.arrayBuffer())
+  if (key.options.calculateDigest) headers.set(key.digestHeader, [key.createDigestHeader(body)])
+
+  const msgCtx = new MessageContext({ status: response.status, getHeader: (header) => headers.get(header) })
+  for (const [header, value] of Object.entries(key.signResponseHeaders(msgCtx, times))) headers.set(header, [value])
+
+  return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...headers].flatMap(([header, values]) => values.map((value): [string, string] => [header, value])),
+  })
+}
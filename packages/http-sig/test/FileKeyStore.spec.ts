@@ -0,0 +1,261 @@
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  DsaEncodingType,
+  ErrorCode,
+  FileKeyStore,
+  HmacAlgorithm,
+  KeyPairAlgorithm,
+  RsaPaddingScheme,
+  SignatureAlgorithm,
+} from '../src'
+import { GenericKeyConfig, KeyPairConfig, SecretKeyConfig } from '../src/types'
+
+import * as crypto from 'crypto'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+const secret = crypto.randomBytes(32)
+
+// Write the files of a key directory, replacing any existing directory
+async function writeKey(dir: string, keyId: string, files: { [name: string]: string }) {
+  const keyDir = path.join(dir, keyId)
+  await fs.rm(keyDir, { recursive: true, force: true })
+  await fs.mkdir(keyDir)
+  for (const [name, contents] of Object.entries(files)) await fs.writeFile(path.join(keyDir, name), contents)
+}
+
+const pem = (key: crypto.KeyObject) =>
+  key.export({ format: 'pem', type: key.type === 'public' ? 'spki' : 'pkcs8' }) as string
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) await new Promise((resolve) => setTimeout(resolve, 20))
+  if (!condition()) throw new Error('timed out waiting for condition')
+}
+
+describe('FileKeyStore', () => {
+  let dir: string
+  let store: FileKeyStore
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'http-sig-'))
+  })
+
+  afterEach(async () => {
+    store?.close()
+    await fs.rm(dir, { recursive: true })
+  })
+
+  describe('reading keys', () => {
+    beforeEach(() => {
+      store = new FileKeyStore(dir, { watch: false })
+    })
+
+    it('reads secret keys', async () => {
+      await writeKey(dir, 'hmac', { 'secret.key': secret.toString('base64') + '\n' })
+
+      const config = (await store.get('hmac')) as GenericKeyConfig & SecretKeyConfig
+      expect(config.signatureAlgorithm).toBe(SignatureAlgorithm.HS2019)
+      expect(config.algorithm).toBe(HmacAlgorithm.SHA256)
+      expect(config.digest).toBe(DigestAlgorithm.SHA256)
+      expect(config.key.export()).toEqual(secret)
+    })
+
+    it('reads key pairs and infers their algorithm', async () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519')
+      await writeKey(dir, 'ed25519', { 'public.pem': pem(publicKey), 'private.pem': pem(privateKey) })
+
+      const config = (await store.get('ed25519')) as KeyPairConfig
+      expect(config.keyAlgorithm).toBe(KeyPairAlgorithm.EDDSA)
+      expect(pem(config.publicKey)).toBe(pem(publicKey))
+      expect(pem(config.privateKey!)).toBe(pem(privateKey))
+    })
+
+    it('derives the public key from a private key', async () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      await writeKey(dir, 'ecdsa', { 'private.pem': pem(privateKey) })
+
+      const config = (await store.get('ecdsa')) as KeyPairConfig
+      expect(config.keyAlgorithm).toBe(KeyPairAlgorithm.ECDSA)
+      expect(pem(config.publicKey)).toBe(pem(publicKey))
+    })
+
+    it('applies metadata to the key configuration', async () => {
+      const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      const metadata = {
+        digest: 'SHA-512',
+        hashAlgorithm: 'sha512',
+        padding: 'pss',
+        saltLength: 64,
+        options: { maxAge: 60 },
+      }
+      await writeKey(dir, 'rsa', { 'public.pem': pem(publicKey), 'metadata.json': JSON.stringify(metadata) })
+
+      expect(await store.get('rsa')).toEqual({
+        signatureAlgorithm: SignatureAlgorithm.HS2019,
+        digest: DigestAlgorithm.SHA512,
+        keyAlgorithm: KeyPairAlgorithm.RSA,
+        hashAlgorithm: 'sha512',
+        padding: RsaPaddingScheme.PKCS1_PSS,
+        saltLength: 64,
+        options: { maxAge: 60 },
+        publicKey: expect.anything(),
+        privateKey: undefined,
+      })
+    })
+
+    it('reads legacy algorithm keys', async () => {
+      const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      const metadata = { signatureAlgorithm: 'ecdsa-sha256', dsaEncoding: DsaEncodingType.DER }
+      await writeKey(dir, 'legacy', { 'public.pem': pem(publicKey), 'metadata.json': JSON.stringify(metadata) })
+
+      const config = await store.get('legacy')
+      expect(config?.signatureAlgorithm).toBe(SignatureAlgorithm.ECDSA_SHA256)
+      expect(config).not.toHaveProperty('keyAlgorithm')
+    })
+
+    it('reads JWKs', async () => {
+      const jwk = { kty: 'oct', k: secret.toString('base64url'), alg: 'HS512' }
+      await writeKey(dir, 'jwk', { 'key.jwk': JSON.stringify(jwk), 'metadata.json': '{"digest":"SHA-512"}' })
+
+      const config = (await store.get('jwk')) as GenericKeyConfig & SecretKeyConfig
+      expect(config.algorithm).toBe(HmacAlgorithm.SHA512)
+      expect(config.digest).toBe(DigestAlgorithm.SHA512)
+    })
+
+    it('returns undefined for unknown keys', async () => {
+      expect(await store.get('unknown')).toBeUndefined()
+    })
+
+    it.each(['', '.', '..', '../hmac', 'a/b', 'a\\b', '.hidden', 'a\0b'])(
+      'rejects keyId %j outside of the directory',
+      async (keyId) => {
+        await writeKey(dir, 'hmac', { 'secret.key': secret.toString('base64') })
+        expect(await store.get(keyId)).toBeUndefined()
+      },
+    )
+
+    it('provides a key lookup function', async () => {
+      await writeKey(dir, 'hmac', { 'secret.key': secret.toString('base64') })
+
+      expect(await store.keyLookup({ keyId: 'hmac' })).toHaveProperty('algorithm', HmacAlgorithm.SHA256)
+    })
+  })
+
+  describe('errors', () => {
+    beforeEach(() => {
+      store = new FileKeyStore(dir, { watch: false })
+    })
+
+    const expectError = async (keyId: string, message: string, file: string) => {
+      const error = await store.get(keyId).catch((e) => e)
+      expect(error).toBeInstanceOf(ConfigurationError)
+      expect(error.path).toBe(path.join(dir, keyId, file))
+      expect(error.code).toBe(ErrorCode.INVALID_CONFIGURATION)
+      expect(error.context).toEqual({ path: path.join(dir, keyId, file) })
+      expect(error.message).toBe(`${path.join(dir, keyId, file)}: ${message}`)
+    }
+
+    it('fails for directories without a key', async () => {
+      await writeKey(dir, 'empty', { 'metadata.json': '{}' })
+      await expectError('empty', 'no key file present', '')
+    })
+
+    it('fails for invalid JSON', async () => {
+      await writeKey(dir, 'bad', { 'secret.key': secret.toString('base64'), 'metadata.json': '{' })
+
+      const error = await store.get('bad').catch((e) => e)
+      expect(error).toBeInstanceOf(ConfigurationError)
+      expect(error.path).toBe(path.join(dir, 'bad', 'metadata.json'))
+      expect(error.message).toMatch(/invalid JSON/)
+    })
+
+    it('fails for unsupported metadata', async () => {
+      await writeKey(dir, 'bad', { 'secret.key': secret.toString('base64'), 'metadata.json': '{"algorithm":"md5"}' })
+      await expectError('bad', 'unsupported MAC algorithm md5', 'metadata.json')
+    })
+
+    it('fails for empty secret keys', async () => {
+      await writeKey(dir, 'bad', { 'secret.key': '\n' })
+      await expectError('bad', 'secret key is empty', 'secret.key')
+    })
+
+    it('fails for invalid PEM keys', async () => {
+      await writeKey(dir, 'bad', { 'public.pem': 'not a key' })
+
+      const error = await store.get('bad').catch((e) => e)
+      expect(error).toBeInstanceOf(ConfigurationError)
+      expect(error.path).toBe(path.join(dir, 'bad', 'public.pem'))
+    })
+
+    it('fails for metadata which does not match the key', async () => {
+      const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+
+      await writeKey(dir, 'bad', { 'public.pem': pem(publicKey), 'metadata.json': '{"keyAlgorithm":"rsa"}' })
+      await expectError('bad', 'expected rsa public key, but got public key of type ecdsa', 'metadata.json')
+
+      await writeKey(dir, 'bad', { 'public.pem': pem(publicKey), 'metadata.json': '{"namedCurve":"P-384"}' })
+      await expectError('bad', 'expected public key on curve P-384, but got prime256v1', 'metadata.json')
+
+      await writeKey(dir, 'bad', { 'public.pem': pem(publicKey), 'metadata.json': '{"hashAlgorithm":"sha0"}' })
+      await expectError('bad', 'keypair hash algorithm not supported: sha0', 'metadata.json')
+    })
+
+    it('fails for invalid JWKs', async () => {
+      await writeKey(dir, 'bad', { 'key.jwk': '{"kty":"oct","alg":"HS1"}' })
+      await expectError('bad', 'JWK has unsupported alg HS1', 'key.jwk')
+    })
+  })
+
+  describe('reloading', () => {
+    it('reloads keys when their files change', async () => {
+      const changed: string[] = []
+      store = new FileKeyStore(dir, { onChange: (keyId) => changed.push(keyId) })
+      await writeKey(dir, 'hmac', { 'secret.key': secret.toString('base64') })
+
+      const first = await store.get('hmac')
+      expect(await store.get('hmac')).toBe(first)
+
+      const newSecret = crypto.randomBytes(32)
+      await fs.writeFile(path.join(dir, 'hmac', 'secret.key'), newSecret.toString('base64'))
+      await waitFor(() => changed.includes('hmac'))
+
+      const second = (await store.get('hmac')) as GenericKeyConfig & SecretKeyConfig
+      expect(second).not.toBe(first)
+      expect(second.key.export()).toEqual(newSecret)
+    })
+
+    it('detects removed keys', async () => {
+      store = new FileKeyStore(dir)
+      await writeKey(dir, 'hmac', { 'secret.key': secret.toString('base64') })
+      expect(await store.get('hmac')).toBeDefined()
+
+      await fs.rm(path.join(dir, 'hmac'), { recursive: true })
+      await waitFor(() => !(store as unknown as { keys: Map<string, unknown> }).keys.has('hmac'))
+
+      expect(await store.get('hmac')).toBeUndefined()
+    })
+
+    it('retries keys which failed to load', async () => {
+      store = new FileKeyStore(dir)
+      await writeKey(dir, 'hmac', { 'secret.key': '' })
+      await expect(store.get('hmac')).rejects.toThrow(ConfigurationError)
+
+      await writeKey(dir, 'hmac', { 'secret.key': secret.toString('base64') })
+      expect(await store.get('hmac')).toBeDefined()
+    })
+
+    it('does not remember unknown keyIds', async () => {
+      store = new FileKeyStore(dir)
+
+      for (let i = 0; i < 10; i++) expect(await store.get(`unknown-${i}`)).toBeUndefined()
+
+      expect((store as unknown as { keys: Map<string, unknown> }).keys.size).toBe(0)
+    })
+
+    it('fails if the directory does not exist', () => {
+      expect(() => new FileKeyStore(path.join(dir, 'missing'))).toThrow(ConfigurationError)
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import { ConfigurationError } from '../src'
+import { KeyCache } from '../src/KeyCache'
+
+describe('KeyCache', () => {
+  let now = 0
+  const clock = () => new Date(now)
+
+  beforeEach(() => {
+    now = 1000000000000
+  })
+
+  const counter = () => {
+    let calls = 0
+    const load = jest.fn(() => `value-${++calls}`)
+    return load
+  }
+
+  test('caches values until the ttl expires', async () => {
+    const cache = new KeyCache<string>({ ttl: 10 }, clock)
+    const load = counter()
+
+    expect(await cache.get('a', load)).toBe('value-1')
+    now += 9999
+    expect(await cache.get('a', load)).toBe('value-1')
+    now += 1
+    expect(await cache.get('a', load)).toBe('value-2')
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  test('coalesces concurrent loads', async () => {
+    const cache = new KeyCache<string>({ ttl: 10 }, clock)
+    let resolve: (value: string) => void = () => undefined
+    const load = jest.fn(() => new Promise<string>((r) => (resolve = r)))
+
+    const results = Promise.all([cache.get('a', load), cache.get('a', load)])
+    await Promise.resolve()
+    resolve('value')
+
+    expect(await results).toEqual(['value', 'value'])
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  test('does not cache failed loads', async () => {
+    const cache = new KeyCache<string>({ ttl: 10 }, clock)
+
+    await expect(cache.get('a', () => Promise.reject(new Error('lookup failed')))).rejects.toThrow('lookup failed')
+    expect(await cache.get('a', () => 'value')).toBe('value')
+  })
+
+  test('caches unknown keys only when configured', async () => {
+    const uncached = new KeyCache<string>({ ttl: 10 }, clock)
+    const cached = new KeyCache<string>({ ttl: 10, negativeTtl: 1 }, clock)
+    const load = jest.fn(() => undefined)
+
+    await uncached.get('a', load)
+    await uncached.get('a', load)
+    expect(load).toHaveBeenCalledTimes(2)
+
+    await cached.get('a', load)
+    await cached.get('a', load)
+    expect(load).toHaveBeenCalledTimes(3)
+    now += 1000
+    await cached.get('a', load)
+    expect(load).toHaveBeenCalledTimes(4)
+  })
+
+  test('serves stale values while revalidating', async () => {
+    const cache = new KeyCache<string>({ ttl: 10, staleWhileRevalidate: 5 }, clock)
+    const load = counter()
+
+    await cache.get('a', load)
+    now += 12000
+    expect(await cache.get('a', load)).toBe('value-1')
+    // Let the background refresh complete
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(await cache.get('a', load)).toBe('value-2')
+
+    now += 16000
+    expect(await cache.get('a', load)).toBe('value-3')
+  })
+
+  test('keeps serving stale values when revalidation fails', async () => {
+    const cache = new KeyCache<string>({ ttl: 10, staleWhileRevalidate: 5 }, clock)
+
+    await cache.get('a', () => 'value')
+    now += 12000
+    expect(await cache.get('a', () => Promise.reject(new Error('lookup failed')))).toBe('value')
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(await cache.get('a', () => 'other')).toBe('value')
+  })
+
+  test('evicts least recently used values beyond the maximum size', async () => {
+    const cache = new KeyCache<string>({ ttl: 10, maxSize: 2 }, clock)
+
+    await cache.get('a', () => 'a')
+    await cache.get('b', () => 'b')
+    await cache.get('a', () => 'a2')
+    await cache.get('c', () => 'c')
+
+    expect(cache.size).toBe(2)
+    expect(await cache.get('a', () => 'a3')).toBe('a')
+    expect(await cache.get('b', () => 'b2')).toBe('b2')
+  })
+
+  test('invalidates values, including loads in progress', async () => {
+    const cache = new KeyCache<string>({ ttl: 10 }, clock)
+    const load = counter()
+
+    await cache.get('a', load)
+    await cache.get('b', load)
+    cache.invalidate('a')
+    expect(await cache.get('a', load)).toBe('value-3')
+
+    const inProgress = cache.get('c', load)
+    cache.invalidate('c')
+    expect(await inProgress).toBe('value-4')
+    expect(await cache.get('c', load)).toBe('value-5')
+
+    cache.clear()
+    expect(cache.size).toBe(0)
+  })
+
+  test.each([{ ttl: -1 }, { ttl: 10, negativeTtl: NaN }, { ttl: 10, maxSize: 0 }])(
+    'rejects invalid options %p',
+    (options) => {
+      expect(() => new KeyCache(options, clock)).toThrow(ConfigurationError)
+    },
+  )
+})
@@ -0,0 +1,337 @@
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  DsaEncodingType,
+  EdwardsCurve,
+  HttpSigVersion,
+  KeyPairAlgorithm,
+  KeyPairConfig,
+  RsaPaddingScheme,
+  SignatureAlgorithm,
+  signatures,
+} from '../src'
+import { KeyPairSignatureKey } from '../src/KeyPairSignatureKey'
+import { MessageContext } from '../src/MessageContext'
+
+import * as crypto from 'crypto'
+
+const mockRequest = (method: string, path: string, headers: { [header: string]: string[] }) => ({
+  requestTarget: { method, path },
+  getHeader(header: string): string[] | undefined {
+    return headers[header]
+  },
+})
+
+const requestHeaders = {
+  host: ['example.com'],
+  digest: ['SHA-256=X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE='],
+}
+
+const rsaKeyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+const ecKeyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+const ed25519KeyPair = crypto.generateKeyPairSync('ed25519')
+const ed448KeyPair = crypto.generateKeyPairSync('ed448')
+
+type KeyPairCase = { name: string; config: KeyPairConfig; privateKey: crypto.KeyObject }
+
+const keyPairCases: KeyPairCase[] = [
+  {
+    name: 'RSA PKCS1 v1.5',
+    config: { keyAlgorithm: KeyPairAlgorithm.RSA, hashAlgorithm: 'sha256', publicKey: rsaKeyPair.publicKey },
+    privateKey: rsaKeyPair.privateKey,
+  },
+  {
+    name: 'RSA PSS',
+    config: {
+      keyAlgorithm: KeyPairAlgorithm.RSA,
+      hashAlgorithm: 'sha512',
+      padding: RsaPaddingScheme.PKCS1_PSS,
+      saltLength: 64,
+      publicKey: rsaKeyPair.publicKey,
+    },
+    privateKey: rsaKeyPair.privateKey,
+  },
+  {
+    name: 'ECDSA P-256',
+    config: { keyAlgorithm: KeyPairAlgorithm.ECDSA, hashAlgorithm: 'sha256', publicKey: ecKeyPair.publicKey },
+    privateKey: ecKeyPair.privateKey,
+  },
+  {
+    name: 'ECDSA P-256 (IEEE P1363)',
+    config: {
+      keyAlgorithm: KeyPairAlgorithm.ECDSA,
+      hashAlgorithm: 'sha256',
+      dsaEncoding: DsaEncodingType.IEEE_P1363,
+      publicKey: ecKeyPair.publicKey,
+    },
+    privateKey: ecKeyPair.privateKey,
+  },
+  {
+    name: 'Ed25519',
+    config: { keyAlgorithm: KeyPairAlgorithm.EDDSA, publicKey: ed25519KeyPair.publicKey },
+    privateKey: ed25519KeyPair.privateKey,
+  },
+  {
+    name: 'Ed448',
+    config: { keyAlgorithm: KeyPairAlgorithm.EDDSA, publicKey: ed448KeyPair.publicKey },
+    privateKey: ed448KeyPair.privateKey,
+  },
+]
+
+const managerFor = (version: HttpSigVersion, config: KeyPairConfig) =>
+  signatures({
+    version,
+    keyId: 'partner',
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    digest: DigestAlgorithm.SHA256,
+    ...config,
+  } as Parameters<typeof signatures>[0])
+
+describe.each(Object.values(HttpSigVersion))('KeyPairSignatureKey (%s)', (version) => {
+  test.each(keyPairCases)('verifies $name signatures with only the public key', async ({ config, privateKey }) => {
+    const signingKey = await managerFor(version, { ...config, privateKey }).getKey('partner')
+    const verifyingKey = await managerFor(version, config).getKey('partner')
+
+    const signatureHeaders = signingKey.signRequestHeaders(
+      new MessageContext(mockRequest('POST', '/foo', requestHeaders)),
+    )
+    const signedRequest = (path: string) =>
+      new MessageContext(
+        mockRequest('POST', path, {
+          ...requestHeaders,
+          ...Object.fromEntries(Object.entries(signatureHeaders).map(([header, value]) => [header, [value]])),
+        }),
+      )
+
+    expect(verifyingKey.algorithm).toBe(config.keyAlgorithm)
+    expect(signingKey.canSign).toBe(true)
+    expect(verifyingKey.verifyRequest(signedRequest('/foo'))).toBe(true)
+    expect(() => verifyingKey.verifyRequest(signedRequest('/bar'))).toThrow('signature verification failure')
+  })
+
+  test.each(keyPairCases)('cannot sign $name messages without the private key', async ({ config }) => {
+    const key = await managerFor(version, config).getKey('partner')
+
+    expect(key.canSign).toBe(false)
+    expect(() => key.signRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))).toThrow(
+      'cannot sign with public-key only key pairs',
+    )
+  })
+})
+
+describe('KeyPairSignatureKey configuration', () => {
+  test('rejects keys of the wrong type', async () => {
+    const manager = managerFor(HttpSigVersion.DRAFT_CAVAGE_12, {
+      keyAlgorithm: KeyPairAlgorithm.RSA,
+      hashAlgorithm: 'sha256',
+      publicKey: ecKeyPair.publicKey,
+    })
+
+    await expect(manager.getKey('partner')).rejects.toThrow('expected rsa public key, but got public key of type ecdsa')
+  })
+
+  test('rejects private keys in place of public keys', async () => {
+    const manager = managerFor(HttpSigVersion.DRAFT_CAVAGE_12, {
+      keyAlgorithm: KeyPairAlgorithm.RSA,
+      hashAlgorithm: 'sha256',
+      publicKey: rsaKeyPair.privateKey,
+    })
+
+    await expect(manager.getKey('partner')).rejects.toThrow(ConfigurationError)
+  })
+
+  test('rejects mismatched private key types', async () => {
+    const manager = managerFor(HttpSigVersion.DRAFT_CAVAGE_12, {
+      keyAlgorithm: KeyPairAlgorithm.ECDSA,
+      hashAlgorithm: 'sha256',
+      publicKey: ecKeyPair.publicKey,
+      privateKey: rsaKeyPair.privateKey,
+    })
+
+    await expect(manager.getKey('partner')).rejects.toThrow(
+      'expected ecdsa private key, but got private key of type rsa',
+    )
+  })
+
+  test('rejects Edwards keys on the wrong curve', async () => {
+    const manager = managerFor(HttpSigVersion.DRAFT_CAVAGE_12, {
+      keyAlgorithm: KeyPairAlgorithm.EDDSA,
+      namedCurve: EdwardsCurve.ED25519,
+      publicKey: ed448KeyPair.publicKey,
+    })
+
+    await expect(manager.getKey('partner')).rejects.toThrow('expected public key on curve ed25519, but got ed448')
+  })
+
+  test('signs rsa-pss-sha512 with a 64 byte salt unless configured otherwise', async () => {
+    const config = {
+      keyAlgorithm: KeyPairAlgorithm.RSA as const,
+      hashAlgorithm: 'sha512',
+      padding: RsaPaddingScheme.PKCS1_PSS,
+      publicKey: rsaKeyPair.publicKey,
+      privateKey: rsaKeyPair.privateKey,
+    }
+    const key = await managerFor(HttpSigVersion.RFC_9421, config).getKey('partner')
+    const mac = (key as KeyPairSignatureKey).sign(Buffer.from('message'))
+
+    const verifyWithSalt = (saltLength: number) =>
+      crypto.verify(
+        'sha512',
+        Buffer.from('message'),
+        { key: rsaKeyPair.publicKey, padding: RsaPaddingScheme.PKCS1_PSS, saltLength },
+        mac,
+      )
+    expect(verifyWithSalt(64)).toBe(true)
+    expect(key.rfc9421Algorithm).toBe('rsa-pss-sha512')
+
+    const otherSalt = await managerFor(HttpSigVersion.RFC_9421, { ...config, saltLength: 32 }).getKey('partner')
+    expect(otherSalt.rfc9421Algorithm).toBeUndefined()
+  })
+
+  test('identifies RFC 9421 algorithms', async () => {
+    const algorithms = await Promise.all(
+      keyPairCases.map(async ({ config }) => {
+        const key = await managerFor(HttpSigVersion.RFC_9421, config).getKey('partner')
+        return key.rfc9421Algorithm
+      }),
+    )
+
+    expect(algorithms).toEqual([
+      'rsa-v1_5-sha256',
+      'rsa-pss-sha512',
+      undefined,
+      'ecdsa-p256-sha256',
+      'ed25519',
+      undefined,
+    ])
+  })
+})
+
+describe('KeyPairSignatureKey (RFC 9421 Ed25519)', () => {
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.from('MCowBQYDK2VwAyEAJrQLj5P/89iXES9+vFgrIy29clF9CC/oPPsw3c5D0bs=', 'base64'),
+    format: 'der',
+    type: 'spki',
+  })
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.from('MC4CAQAwBQYDK2VwBCIEIJ+DYvh6SEqVTm50DFtMDoQikTmiCqirVv9mWG9qfSnF', 'base64'),
+    format: 'der',
+    type: 'pkcs8',
+  })
+  const vectorHeaders = {
+    host: ['example.com'],
+    date: ['Tue, 20 Apr 2021 02:07:55 GMT'],
+    'content-type': ['application/json'],
+    'content-length': ['18'],
+    'signature-input': [
+      'sig-b26=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473' +
+        ';keyid="test-key-ed25519"',
+    ],
+    signature: ['sig-b26=:wqcAqbmYJ2ji2glfAMaRy4gruYYnx2nEFN2HN6jrnDnQCK1u02Gb04v9EDgwUPiu4A0w6vuQv5lIp5WPpBKRCw==:'],
+  }
+
+  const manager = (config: Pick<KeyPairConfig, 'publicKey' | 'privateKey'>) =>
+    signatures({
+      version: HttpSigVersion.RFC_9421,
+      keyId: 'test-key-ed25519',
+      signatureAlgorithm: SignatureAlgorithm.HS2019,
+      digest: DigestAlgorithm.SHA256,
+      keyAlgorithm: KeyPairAlgorithm.EDDSA,
+      requestHeaders: { date: true },
+      ...config,
+    })
+
+  test('verifies reference signature from spec', async () => {
+    const key = await manager({ publicKey }).getKey('test-key-ed25519')
+
+    expect(key.rfc9421Algorithm).toBe('ed25519')
+    expect(key.verifyRequest(new MessageContext(mockRequest('POST', '/foo?param=Value&Pet=dog', vectorHeaders)))).toBe(
+      true,
+    )
+  })
+
+  test('emits the ed25519 algorithm identifier', async () => {
+    const key = await manager({ publicKey, privateKey }).getKey('test-key-ed25519')
+    const signatureHeaders = key.signRequestHeaders(
+      new MessageContext(mockRequest('POST', '/foo', { ...vectorHeaders, ...requestHeaders })),
+    )
+
+    expect(signatureHeaders['signature-input']).toMatch(/;alg="ed25519"$/)
+  })
+})
+
+describe('KeyPairSignatureKey legacy algorithm schemes', () => {
+  const legacyManager = (signatureAlgorithm: SignatureAlgorithm, keyPair: crypto.KeyPairKeyObjectResult) =>
+    signatures({
+      version: HttpSigVersion.DRAFT_CAVAGE_12,
+      keyLookup: () => ({
+        signatureAlgorithm,
+        publicKey: keyPair.publicKey,
+        privateKey: keyPair.privateKey,
+      }),
+    } as Parameters<typeof signatures>[0])
+
+  test.each([
+    { signatureAlgorithm: SignatureAlgorithm.RSA_SHA256, keyPair: rsaKeyPair, keyAlgorithm: KeyPairAlgorithm.RSA },
+    { signatureAlgorithm: SignatureAlgorithm.ECDSA_SHA256, keyPair: ecKeyPair, keyAlgorithm: KeyPairAlgorithm.ECDSA },
+  ])('signs and verifies $signatureAlgorithm', async ({ signatureAlgorithm, keyPair, keyAlgorithm }) => {
+    const key = await legacyManager(signatureAlgorithm, keyPair).getKey('partner')
+
+    expect(key.algorithm).toBe(keyAlgorithm)
+    expect(key.digestAlgorithm).toBe(DigestAlgorithm.SHA256)
+
+    const signature = key.signRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+    expect(signature).toContain(`algorithm="${signatureAlgorithm}"`)
+
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', { ...requestHeaders, signature: [signature] }))
+    expect(key.verifyRequest(msgCtx)).toBe(true)
+  })
+
+  test('uses fixed hash and padding for rsa-sha256', async () => {
+    const key = await legacyManager(SignatureAlgorithm.RSA_SHA256, rsaKeyPair).getKey('partner')
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', requestHeaders))
+    const signature = key.signRequest(msgCtx)
+    const signatureValue = Buffer.from(signature.match(/signature="([^"]+)"/)?.[1] as string, 'base64')
+
+    const verified = crypto.verify(
+      'sha256',
+      Buffer.from(msgCtx.canonicalString(['(request-target)', 'host', 'digest'])),
+      { key: rsaKeyPair.publicKey, padding: crypto.constants.RSA_PKCS1_PADDING },
+      signatureValue,
+    )
+    expect(verified).toBe(true)
+  })
+
+  test.each([
+    {
+      name: 'EC key for rsa-sha256',
+      signatureAlgorithm: SignatureAlgorithm.RSA_SHA256,
+      keyPair: ecKeyPair,
+      error: 'expected rsa public key, but got public key of type ecdsa',
+    },
+    {
+      name: 'RSA key for ecdsa-sha256',
+      signatureAlgorithm: SignatureAlgorithm.ECDSA_SHA256,
+      keyPair: rsaKeyPair,
+      error: 'expected ecdsa public key, but got public key of type rsa',
+    },
+    {
+      name: 'P-384 key for ecdsa-sha256',
+      signatureAlgorithm: SignatureAlgorithm.ECDSA_SHA256,
+      keyPair: crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' }),
+      error: 'expected public key on curve P-256, but got secp384r1',
+    },
+  ])('rejects $name', async ({ signatureAlgorithm, keyPair, error }) => {
+    await expect(legacyManager(signatureAlgorithm, keyPair).getKey('partner')).rejects.toThrow(error)
+  })
+
+  test('rejects signatures using a different scheme', async () => {
+    const rsaKey = await legacyManager(SignatureAlgorithm.RSA_SHA256, rsaKeyPair).getKey('partner')
+    const ecKey = await legacyManager(SignatureAlgorithm.ECDSA_SHA256, ecKeyPair).getKey('partner')
+
+    const signature = ecKey.signRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', { ...requestHeaders, signature: [signature] }))
+
+    expect(() => rsaKey.verifyRequest(msgCtx)).toThrow(`incorrect signature scheme used for key 'partner'`)
+  })
+})
@@ -0,0 +1,68 @@
+import { ConfigurationError, MemoryReplayStore } from '../src'
+
+describe('MemoryReplayStore', () => {
+  let now = 0
+  const clock = () => new Date(now)
+
+  beforeEach(() => {
+    now = 1000000000000
+  })
+
+  test('rejects identifiers seen within their ttl', () => {
+    const store = new MemoryReplayStore({ clock })
+
+    expect(store.checkAndRemember('a', 1000)).toBe(true)
+    expect(store.checkAndRemember('a', 1000)).toBe(false)
+    expect(store.checkAndRemember('b', 1000)).toBe(true)
+
+    now += 999
+    expect(store.checkAndRemember('a', 1000)).toBe(false)
+  })
+
+  test('accepts identifiers again once expired', () => {
+    const store = new MemoryReplayStore({ clock })
+
+    expect(store.checkAndRemember('a', 1000)).toBe(true)
+    now += 1000
+    expect(store.checkAndRemember('a', 1000)).toBe(true)
+    expect(store.checkAndRemember('a', 1000)).toBe(false)
+  })
+
+  test('forgets least recently used identifiers beyond maxEntries', () => {
+    const store = new MemoryReplayStore({ maxEntries: 2, clock })
+
+    store.checkAndRemember('a', 1000)
+    store.checkAndRemember('b', 1000)
+    // Seeing 'a' again makes 'b' the least recently used
+    expect(store.checkAndRemember('a', 1000)).toBe(false)
+    store.checkAndRemember('c', 1000)
+
+    expect(store.size).toBe(2)
+    expect(store.checkAndRemember('a', 1000)).toBe(false)
+    expect(store.checkAndRemember('b', 1000)).toBe(true)
+  })
+
+  test('drops expired identifiers when remembering', () => {
+    const store = new MemoryReplayStore({ clock })
+
+    store.checkAndRemember('a', 1000)
+    store.checkAndRemember('b', 5000)
+    now += 2000
+    store.checkAndRemember('c', 1000)
+
+    expect(store.size).toBe(2)
+  })
+
+  test('clears remembered identifiers', () => {
+    const store = new MemoryReplayStore({ clock })
+
+    store.checkAndRemember('a', 1000)
+    store.clear()
+
+    expect(store.checkAndRemember('a', 1000)).toBe(true)
+  })
+
+  test.each([0, 1.5, NaN])('rejects maxEntries of %s', (maxEntries) => {
+    expect(() => new MemoryReplayStore({ maxEntries })).toThrow(ConfigurationError)
+  })
+})
@@ -31,3 +31,122 @@ x-example: Example header with some whitespace.`
     expect(ctx.canonicalString(headerList)).toEqual(reference)
   })
 })
+
+describe('MessageContext (RFC 9421)', () => {
+  const headers = {
+    host: ['example.com'],
+    date: ['Tue, 20 Apr 2021 02:07:55 GMT'],
+    'content-type': ['application/json'],
+    'content-length': ['18'],
+  }
+  const ctx = new MessageContext(mockRequest('POST', '/foo?param=Value&Pet=dog', headers))
+
+  test('signature base output matches reference from spec', () => {
+    const reference = `"date": Tue, 20 Apr 2021 02:07:55 GMT
+"@method": POST
+"@path": /foo
+"@authority": example.com
+"content-type": application/json
+"content-length": 18
+"@signature-params": ("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="test-key-ed25519"`
+
+    const components = ['date', '@method', '@path', '@authority', 'content-type', 'content-length']
+    const params =
+      '("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="test-key-ed25519"'
+
+    expect(ctx.signatureBase(components, params)).toEqual(reference)
+  })
+
+  test.each([
+    { component: '@request-target', expected: '"@request-target": /foo?param=Value&Pet=dog' },
+    { component: '@query', expected: '"@query": ?param=Value&Pet=dog' },
+    { component: '@query-param;name="Pet"', expected: '"@query-param";name="Pet": dog' },
+    { component: 'date;bs', expected: '"date";bs: :VHVlLCAyMCBBcHIgMjAyMSAwMjowNzo1NSBHTVQ=:' },
+  ])('derives component $component', ({ component, expected }) => {
+    const [line] = ctx.signatureBase([component], '()').split('\n')
+
+    expect(line).toEqual(expected)
+  })
+
+  test('rejects missing components', () => {
+    expect(() => ctx.signatureBase(['@scheme'], '()')).toThrow("attempted to sign/verify missing component '@scheme'")
+    expect(() => ctx.signatureBase(['@status'], '()')).toThrow("attempted to sign/verify missing component '@status'")
+  })
+
+  test('rejects unknown derived components', () => {
+    expect(() => ctx.signatureBase(['@foo'], '()')).toThrow("unsupported derived component '@foo'")
+  })
+})
+
+describe('MessageContext (RFC 9421 structured fields)', () => {
+  const headers = {
+    'example-dict': ['  a=1,    b=2;x=1;y=2,   c=(a   b   c)  '],
+    'example-list': ['1, 2 ,  3'],
+    'content-digest': ['sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:,  sha-512=:AAAA:'],
+  }
+  const ctx = new MessageContext(mockRequest('GET', '/', headers))
+
+  test.each([
+    { component: 'example-dict', expected: '"example-dict": a=1,    b=2;x=1;y=2,   c=(a   b   c)' },
+    { component: 'example-dict;key="a"', expected: '"example-dict";key="a": 1' },
+    { component: 'example-dict;key="b"', expected: '"example-dict";key="b": 2;x=1;y=2' },
+    { component: 'example-dict;key="c"', expected: '"example-dict";key="c": (a b c)' },
+    {
+      component: 'content-digest;sf',
+      expected: '"content-digest";sf: sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:, sha-512=:AAAA:',
+    },
+  ])('serializes structured component $component', ({ component, expected }) => {
+    const [line] = ctx.signatureBase([component], '()').split('\n')
+
+    expect(line).toEqual(expected)
+  })
+
+  test('rejects structured serialization of unknown fields', () => {
+    expect(() => ctx.signatureBase(['example-list;sf'], '()')).toThrow(
+      "component 'example-list' is not a known structured field",
+    )
+  })
+
+  test('treats missing dictionary members as missing components', () => {
+    expect(() => ctx.signatureBase(['example-dict;key="d"'], '()')).toThrow(
+      "attempted to sign/verify missing component 'example-dict'",
+    )
+  })
+})
+
+describe('MessageContext signatures', () => {
+  const signature = (keyId: string) => `keyId="${keyId}",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="`
+
+  test('gets every draft-cavage signature', () => {
+    const ctx = new MessageContext(
+      mockRequest('GET', '/foo', {
+        signature: [signature('origin'), signature('proxy')],
+        authorization: ['Basic Zm9vOmJhcg==', `Signature ${signature('client')}`],
+      }),
+    )
+
+    expect(ctx.getSignatures().map(({ keyId }) => keyId)).toEqual(['origin', 'proxy', 'client'])
+    expect(() => ctx.getSignature()).toThrow('multiple signatures present on message')
+  })
+
+  test('gets every RFC 9421 signature', () => {
+    const ctx = new MessageContext(
+      mockRequest('GET', '/foo', {
+        'signature-input': ['sig1=("@method");keyid="origin"', 'proxy=("@method" "signature");keyid="proxy"'],
+        signature: ['sig1=:3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g=:, proxy=:3UqQIVxNJfNm8E54n35RReP9Nv05a9dE:'],
+      }),
+    )
+
+    expect(ctx.getSignatures().map(({ keyId, input }) => [input?.label, keyId])).toEqual([
+      ['sig1', 'origin'],
+      ['proxy', 'proxy'],
+    ])
+  })
+
+  test('gets no signatures from unsigned messages', () => {
+    const ctx = new MessageContext(mockRequest('GET', '/foo', { authorization: ['Basic Zm9vOmJhcg=='] }))
+
+    expect(ctx.getSignatures()).toEqual([])
+    expect(ctx.getSignature()).toBeUndefined()
+  })
+})
@@ -1,4 +1,5 @@
 import { CREATED_SLACK, EXPIRES_SLACK, Signature } from '../src/Signature'
+import { ConfigurationError, ErrorCode, SignatureAlgorithm, SignatureHeader, VerificationError } from '../src/types'
 
 describe('Signature', () => {
   const lazySignature = (s: string) => () => Signature.fromHeader(s)
@@ -94,10 +95,77 @@ describe('Signature', () => {
     expect(lazySignature('keyId="test"')).toThrowErrorMatchingSnapshot('missing-signature')
   })
 
-  test('forbids whitespacing of fields', () => {
-    expect(
-      lazySignature('keyId="test", signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="'),
-    ).toThrowErrorMatchingSnapshot()
+  test('reports malformed signatures with an error code', () => {
+    expect(lazySignature('keyId="test"')).toThrow(
+      expect.objectContaining({ code: ErrorCode.MALFORMED_SIGNATURE, status: 400 }),
+    )
+  })
+
+  test('permits optional whitespace around fields', () => {
+    const signature = Signature.fromHeader(
+      'keyId = "test" ,\talgorithm="hs2019",  signature= "3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="',
+    )
+
+    expect(signature.keyId).toBe('test')
+    expect(signature.signatureAlgorithm).toBe('hs2019')
+  })
+
+  describe('auth-param syntax', () => {
+    const sig = 'signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="'
+
+    test.each([
+      ['plain keyId', `keyId="test",${sig}`, 'test'],
+      [
+        'comma in keyId',
+        `keyId="https://peer.example/actor#main-key,v2",${sig}`,
+        'https://peer.example/actor#main-key,v2',
+      ],
+      ['escaped quote in keyId', `keyId="a\\"b",${sig}`, 'a"b'],
+      ['escaped backslash in keyId', `keyId="a\\\\b",${sig}`, 'a\\b'],
+      ['escaped ordinary character', `keyId="\\a",${sig}`, 'a'],
+      ['equals sign in keyId', `keyId="a=b",${sig}`, 'a=b'],
+      ['spaces in keyId', `keyId=" a b ",${sig}`, ' a b '],
+      ['uppercase parameter names', `KEYID="test",SIGNATURE="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="`, 'test'],
+      ['mixed case parameter names', `KeyId="test",${sig}`, 'test'],
+      ['whitespace before =', `keyId ="test",${sig}`, 'test'],
+      ['whitespace after =', `keyId= "test",${sig}`, 'test'],
+      ['whitespace around ,', `keyId="test" , ${sig}`, 'test'],
+      ['tabs around ,', `keyId="test"\t,\t${sig}`, 'test'],
+      ['leading and trailing whitespace', ` keyId="test",${sig} `, 'test'],
+      ['signature before keyId', `${sig},keyId="test"`, 'test'],
+      ['unknown token parameter', `keyId="test",foo=bar,${sig}`, 'test'],
+      ['unknown quoted parameter with comma', `keyId="test",foo="a,b=c",${sig}`, 'test'],
+    ])('accepts %s', (_name, header, keyId) => {
+      expect(Signature.fromHeader(header).keyId).toBe(keyId)
+    })
+
+    test.each([
+      ['unterminated quoted string', `keyId="test,${sig}`],
+      ['unquoted keyId', `keyId=test,${sig}`],
+      ['quote inside token', `keyId=te"st",${sig}`],
+      ['trailing backslash', `keyId="test\\`],
+      ['control character in quoted string', `keyId="te\x01st",${sig}`],
+      ['DEL in quoted string', `keyId="te\x7fst",${sig}`],
+      ['newline in quoted string', `keyId="te\nst",${sig}`],
+      ['missing comma', `keyId="test" ${sig}`],
+      ['semicolon separator', `keyId="test";${sig}`],
+      ['leading comma', `,keyId="test",${sig}`],
+      ['trailing comma', `keyId="test",${sig},`],
+      ['repeated comma', `keyId="test",,${sig}`],
+      ['missing name', `="test",${sig}`],
+      ['missing value', `keyId=,${sig}`],
+      ['missing =', `keyId "test",${sig}`],
+      ['whitespace inside name', `key Id="test",${sig}`],
+      ['duplicate names differing in case', `keyId="test",keyid="test",${sig}`],
+      ['content after quoted string', `keyId="test"x,${sig}`],
+      ['quoted created', `keyId="test",created="1234",${sig}`],
+      ['quoted expires', `keyId="test",expires="1234",${sig}`],
+      ['comma in headers', `keyId="test",headers="host,date",${sig}`],
+      ['empty input', ''],
+    ])('rejects %s', (_name, header) => {
+      expect(lazySignature(header)).toThrow(VerificationError)
+      expect(lazySignature(header)).toThrow(expect.objectContaining({ code: ErrorCode.MALFORMED_SIGNATURE }))
+    })
   })
 
   test('enforces quoting of string fields', () => {
@@ -326,9 +394,173 @@ describe('Signature', () => {
     expect(signature.validExpires).toBe(false)
   })
 
+  test('applies given tolerances to timestamps', () => {
+    const baseTime = 1000000000000
+    const signatureString = `keyId="test",created=${baseTime / 1000},expires=${
+      baseTime / 1000 + 10
+    },signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="`
+
+    const early = Signature.fromHeader(signatureString, new Date(baseTime - 5000))
+    expect(early.validCreationWithin(5001)).toBe(true)
+    expect(early.validCreationWithin(5000)).toBe(false)
+
+    const late = Signature.fromHeader(signatureString, new Date(baseTime + 15000))
+    expect(late.validExpiresWithin(5001)).toBe(true)
+    expect(late.validExpiresWithin(5000)).toBe(false)
+    expect(late.validAge(15000)).toBe(true)
+    expect(late.validAge(14999)).toBe(false)
+  })
+
+  test('only limits age of signatures with signed creation time', () => {
+    const signatureString = 'keyId="test",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="'
+    const unsignedCreated = `keyId="test",created=1000000000,headers="host",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="`
+
+    expect(Signature.fromHeader(signatureString).validAge(Infinity)).toBe(true)
+    expect(Signature.fromHeader(signatureString).validAge(60000)).toBe(false)
+    expect(Signature.fromHeader(unsignedCreated, new Date(1000000000000)).validAge(60000)).toBe(false)
+  })
+
+  test('checks timestamps at a given time', () => {
+    const signatureString = `keyId="test",created=1000000000,expires=1000000010,signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="`
+    const signature = Signature.fromHeader(signatureString, new Date(2000000000000))
+
+    expect(signature.validExpiresWithin(0)).toBe(false)
+    expect(signature.validExpiresWithin(0, new Date(1000000005000))).toBe(true)
+    expect(signature.validAge(1000, new Date(1000000001000))).toBe(true)
+  })
+
   test('normalizes header case', () => {
     const signatureString = `keyId="test",headers="header-1 HEADER-2 HeAdeR-3",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="`
 
     const signature = Signature.fromHeader(signatureString)
   })
 })
+
+describe('Signature serialization', () => {
+  const signatureBytes = Buffer.from('3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g=', 'base64')
+  const fields = {
+    keyId: 'test',
+    signature: signatureBytes,
+    headers: ['(request-target)', '(created)', 'Host'],
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    created: new Date(1618884473000),
+    expires: new Date(1618884533500),
+  }
+
+  test('serializes every field', () => {
+    expect(Signature.create(fields).toHeader()).toBe(
+      'keyId="test",algorithm="hs2019",created=1618884473,expires=1618884533.5,' +
+        'headers="(request-target) (created) host",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="',
+    )
+  })
+
+  test('omits optional fields', () => {
+    expect(Signature.create({ keyId: 'test', signature: signatureBytes }).toHeader()).toBe(
+      'keyId="test",headers="(created)",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="',
+    )
+  })
+
+  test('escapes quoted strings', () => {
+    const header = Signature.create({ keyId: 'https://peer.example/a"b\\c,v2', signature: signatureBytes }).toHeader()
+
+    expect(header).toBe(
+      'keyId="https://peer.example/a\\"b\\\\c,v2",headers="(created)",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="',
+    )
+    expect(Signature.fromHeader(header).keyId).toBe('https://peer.example/a"b\\c,v2')
+  })
+
+  test('serializes for the Authorization header', () => {
+    const signature = Signature.create(fields)
+
+    expect(signature.toHeader(SignatureHeader.AUTHORIZATION)).toBe(`Signature ${signature.toHeader()}`)
+    expect(signature.toHeaders(SignatureHeader.AUTHORIZATION)).toEqual({
+      authorization: `Signature ${signature.toHeader()}`,
+    })
+    expect(signature.toHeaders()).toEqual({ signature: signature.toHeader() })
+  })
+
+  test.each([
+    ['every field', fields],
+    ['only required fields', { keyId: 'test', signature: signatureBytes }],
+    ['escaped keyId', { keyId: 'a "quoted", \\escaped\\ key', signature: signatureBytes }],
+    ['fractional expiry', { ...fields, created: undefined, expires: new Date(1618884533123) }],
+    ['zero timestamps', { ...fields, created: new Date(0), expires: new Date(0) }],
+  ])('round-trips signatures with %s', (_name, fields) => {
+    const observedAt = new Date()
+    const signature = Signature.create(fields, observedAt)
+    const parsed = Signature.fromHeader(signature.toHeader(), observedAt)
+
+    expect(parsed).toEqual(signature)
+    expect(parsed.toHeader()).toBe(signature.toHeader())
+  })
+
+  test('round-trips parsed signatures', () => {
+    const header =
+      'keyId="test",algorithm="rsa-sha256",headers="(request-target) date",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="'
+
+    expect(Signature.fromHeader(header).toHeader()).toBe(header)
+  })
+
+  test.each([
+    ['empty keyId', { keyId: '', signature: signatureBytes }],
+    ['empty signature', { keyId: 'test', signature: Buffer.alloc(0) }],
+    ['control character in keyId', { keyId: 'a\nb', signature: signatureBytes }],
+    ['invalid header name', { keyId: 'test', signature: signatureBytes, headers: ['content type'] }],
+    ['sub-second creation time', { keyId: 'test', signature: signatureBytes, created: new Date(1500) }],
+    ['negative expiry time', { keyId: 'test', signature: signatureBytes, expires: new Date(-1000) }],
+  ])('refuses to serialize %s', (_name, fields) => {
+    expect(() => Signature.create(fields).toHeader()).toThrow(ConfigurationError)
+  })
+})
+
+describe('Signature (RFC 9421)', () => {
+  const signatureInput =
+    'sig-b25=("date" "@authority" "content-type");created=1618884473;keyid="test-shared-secret";alg="hmac-sha256"'
+  const signatureValue = 'sig-b25=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:'
+
+  test('can parse valid signature input', () => {
+    const [signature, ...rest] = Signature.fromSignatureInput(signatureInput, signatureValue)
+
+    expect(rest).toHaveLength(0)
+    expect(signature.version).toBe('rfc9421')
+    expect(signature.keyId).toBe('test-shared-secret')
+    expect(signature.headers).toEqual(['date', '@authority', 'content-type'])
+    expect(signature.created?.valueOf()).toBe(1618884473000)
+    expect(signature.signature).toEqual(Buffer.from('pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=', 'base64'))
+    expect(signature.input).toEqual({
+      label: 'sig-b25',
+      params: '("date" "@authority" "content-type");created=1618884473;keyid="test-shared-secret";alg="hmac-sha256"',
+      algorithm: 'hmac-sha256',
+    })
+  })
+
+  test('re-serializes signature parameters canonically', () => {
+    const [signature] = Signature.fromSignatureInput(
+      'sig1=( "@method"  "@query-param";name="a" );keyid="a\\"b";foo=bar;baz',
+      'sig1=:AAAA:',
+    )
+
+    expect(signature.headers).toEqual(['@method', '@query-param;name="a"'])
+    expect(signature.input?.params).toBe('("@method" "@query-param";name="a");keyid="a\\"b";foo=bar;baz')
+  })
+
+  test.each([
+    { name: 'missing signature', input: signatureInput, signature: 'other=:AAAA:' },
+    { name: 'missing keyid', input: 'sig1=("date")', signature: 'sig1=:AAAA:' },
+    { name: 'unknown algorithm', input: 'sig1=();keyid="a";alg="foo"', signature: 'sig1=:AAAA:' },
+    { name: 'non-string component', input: 'sig1=(date);keyid="a"', signature: 'sig1=:AAAA:' },
+    { name: 'unterminated inner list', input: 'sig1=("date";keyid="a"', signature: 'sig1=:AAAA:' },
+    { name: 'trailing comma', input: `${signatureInput},`, signature: signatureValue },
+    { name: 'non-byte-sequence signature', input: signatureInput, signature: 'sig-b25="AAAA"' },
+  ])('rejects malformed input ($name)', ({ input, signature }) => {
+    expect(() => Signature.fromSignatureInput(input, signature)).toThrow(VerificationError)
+  })
+
+  test('serializes signature headers', () => {
+    const [signature] = Signature.fromSignatureInput(signatureInput, signatureValue)
+
+    expect(signature.toHeaders()).toEqual({ 'signature-input': signatureInput, signature: signatureValue })
+    expect(() => signature.toHeader()).toThrow(ConfigurationError)
+    expect(() => signature.toHeaders(SignatureHeader.AUTHORIZATION)).toThrow(ConfigurationError)
+  })
+})
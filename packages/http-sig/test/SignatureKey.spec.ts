@@ -0,0 +1,851 @@
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  DigestHeader,
+  DigestSource,
+  ErrorCode,
+  HmacAlgorithm,
+  HttpSigVersion,
+  MemoryReplayStore,
+  Signature,
+  SignatureHeaders,
+  HeaderSignSpec,
+  SignatureKeyManager,
+  SignatureOptions,
+  SigningTimes,
+  SignatureAlgorithm,
+  signatures,
+  VerificationError,
+  WebReadableStream,
+} from '../src'
+import { MessageContext } from '../src/MessageContext'
+
+import * as crypto from 'crypto'
+import { PassThrough, pipeline, Readable } from 'stream'
+import { promisify } from 'util'
+
+const mockRequest = (method: string, path: string, headers: { [header: string]: string[] }) => ({
+  requestTarget: { method, path },
+  getHeader(header: string): string[] | undefined {
+    return headers[header]
+  },
+})
+
+const sharedSecret = crypto.createSecretKey(
+  Buffer.from('uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhIDi6pcl8jsasjlTMtDQ==', 'base64'),
+)
+
+const requestHeaders = {
+  host: ['example.com'],
+  date: ['Tue, 20 Apr 2021 02:07:55 GMT'],
+  'content-type': ['application/json'],
+  digest: ['SHA-256=X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE='],
+}
+
+describe('SignatureKey (RFC 9421)', () => {
+  const sig = signatures({
+    version: HttpSigVersion.RFC_9421,
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    keyId: 'test-shared-secret',
+    digest: DigestAlgorithm.SHA256,
+    algorithm: HmacAlgorithm.SHA256,
+    key: sharedSecret,
+    requestHeaders: { '(request-target)': true, host: true, date: 'sign' },
+  })
+
+  test('verifies reference signature from spec', async () => {
+    const key = await sig.getKey('test-shared-secret')
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo?param=Value&Pet=dog', {
+        ...requestHeaders,
+        'signature-input': [
+          'sig-b25=("date" "@authority" "content-type");created=1618884473;keyid="test-shared-secret"',
+        ],
+        signature: ['sig-b25=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:'],
+      }),
+    )
+
+    // The reference signature does not cover the locally required components
+    expect(() => key.verifyRequest(msgCtx)).toThrow(
+      'signature missing required headers: @method, @request-target, host',
+    )
+  })
+
+  test('signs and verifies requests', async () => {
+    const key = await sig.getKey('test-shared-secret')
+    const signatureHeaders = key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+
+    expect(signatureHeaders['signature-input']).toBe(
+      'sig1=("@method" "@request-target" "host" "date" "digest");keyid="test-shared-secret";alg="hmac-sha256"',
+    )
+    expect(signatureHeaders.signature).toMatch(/^sig1=:[A-Za-z0-9+/]+=*:$/)
+
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        'signature-input': [signatureHeaders['signature-input']],
+        signature: [signatureHeaders.signature],
+      }),
+    )
+    expect(key.verifyRequest(msgCtx)).toBe(true)
+
+    const tamperedCtx = new MessageContext(
+      mockRequest('POST', '/bar', {
+        ...requestHeaders,
+        'signature-input': [signatureHeaders['signature-input']],
+        signature: [signatureHeaders.signature],
+      }),
+    )
+    expect(() => key.verifyRequest(tamperedCtx)).toThrow('signature verification failure')
+  })
+
+  test('rejects draft-cavage signatures', async () => {
+    const key = await sig.getKey('test-shared-secret')
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        signature: ['keyId="test-shared-secret",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="'],
+      }),
+    )
+
+    expect(() => key.verifyRequest(msgCtx)).toThrow(`signature for key 'test-shared-secret' must use rfc9421`)
+  })
+
+  test('rejects mismatched alg parameter', async () => {
+    const key = await sig.getKey('test-shared-secret')
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        'signature-input': ['sig1=("date");keyid="test-shared-secret";alg="ecdsa-p256-sha256"'],
+        signature: ['sig1=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:'],
+      }),
+    )
+
+    expect(() => key.verifyRequest(msgCtx)).toThrow(`incorrect signature algorithm used for key 'test-shared-secret'`)
+  })
+})
+
+describe('SignatureKey digests', () => {
+  const body = Buffer.from('{"hello": "world"}')
+
+  const keyWithDigest = (digest: DigestAlgorithm, digestHeader: DigestHeader) =>
+    signatures({
+      version: HttpSigVersion.RFC_9421,
+      keyLookup: () => ({
+        signatureAlgorithm: SignatureAlgorithm.HS2019,
+        digest,
+        algorithm: HmacAlgorithm.SHA256,
+        key: sharedSecret,
+        options: { digestHeader },
+      }),
+    }).getKey('test')
+
+  test.each([
+    {
+      digest: DigestAlgorithm.SHA256,
+      digestHeader: DigestHeader.DIGEST,
+      expected: 'SHA-256=X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=',
+    },
+    {
+      digest: DigestAlgorithm.SHA256,
+      digestHeader: DigestHeader.CONTENT_DIGEST,
+      expected: 'sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:',
+    },
+    {
+      digest: DigestAlgorithm.SHA512,
+      digestHeader: DigestHeader.REPR_DIGEST,
+      expected: 'sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:',
+    },
+  ])('creates and verifies $digestHeader with $digest', async ({ digest, digestHeader, expected }) => {
+    const key = await keyWithDigest(digest, digestHeader)
+
+    expect(key.digestHeader).toBe(digestHeader)
+    expect(key.createDigestHeader(body)).toBe(expected)
+    expect(key.verifyDigestHeader(body, expected)).toBe(true)
+    expect(() => key.verifyDigestHeader(Buffer.from('{}'), expected)).toThrow('body digest verification failed')
+  })
+
+  test('selects the configured algorithm from structured digests', async () => {
+    const key = await keyWithDigest(DigestAlgorithm.SHA256, DigestHeader.CONTENT_DIGEST)
+
+    expect(key.verifyDigestHeader(body, 'md5=:AAAA:, sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:')).toBe(
+      true,
+    )
+    expect(() => key.verifyDigestHeader(body, 'sha-512=:AAAA:')).toThrow(
+      'mismatched digest algorithm: expected sha-256',
+    )
+    expect(() => key.verifyDigestHeader(body, 'sha-256="X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE="')).toThrow(
+      'malformed content-digest header',
+    )
+    expect(() => key.verifyDigestHeader(body, 'sha-256=:AAAA:')).toThrow(VerificationError)
+  })
+
+  test('signs the configured digest header', async () => {
+    const key = await keyWithDigest(DigestAlgorithm.SHA256, DigestHeader.CONTENT_DIGEST)
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo', {
+        host: ['example.com'],
+        'content-digest': ['sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:'],
+      }),
+    )
+
+    expect(key.signRequestHeaders(msgCtx)['signature-input']).toBe(
+      'sig1=("@method" "@request-target" "host" "content-digest");keyid="test";alg="hmac-sha256"',
+    )
+  })
+})
+
+describe('SignatureKey streaming digests', () => {
+  const chunks = ['{"hello"', ': ', '"world"}']
+  const expected = 'sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:'
+  const wrong = 'sha-256=:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=:'
+
+  const key = signatures({
+    version: HttpSigVersion.RFC_9421,
+    keyId: 'test',
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    digest: DigestAlgorithm.SHA256,
+    algorithm: HmacAlgorithm.SHA256,
+    key: sharedSecret,
+    digestHeader: DigestHeader.CONTENT_DIGEST,
+  }).getKey('test')
+
+  // Web streams are available at runtime from Node.js 18, but not in the Node 14 typings
+  const hasWebStreams = typeof (globalThis as { ReadableStream?: unknown }).ReadableStream === 'function'
+  const webStreamTest = hasWebStreams ? test : test.skip
+
+  const webStream = (chunks: unknown[]) => {
+    const { ReadableStream } = globalThis as unknown as {
+      ReadableStream: new (source: { start(controller: { enqueue(chunk: unknown): void; close(): void }): void }) => any
+    }
+    return new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk))
+        controller.close()
+      },
+    })
+  }
+
+  const readWebStream = async (stream: any): Promise<Buffer> => {
+    const parts: Uint8Array[] = []
+    for await (const chunk of stream) parts.push(chunk)
+    return Buffer.concat(parts)
+  }
+
+  const collect = async (source: AsyncIterable<Buffer>): Promise<Buffer> => {
+    const parts: Buffer[] = []
+    for await (const chunk of source) parts.push(chunk)
+    return Buffer.concat(parts)
+  }
+
+  test.each([
+    ['readable streams', () => Readable.from(chunks)],
+    [
+      'async iterables',
+      () =>
+        (async function* () {
+          yield* chunks.map((chunk) => Uint8Array.from(Buffer.from(chunk)))
+        })(),
+    ],
+    ...(hasWebStreams ? [['web streams', () => webStream(chunks.map((chunk) => Buffer.from(chunk)))]] : []),
+  ] as [string, () => DigestSource][])('creates digests from %s', async (_name, source) => {
+    expect(await (await key).createStreamDigestHeader(source())).toBe(expected)
+  })
+
+  test('digests data passing through a transform', async () => {
+    const transform = (await key).createDigestTransform()
+
+    const output = collect(Readable.from(chunks).pipe(transform))
+    expect(await transform.digestHeader).toBe(expected)
+    expect((await output).toString()).toBe(chunks.join(''))
+  })
+
+  test('verifies data passing through a transform', async () => {
+    const transform = (await key).verifyDigestTransform(expected)
+
+    await promisify(pipeline)(Readable.from(chunks), transform, new PassThrough())
+    expect(await transform.digestHeader).toBe(expected)
+  })
+
+  test('fails transforms on digest mismatch', async () => {
+    const transform = (await key).verifyDigestTransform(wrong)
+
+    await expect(promisify(pipeline)(Readable.from(chunks), transform, new PassThrough())).rejects.toThrow(
+      'body digest verification failed',
+    )
+    await expect(transform.digestHeader).rejects.toThrow(VerificationError)
+  })
+
+  test('rejects malformed digests before streaming', async () => {
+    const k = await key
+
+    expect(() => k.verifyDigestTransform('sha-512=:AAAA:')).toThrow('mismatched digest algorithm: expected sha-256')
+    expect(() => k.verifyDigestStream(Readable.from(chunks), 'sha-256=:AAAA')).toThrow(VerificationError)
+  })
+
+  test('verifies async iterables', async () => {
+    const verified = (await key).verifyDigestStream(Readable.from(chunks), expected)
+    expect((await collect(verified)).toString()).toBe(chunks.join(''))
+
+    const received: string[] = []
+    const failing = (await key).verifyDigestStream(Readable.from(chunks), wrong)
+    await expect(
+      (async () => {
+        for await (const chunk of failing) received.push(chunk.toString())
+      })(),
+    ).rejects.toThrow('body digest verification failed')
+    expect(received).toEqual(chunks)
+  })
+
+  webStreamTest('verifies web streams', async () => {
+    const verified = (await key).verifyDigestWebStream(webStream(chunks), expected)
+    expect((await readWebStream(verified)).toString()).toBe(chunks.join(''))
+
+    const failing = (await key).verifyDigestWebStream(webStream(chunks), wrong)
+    await expect(readWebStream(failing)).rejects.toThrow('body digest verification failed')
+  })
+
+  test('requires the runtime to provide web streams', async () => {
+    const k = await key
+    const globals = globalThis as { ReadableStream?: unknown }
+    const ReadableStream_ = globals.ReadableStream
+    // The stream is not read before the ReadableStream to return is created
+    const body = {} as WebReadableStream<Buffer>
+
+    try {
+      delete globals.ReadableStream
+      expect(() => k.verifyDigestWebStream(body, expected)).toThrow(ConfigurationError)
+    } finally {
+      if (ReadableStream_) globals.ReadableStream = ReadableStream_
+    }
+  })
+})
+
+describe('SignatureKey lifetimes', () => {
+  const created = new Date('2021-04-20T02:07:53.999Z')
+  const createdSecs = 1618884473
+
+  const keyWithOptions = (version: HttpSigVersion, options: SignatureOptions) =>
+    signatures({
+      version,
+      signatureAlgorithm: SignatureAlgorithm.HS2019,
+      keyId: 'test',
+      digest: DigestAlgorithm.SHA256,
+      algorithm: HmacAlgorithm.SHA256,
+      key: sharedSecret,
+      calculateDigest: false,
+      ...options,
+    }).getKey('test')
+
+  const signedRequest = (signatureHeaders: SignatureHeaders) =>
+    new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        ...Object.fromEntries(Object.entries(signatureHeaders).map(([header, value]) => [header, [value]])),
+      }),
+    )
+
+  test('does not sign timestamps by default', async () => {
+    const key = await keyWithOptions(HttpSigVersion.DRAFT_CAVAGE_12, {})
+
+    expect(key.signRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))).not.toContain('created')
+  })
+
+  test('signs (created) and (expires) pseudo-headers', async () => {
+    const key = await keyWithOptions(HttpSigVersion.DRAFT_CAVAGE_12, { requestLifetime: { created: true, ttl: 300 } })
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', requestHeaders))
+    const signature = key.signRequest(msgCtx, { created })
+
+    expect(signature).toContain(
+      `created=${createdSecs},expires=${createdSecs + 300},headers="(request-target) host (created) (expires)"`,
+    )
+
+    const mac = crypto
+      .createHmac('sha256', sharedSecret)
+      .update(
+        `(request-target): post /foo\nhost: example.com\n(created): ${createdSecs}\n(expires): ${createdSecs + 300}`,
+      )
+      .digest('base64')
+    expect(signature).toContain(`signature="${mac}"`)
+  })
+
+  test('verifies signed (created) and (expires) pseudo-headers', async () => {
+    const key = await keyWithOptions(HttpSigVersion.DRAFT_CAVAGE_12, { requestLifetime: { created: true, ttl: 300 } })
+    const signatureHeaders = key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+
+    expect(key.verifyRequest(signedRequest(signatureHeaders))).toBe(true)
+
+    const expired = key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)), {
+      created,
+    })
+    expect(() => key.verifyRequest(signedRequest(expired))).toThrow('signature has expired')
+  })
+
+  test('signs created and expires signature parameters', async () => {
+    const key = await keyWithOptions(HttpSigVersion.RFC_9421, { requestLifetime: { created: true } })
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', requestHeaders))
+    const expires = new Date((createdSecs + 60) * 1000)
+
+    expect(key.signRequestHeaders(msgCtx, { created, expires })['signature-input']).toBe(
+      `sig1=("@method" "@request-target" "host");created=${createdSecs};expires=${createdSecs + 60}` +
+        ';keyid="test";alg="hmac-sha256"',
+    )
+
+    const signatureHeaders = key.signRequestHeaders(msgCtx)
+    expect(signatureHeaders['signature-input']).toMatch(/;created=\d+;keyid="test"/)
+    expect(key.verifyRequest(signedRequest(signatureHeaders))).toBe(true)
+  })
+
+  test('uses separate lifetimes for requests and responses', async () => {
+    const key = await keyWithOptions(HttpSigVersion.RFC_9421, {
+      requestLifetime: { created: true },
+      responseLifetime: { ttl: 30 },
+      responseHeaders: { date: true },
+    })
+    const response = new MessageContext({
+      status: 200,
+      getHeader: (header: string) => (header === 'date' ? requestHeaders.date : undefined),
+    })
+
+    expect(key.signResponseHeaders(response, { created })['signature-input']).toBe(
+      `sig1=("date");created=${createdSecs};expires=${createdSecs + 30};keyid="test";alg="hmac-sha256"`,
+    )
+    expect(key.signResponseHeaders(response)['signature-input']).toMatch(/^sig1=\("date"\);expires=\d+;keyid/)
+  })
+
+  test('uses timestamps required by the header spec', async () => {
+    const key = await keyWithOptions(HttpSigVersion.DRAFT_CAVAGE_12, {
+      requestHeaders: { '(created)': true, '(request-target)': true },
+    })
+    const signature = key.signRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)), { created })
+
+    expect(signature).toContain(`created=${createdSecs},headers="(created) (request-target)"`)
+  })
+
+  test('requires RFC 9421 timestamps required by the header spec', async () => {
+    const signer = await keyWithOptions(HttpSigVersion.RFC_9421, {})
+    const verifier = await keyWithOptions(HttpSigVersion.RFC_9421, {
+      requestHeaders: { '(request-target)': true, host: true, '(created)': 'verify', '(expires)': 'verify' },
+    })
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', requestHeaders))
+
+    expect(() => verifier.verifyRequest(signedRequest(signer.signRequestHeaders(msgCtx)))).toThrow(
+      'signature missing required headers: (created), (expires)',
+    )
+    expect(
+      verifier.verifyRequest(
+        signedRequest(
+          signer.signRequestHeaders(msgCtx, { created: new Date(), expires: new Date(Date.now() + 60_000) }),
+        ),
+      ),
+    ).toBe(true)
+  })
+
+  test('rejects invalid lifetimes', async () => {
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', requestHeaders))
+
+    const expiring = await keyWithOptions(HttpSigVersion.RFC_9421, { requestHeaders: { '(expires)': true } })
+    expect(() => expiring.signRequest(msgCtx)).toThrow('cannot sign (expires) without a signature ttl or expiry time')
+
+    const negative = await keyWithOptions(HttpSigVersion.RFC_9421, { requestLifetime: { ttl: -1 } })
+    expect(() => negative.signRequest(msgCtx)).toThrow('signature ttl must be positive, got -1')
+
+    const key = await keyWithOptions(HttpSigVersion.RFC_9421, { requestLifetime: { created: true } })
+    expect(() => key.signRequest(msgCtx, { created, expires: created })).toThrow(
+      'signature expiry must be later than its creation',
+    )
+  })
+
+  test('rejects timestamps with legacy algorithms', async () => {
+    const key = await signatures({
+      version: HttpSigVersion.DRAFT_CAVAGE_12,
+      requestLifetime: { created: true },
+      keyLookup: () => ({
+        signatureAlgorithm: SignatureAlgorithm.HMAC_SHA256,
+        algorithm: HmacAlgorithm.SHA256,
+        key: sharedSecret,
+      }),
+    }).getKey('test')
+
+    expect(() => key.signRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))).toThrow(
+      '(created) and (expires) cannot be used with the hmac-sha256 algorithm',
+    )
+  })
+})
+
+describe('SignatureKey clock tolerances', () => {
+  const signedAt = new Date('2021-04-20T02:07:53Z')
+  const atOffset = (seconds: number) => () => new Date(signedAt.valueOf() + seconds * 1000)
+
+  const manager = (options: SignatureOptions, keyOptions?: SignatureOptions) =>
+    signatures({
+      version: HttpSigVersion.RFC_9421,
+      requestLifetime: { created: true, ttl: 60 },
+      calculateDigest: false,
+      ...options,
+      keyLookup: () => ({
+        signatureAlgorithm: SignatureAlgorithm.HS2019,
+        digest: DigestAlgorithm.SHA256,
+        algorithm: HmacAlgorithm.SHA256,
+        key: sharedSecret,
+        options: keyOptions,
+      }),
+    })
+
+  const verifyAt = async (offset: number, options: SignatureOptions, keyOptions?: SignatureOptions) => {
+    const signer = await manager({ clock: atOffset(0) }).getKey('test')
+    const signatureHeaders = signer.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+    const verifier = await manager({ clock: atOffset(offset), ...options }, keyOptions).getKey('test')
+
+    return () =>
+      verifier.verifyRequest(
+        new MessageContext(
+          mockRequest('POST', '/foo', {
+            ...requestHeaders,
+            'signature-input': [signatureHeaders['signature-input']],
+            signature: [signatureHeaders.signature],
+          }),
+        ),
+      )
+  }
+
+  test('timestamps signatures with the configured clock', async () => {
+    const key = await manager({ clock: atOffset(0) }).getKey('test')
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', requestHeaders))
+
+    expect(key.signRequestHeaders(msgCtx)['signature-input']).toContain(';created=1618884473;expires=1618884533;')
+  })
+
+  test('allows future creation within the skew', async () => {
+    expect(await verifyAt(-30, { futureSkew: 31 })).not.toThrow()
+    expect(await verifyAt(-30, { futureSkew: 30 })).toThrow('signature creation in future')
+  })
+
+  test('allows expired signatures within the grace period', async () => {
+    expect(await verifyAt(90, { expiryGrace: 31 })).not.toThrow()
+    expect(await verifyAt(90, { expiryGrace: 30 })).toThrow('signature has expired')
+  })
+
+  test('rejects signatures older than the maximum age', async () => {
+    expect(await verifyAt(30, {})).not.toThrow()
+    expect(await verifyAt(30, { maxAge: 30 })).not.toThrow()
+    expect(await verifyAt(30, { maxAge: 29 })).toThrow('signature is too old')
+  })
+
+  test('checks signatures parsed ahead of time against the configured clock', async () => {
+    const signer = await manager({ clock: atOffset(0) }).getKey('test')
+    const signatureHeaders = signer.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+    const verifier = await manager({ clock: atOffset(30) }).getKey('test')
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        'signature-input': [signatureHeaders['signature-input']],
+        signature: [signatureHeaders.signature],
+      }),
+    )
+
+    // Parsed without a time, so observed now rather than at the clock's time
+    expect(verifier.verifyRequest(msgCtx, msgCtx.getSignature())).toBe(true)
+  })
+
+  test('requires a signed creation time to limit the maximum age', async () => {
+    const signer = await manager({ clock: atOffset(0), requestLifetime: { ttl: 60 } }).getKey('test')
+    const signatureHeaders = signer.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+    const verifier = await manager({ clock: atOffset(30), maxAge: 60 }).getKey('test')
+
+    expect(() =>
+      verifier.verifyRequest(
+        new MessageContext(
+          mockRequest('POST', '/foo', {
+            ...requestHeaders,
+            'signature-input': [signatureHeaders['signature-input']],
+            signature: [signatureHeaders.signature],
+          }),
+        ),
+      ),
+    ).toThrow('signature creation time not signed')
+  })
+
+  test('applies per-key tolerances', async () => {
+    expect(await verifyAt(30, { maxAge: 29 }, { maxAge: 60 })).not.toThrow()
+    expect(await verifyAt(90, { expiryGrace: 60 }, { expiryGrace: 0 })).toThrow('signature has expired')
+  })
+
+  test('rejects invalid tolerances', async () => {
+    await expect(manager({ futureSkew: -1 }).getKey('test')).rejects.toThrow(
+      'key config for test has invalid option futureSkew: -1',
+    )
+    await expect(manager({}, { maxAge: NaN }).getKey('test')).rejects.toThrow(
+      'key config for test has invalid option maxAge: NaN',
+    )
+  })
+})
+
+describe('SignatureKey inspection', () => {
+  const signedAt = new Date('2021-04-20T02:07:53Z')
+  const body = Buffer.from('{"hello": "world"}')
+
+  const manager = (
+    clock: () => Date,
+    requestHeaders: HeaderSignSpec = { '(request-target)': true, host: true, date: true },
+  ) =>
+    signatures({
+      version: HttpSigVersion.RFC_9421,
+      requestLifetime: { created: true, ttl: 60 },
+      requestHeaders,
+      clock,
+      keyId: 'test',
+      signatureAlgorithm: SignatureAlgorithm.HS2019,
+      digest: DigestAlgorithm.SHA256,
+      algorithm: HmacAlgorithm.SHA256,
+      key: sharedSecret,
+    })
+
+  const signedRequest = async (
+    headers: { [header: string]: string[] } = requestHeaders,
+    signedHeaders?: HeaderSignSpec,
+  ) => {
+    const key = await manager(() => signedAt, signedHeaders).getKey('test')
+    const signatureHeaders = key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', headers)))
+
+    return new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...headers,
+        'signature-input': [signatureHeaders['signature-input']],
+        signature: [signatureHeaders.signature],
+      }),
+    )
+  }
+
+  test('reports the details of verified signatures', async () => {
+    const key = await manager(() => signedAt).getKey('test')
+
+    expect(key.inspectRequest(await signedRequest(), { body })).toEqual({
+      verified: true,
+      keyId: 'test',
+      algorithm: 'hmac-sha256',
+      components: ['@method', '@request-target', 'host', 'date', 'digest'],
+      created: new Date('2021-04-20T02:07:53Z'),
+      expires: new Date('2021-04-20T02:08:53Z'),
+      digestMatch: true,
+      failures: [],
+    })
+  })
+
+  test('reports every failed check', async () => {
+    const key = await manager(() => new Date(signedAt.valueOf() + 3600_000)).getKey('test')
+    const msgCtx = await signedRequest({ ...requestHeaders, digest: ['SHA-256=AAAA'] }, { host: true })
+    const result = key.inspectRequest(msgCtx, { body })
+
+    expect(result.verified).toBe(false)
+    expect(result.digestMatch).toBe(false)
+    expect(result.failures.map((failure) => failure.message)).toEqual([
+      'signature missing required headers: @method, @request-target, date',
+      'signature has expired',
+      'body digest verification failed',
+    ])
+    expect(result.failures.every((failure) => failure instanceof VerificationError)).toBe(true)
+  })
+
+  test('reports invalid signatures', async () => {
+    const key = await manager(() => signedAt).getKey('test')
+    const signatureInput = (await signedRequest()).getHeader('signature-input') as string[]
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        'signature-input': signatureInput,
+        signature: [`sig1=:${Buffer.alloc(32).toString('base64')}:`],
+      }),
+    )
+
+    const result = key.inspectRequest(msgCtx)
+    expect(result.verified).toBe(false)
+    expect(result.digestMatch).toBeUndefined()
+    expect(result.failures.map((failure) => failure.message)).toEqual(['signature verification failure'])
+  })
+
+  test('reports missing signatures', async () => {
+    const key = await manager(() => signedAt).getKey('test')
+
+    expect(key.inspectRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))).toEqual({
+      verified: false,
+      components: [],
+      failures: [new VerificationError('signature not present on message')],
+    })
+  })
+
+  test('reports unknown keys from the manager', async () => {
+    const result = await manager(() => signedAt).verifyRequestDetailed(
+      new MessageContext(
+        mockRequest('POST', '/foo', {
+          ...requestHeaders,
+          'signature-input': ['sig1=("host");created=1618884473;keyid="unknown"'],
+          signature: ['sig1=:AAAA:'],
+        }),
+      ),
+    )
+
+    expect(result).toMatchObject({ verified: false, keyId: 'unknown', components: ['host'] })
+    expect(result.failures.map((failure) => failure.message)).toEqual(['key unknown not found'])
+  })
+
+  test('inspects with the manager', async () => {
+    const result = await manager(() => signedAt).verifyRequestDetailed(await signedRequest(), { body })
+
+    expect(result).toMatchObject({ verified: true, keyId: 'test', digestMatch: true })
+  })
+
+  test('reports machine-readable error codes', async () => {
+    const key = await manager(() => new Date(signedAt.valueOf() + 3600_000)).getKey('test')
+    const msgCtx = await signedRequest({ ...requestHeaders, digest: ['SHA-256=AAAA'] }, { host: true })
+    const { failures } = key.inspectRequest(msgCtx, { body })
+
+    expect(failures.map(({ code, status }) => ({ code, status }))).toEqual([
+      { code: ErrorCode.MISSING_REQUIRED_HEADERS, status: 401 },
+      { code: ErrorCode.SIGNATURE_EXPIRED, status: 401 },
+      { code: ErrorCode.DIGEST_MISMATCH, status: 400 },
+    ])
+    expect(failures[0].context).toEqual({ keyId: 'test', missingHeaders: ['@method', '@request-target', 'date'] })
+  })
+
+  test('reports the keyId of unknown keys in the error context', async () => {
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        'signature-input': ['sig1=("host");created=1618884473;keyid="unknown"'],
+        signature: ['sig1=:AAAA:'],
+      }),
+    )
+    const error = await manager(() => signedAt)
+      .verifyRequest(msgCtx)
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(VerificationError)
+    expect(error).toMatchObject({ code: ErrorCode.KEY_NOT_FOUND, status: 403, context: { keyId: 'unknown' } })
+  })
+
+  test('throws the first failure when verifying', async () => {
+    const key = await manager(() => new Date(signedAt.valueOf() + 3600_000)).getKey('test')
+
+    const msgCtx = await signedRequest(requestHeaders, { host: true })
+
+    expect(() => key.verifyRequest(msgCtx)).toThrow(
+      'signature missing required headers: @method, @request-target, date',
+    )
+  })
+})
+
+describe('SignatureKey replay protection', () => {
+  const signedAt = new Date('2021-04-20T02:07:53Z')
+  let now = signedAt.valueOf()
+  const clock = () => new Date(now)
+
+  beforeEach(() => {
+    now = signedAt.valueOf()
+  })
+
+  const manager = (version: HttpSigVersion, options: SignatureOptions = {}) =>
+    signatures({
+      version,
+      signatureAlgorithm: SignatureAlgorithm.HS2019,
+      keyId: 'test',
+      digest: DigestAlgorithm.SHA256,
+      algorithm: HmacAlgorithm.SHA256,
+      key: sharedSecret,
+      calculateDigest: false,
+      clock,
+      replayStore: new MemoryReplayStore({ clock }),
+      ...options,
+    })
+
+  const signedRequest = (signatureHeaders: SignatureHeaders) =>
+    new MessageContext(
+      mockRequest('POST', '/foo', {
+        ...requestHeaders,
+        ...Object.fromEntries(Object.entries(signatureHeaders).map(([header, value]) => [header, [value]])),
+      }),
+    )
+
+  const verifyOnce = async (sig: SignatureKeyManager, msgCtx: MessageContext) => {
+    const signature = msgCtx.getSignature(clock()) as Signature
+    const key = await sig.getKey(signature.keyId)
+
+    key.verifyRequest(msgCtx)
+    await sig.checkReplay(key, signature)
+  }
+
+  test.each(Object.values(HttpSigVersion))('rejects replayed %s signatures', async (version) => {
+    const sig = manager(version)
+    const key = await sig.getKey('test')
+    const signatureHeaders = key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+
+    await expect(verifyOnce(sig, signedRequest(signatureHeaders))).resolves.toBeUndefined()
+    await expect(verifyOnce(sig, signedRequest(signatureHeaders))).rejects.toThrow('signature has already been used')
+  })
+
+  test('rejects replayed signatures when verified by the manager', async () => {
+    const sig = manager(HttpSigVersion.RFC_9421)
+    const key = await sig.getKey('test')
+    const msgCtx = signedRequest(
+      key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders))),
+    )
+
+    await expect(sig.verifyRequest(msgCtx)).resolves.toHaveProperty('id', 'test')
+    await expect(sig.verifyRequest(msgCtx, msgCtx.getSignature())).rejects.toThrow('signature has already been used')
+    await expect(sig.verifyRequestSignatures(msgCtx)).rejects.toThrow('signature has already been used')
+  })
+
+  test('leaves replay checks to the caller when asked', async () => {
+    const sig = manager(HttpSigVersion.RFC_9421)
+    const key = await sig.getKey('test')
+    const msgCtx = signedRequest(
+      key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders))),
+    )
+    const signature = msgCtx.getSignature() as Signature
+
+    await sig.verifyRequest(msgCtx, signature, { checkReplay: false })
+    await sig.verifyRequest(msgCtx, signature, { checkReplay: false })
+    await expect(sig.checkReplay(key, signature)).resolves.toBeUndefined()
+    await expect(sig.verifyRequest(msgCtx, signature)).rejects.toThrow('signature has already been used')
+  })
+
+  test('identifies signatures by nonce', async () => {
+    const key = await manager(HttpSigVersion.RFC_9421, { nonce: true }).getKey('test')
+    const signatureHeaders = key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+    const signature = signedRequest(signatureHeaders).getSignature() as Signature
+
+    expect(signatureHeaders['signature-input']).toMatch(/;nonce="[A-Za-z0-9+/=]+"$/)
+    expect(key.replayId(signature)).toBe(`test:nonce:${signature.input?.nonce}`)
+  })
+
+  test('identifies signatures without nonce by hash', async () => {
+    const key = await manager(HttpSigVersion.DRAFT_CAVAGE_12).getKey('test')
+    const signature = signedRequest({
+      signature: 'keyId="test",signature="3UqQIVxNJfNm8E54n35RReP9Nv05a9dEZTxr/deog3g="',
+    }).getSignature() as Signature
+
+    const hash = crypto.createHash('sha256').update(signature.signature).digest('base64')
+    expect(key.replayId(signature)).toBe(`test:signature:${hash}`)
+  })
+
+  test('remembers signatures until they would no longer verify', async () => {
+    const key = await manager(HttpSigVersion.RFC_9421, { expiryGrace: 10, maxAge: 600, replayWindow: 60 }).getKey(
+      'test',
+    )
+    const msgCtx = new MessageContext(mockRequest('POST', '/foo', requestHeaders))
+    const ttlFor = (times: SigningTimes) =>
+      key.replayTtl(signedRequest(key.signRequestHeaders(msgCtx, times)).getSignature() as Signature)
+
+    expect(ttlFor({})).toBe(60_000)
+    expect(ttlFor({ created: signedAt })).toBe(600_000)
+    expect(ttlFor({ created: signedAt, expires: new Date(now + 30_000) })).toBe(40_000)
+  })
+
+  test('rejects nonces with draft-cavage signatures', async () => {
+    const key = await manager(HttpSigVersion.DRAFT_CAVAGE_12, { nonce: true }).getKey('test')
+
+    expect(() => key.signRequest(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))).toThrow(
+      'nonces can only be signed in rfc9421 signatures',
+    )
+  })
+})
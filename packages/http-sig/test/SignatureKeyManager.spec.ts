@@ -0,0 +1,259 @@
+import {
+  DigestAlgorithm,
+  HmacAlgorithm,
+  HttpSigVersion,
+  KeyConfig,
+  KeyLookupFunction,
+  KeyVersion,
+  SignatureAlgorithm,
+  SignatureHeaders,
+  SignaturePolicy,
+  SignaturePolicyType,
+  signatures,
+} from '../src'
+import { MessageContext } from '../src/MessageContext'
+
+import * as crypto from 'crypto'
+
+const mockRequest = (method: string, path: string, headers: { [header: string]: string[] }) => ({
+  requestTarget: { method, path },
+  getHeader(header: string): string[] | undefined {
+    return headers[header]
+  },
+})
+
+const requestHeaders = {
+  host: ['example.com'],
+  digest: ['SHA-256=X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE='],
+}
+
+const keyConfig = (): KeyConfig => ({
+  signatureAlgorithm: SignatureAlgorithm.HS2019,
+  digest: DigestAlgorithm.SHA256,
+  algorithm: HmacAlgorithm.SHA256,
+  key: crypto.createSecretKey(crypto.randomBytes(32)),
+})
+
+describe.each(Object.values(HttpSigVersion))('SignatureKeyManager multiple signatures (%s)', (version) => {
+  const keys = new Map([
+    ['origin', keyConfig()],
+    ['proxy', keyConfig()],
+    ['untrusted', keyConfig()],
+  ])
+  const sig = signatures({ version, keyLookup: ({ keyId }) => (keyId === 'untrusted' ? undefined : keys.get(keyId)) })
+  // Used to sign with keys unknown to the verifier
+  const signer = signatures({ version, keyLookup: ({ keyId }) => keys.get(keyId) })
+
+  const signedHeaders = async (keyIds: string[]) => {
+    const headers: { [header: string]: string[] } = { ...requestHeaders }
+
+    for (const [idx, keyId] of keyIds.entries()) {
+      const key = await signer.getKey(keyId)
+      const signatureHeaders: SignatureHeaders = key.signRequestHeaders(
+        new MessageContext(mockRequest('POST', '/foo', requestHeaders)),
+      )
+
+      // Give each RFC 9421 signature a distinct label
+      for (const [header, value] of Object.entries(signatureHeaders)) {
+        const labelled = signatureHeaders['signature-input'] ? value.replace(/^sig1=/, `sig${idx}=`) : value
+        headers[header] = [...(headers[header] || []), labelled]
+      }
+    }
+
+    return headers
+  }
+
+  const signedBy = async (...keyIds: string[]) =>
+    new MessageContext(mockRequest('POST', '/foo', await signedHeaders(keyIds)))
+
+  const passedKeyIds = async (...args: Parameters<typeof sig.verifyRequestSignatures>) => {
+    const { passed, failed } = await sig.verifyRequestSignatures(...args)
+    return {
+      passed: passed.map(({ signature }) => signature.keyId),
+      failed: failed.map(({ signature, error }) => [signature.keyId, error?.message]),
+    }
+  }
+
+  test('accepts any trusted signature by default', async () => {
+    expect(await passedKeyIds(await signedBy('untrusted', 'proxy'))).toEqual({
+      passed: ['proxy'],
+      failed: [['untrusted', 'key untrusted not found']],
+    })
+    await expect(sig.verifyRequestSignatures(await signedBy('untrusted'))).rejects.toThrow(
+      'no signature from a trusted key passed verification',
+    )
+  })
+
+  test('requires all present signatures to pass', async () => {
+    const policy: SignaturePolicy = { type: SignaturePolicyType.ALL_PRESENT }
+
+    expect(await passedKeyIds(await signedBy('origin', 'proxy'), policy)).toEqual({
+      passed: ['origin', 'proxy'],
+      failed: [],
+    })
+    await expect(sig.verifyRequestSignatures(await signedBy('origin', 'untrusted'), policy)).rejects.toThrow(
+      'signatures failed verification: untrusted',
+    )
+  })
+
+  test('requires signatures from specific keys to pass', async () => {
+    const policy: SignaturePolicy = { type: SignaturePolicyType.REQUIRED_KEYS, keyIds: ['origin', 'proxy'] }
+
+    expect(await passedKeyIds(await signedBy('untrusted', 'proxy', 'origin'), policy)).toEqual({
+      passed: ['proxy', 'origin'],
+      failed: [['untrusted', 'key untrusted not found']],
+    })
+    await expect(sig.verifyRequestSignatures(await signedBy('origin'), policy)).rejects.toThrow(
+      'signatures from required keys did not pass verification: proxy',
+    )
+  })
+
+  test('rejects signatures which fail verification', async () => {
+    const headers = await signedHeaders(['origin', 'proxy'])
+    const tampered = new MessageContext(mockRequest('POST', '/bar', headers))
+
+    await expect(sig.verifyRequestSignatures(tampered)).rejects.toThrow(
+      'no signature from a trusted key passed verification',
+    )
+    await expect(
+      sig.verifyRequestSignatures(tampered, { type: SignaturePolicyType.REQUIRED_KEYS, keyIds: ['origin'] }),
+    ).rejects.toThrow('signatures from required keys did not pass verification: origin')
+  })
+
+  test('rejects unsigned messages', async () => {
+    await expect(sig.verifyRequestSignatures(await signedBy())).rejects.toThrow('signature not present on message')
+  })
+})
+
+describe('SignatureKeyManager key cache', () => {
+  const config = keyConfig()
+
+  const manager = (keyLookup: KeyLookupFunction) =>
+    signatures({ version: HttpSigVersion.RFC_9421, keyLookup, keyCache: { ttl: 60, negativeTtl: 60 } })
+
+  test('reuses keys between lookups', async () => {
+    const keyLookup = jest.fn(({ keyId }: { keyId: string }) => (keyId === 'known' ? config : undefined))
+    const sig = manager(keyLookup)
+
+    const [first, second] = await Promise.all([sig.getKey('known'), sig.getKey('known')])
+    expect(first).toBe(second)
+    expect(await sig.getKey('known')).toBe(first)
+    expect(await sig.tryGetKey('unknown')).toBeUndefined()
+    expect(await sig.tryGetKey('unknown')).toBeUndefined()
+    expect(keyLookup).toHaveBeenCalledTimes(2)
+  })
+
+  test('looks up invalidated keys again', async () => {
+    const keyLookup = jest.fn(() => config)
+    const sig = manager(keyLookup)
+
+    const first = await sig.getKey('known')
+    sig.invalidate('known')
+    expect(await sig.getKey('known')).not.toBe(first)
+
+    sig.clear()
+    await sig.getKey('known')
+    expect(keyLookup).toHaveBeenCalledTimes(3)
+  })
+
+  test('looks up keys on each use without a cache', async () => {
+    const keyLookup = jest.fn(() => config)
+    const sig = signatures({ version: HttpSigVersion.RFC_9421, keyLookup })
+
+    expect(await sig.getKey('known')).not.toBe(await sig.getKey('known'))
+    expect(keyLookup).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('SignatureKeyManager key rotation', () => {
+  const now = new Date('2024-06-01T00:00:00Z')
+  const old = {
+    ...keyConfig(),
+    notBefore: new Date('2024-01-01T00:00:00Z'),
+    notAfter: new Date('2024-05-31T23:59:00Z'),
+  }
+  const current = { ...keyConfig(), notBefore: new Date('2024-05-31T00:00:00Z') }
+  const next = { ...keyConfig(), notBefore: new Date('2024-07-01T00:00:00Z') }
+
+  const manager = (versions: KeyVersion[], options: { rotationGrace?: number } = {}) =>
+    signatures({ version: HttpSigVersion.RFC_9421, keyLookup: () => versions, clock: () => now, ...options })
+
+  // Signs with a version regardless of its validity
+  const signedWith = async ({ notBefore, notAfter, ...config }: KeyVersion) => {
+    const key = await manager([config as KeyConfig]).getKey('rotated')
+    const signatureHeaders = key.signRequestHeaders(new MessageContext(mockRequest('POST', '/foo', requestHeaders)))
+    const headers = Object.fromEntries(Object.entries(signatureHeaders).map(([header, value]) => [header, [value]]))
+
+    return new MessageContext(mockRequest('POST', '/foo', { ...requestHeaders, ...headers }))
+  }
+
+  test('signs with the newest valid version', async () => {
+    const sig = manager([old, current, next])
+    const key = await sig.getKey('rotated')
+
+    expect(key.verifyRequest(await signedWith(current))).toBe(true)
+    const oldMessage = await signedWith(old)
+    expect(() => key.verifyRequest(oldMessage)).toThrow('signature verification failure')
+  })
+
+  test('prefers later versions valid from the same time', async () => {
+    const replacement = { ...keyConfig(), notBefore: current.notBefore }
+    const sig = manager([current, replacement])
+    const key = await sig.getKey('rotated')
+
+    expect(key.verifyRequest(await signedWith(replacement))).toBe(true)
+    await expect(sig.verifyRequest(await signedWith(current))).resolves.not.toBe(key)
+  })
+
+  test('verifies with every valid version', async () => {
+    const sig = manager([old, current, next], { rotationGrace: 120 })
+
+    expect(await sig.getVerificationKeys('rotated')).toHaveLength(2)
+    await expect(sig.verifyRequest(await signedWith(current))).resolves.toBeDefined()
+    await expect(sig.verifyRequest(await signedWith(old))).resolves.toBeDefined()
+    await expect(sig.verifyRequest(await signedWith(next))).rejects.toThrow('signature verification failure')
+  })
+
+  test('rejects expired versions after the grace window', async () => {
+    const sig = manager([old, current], { rotationGrace: 30 })
+
+    await expect(sig.verifyRequest(await signedWith(old))).rejects.toThrow('signature verification failure')
+    await expect(sig.verifyRequestSignatures(await signedWith(old))).rejects.toThrow(
+      'no signature from a trusted key passed verification',
+    )
+  })
+
+  test('never signs with expired versions', async () => {
+    const sig = manager([old], { rotationGrace: 120 })
+
+    expect(await sig.tryGetKey('rotated')).toBeUndefined()
+    await expect(sig.getKey('rotated')).rejects.toThrow('key rotated not found')
+    await expect(sig.verifyRequest(await signedWith(old))).resolves.toBeDefined()
+  })
+
+  test('rejects keys with no valid version', async () => {
+    const sig = manager([next])
+
+    await expect(sig.verifyRequest(await signedWith(next))).rejects.toThrow(
+      'key rotated has no currently valid version',
+    )
+  })
+
+  test('treats no versions as an unknown key', async () => {
+    const sig = manager([])
+
+    expect(await sig.tryGetKey('rotated')).toBeUndefined()
+    await expect(sig.verifyRequest(await signedWith(current))).rejects.toThrow('key rotated not found')
+  })
+
+  test.each([
+    [{ notBefore: new Date('invalid') }, 'key config for rotated has invalid notBefore: Invalid Date'],
+    [{ notAfter: '2024-01-01' as unknown as Date }, 'key config for rotated has invalid notAfter: 2024-01-01'],
+    [
+      { notBefore: new Date('2024-02-01T00:00:00Z'), notAfter: new Date('2024-01-01T00:00:00Z') },
+      'key config for rotated has notAfter before its notBefore',
+    ],
+  ])('rejects invalid validity times %#', async (times, message) => {
+    await expect(manager([{ ...keyConfig(), ...times }]).getKey('rotated')).rejects.toThrow(message)
+  })
+})
@@ -0,0 +1,254 @@
+import {
+  ConfigurationError,
+  createAcceptSignature,
+  createChallenge,
+  DigestAlgorithm,
+  ErrorCode,
+  HmacAlgorithm,
+  HttpSigVersion,
+  parseAcceptSignature,
+  parseChallenge,
+  readSignatureRequests,
+  SignatureAlgorithm,
+  signatures,
+  VerificationError,
+} from '../src'
+import { parseAuthParams, parseChallenges, serializeAuthParams } from '../src/auth-params'
+import { MessageContext } from '../src/MessageContext'
+import { HeaderSignSpec } from '../src/types'
+
+import * as crypto from 'crypto'
+
+const mockRequest = (method: string, path: string, headers: { [header: string]: string[] }) => ({
+  requestTarget: { method, path },
+  getHeader(header: string): string[] | undefined {
+    return headers[header]
+  },
+})
+
+const sharedSecret = crypto.createSecretKey(crypto.randomBytes(32))
+
+const requestHeaders = {
+  host: ['example.com'],
+  date: ['Tue, 20 Apr 2021 02:07:55 GMT'],
+  'content-type': ['application/json'],
+}
+
+const manager = (version: HttpSigVersion, headers: HeaderSignSpec, requestLifetime = {}) =>
+  signatures({
+    version,
+    requestHeaders: headers,
+    requestLifetime,
+    calculateDigest: false,
+    keyId: 'test',
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    digest: DigestAlgorithm.SHA256,
+    algorithm: HmacAlgorithm.SHA256,
+    key: sharedSecret,
+  })
+
+describe('authentication parameters', () => {
+  test('parses tokens and quoted strings', () => {
+    expect(parseAuthParams('a=b, C = "d \\"e\\" \\\\f" ,, g=1')).toEqual(
+      new Map([
+        ['a', 'b'],
+        ['c', 'd "e" \\f'],
+        ['g', '1'],
+      ]),
+    )
+  })
+
+  test.each(['a', 'a=', '=b', 'a="b', 'a=b c=d', 'a=b, a=c', 'a="\x01"'])('rejects %j', (input) => {
+    expect(() => parseAuthParams(input)).toThrow(VerificationError)
+  })
+
+  test('parses multiple challenges', () => {
+    expect(parseChallenges('Basic realm="a, b", Bearer, Negotiate abc==, Signature realm=x, headers="date"')).toEqual([
+      { scheme: 'Basic', params: new Map([['realm', 'a, b']]) },
+      { scheme: 'Bearer', params: new Map() },
+      { scheme: 'Negotiate', token68: 'abc==', params: new Map() },
+      {
+        scheme: 'Signature',
+        params: new Map([
+          ['realm', 'x'],
+          ['headers', 'date'],
+        ]),
+      },
+    ])
+  })
+
+  test('serializes parameters as quoted strings', () => {
+    expect(
+      serializeAuthParams([
+        ['realm', 'a "b" \\c'],
+        ['created', 1618884473],
+      ]),
+    ).toBe('realm="a \\"b\\" \\\\c",created=1618884473')
+  })
+
+  test.each([
+    ['a b', 'c'],
+    ['a', 'b\nc'],
+  ])('refuses to serialize %j=%j', (name, value) => {
+    expect(() => serializeAuthParams([[name, value]])).toThrow(ConfigurationError)
+  })
+})
+
+describe('WWW-Authenticate challenges', () => {
+  test('creates challenges', () => {
+    expect(createChallenge({ realm: 'Example', components: ['(request-target)', 'date'] })).toBe(
+      'Signature realm="Example",headers="(request-target) date"',
+    )
+    expect(createChallenge({ components: [], algorithms: ['hs2019', 'rsa-sha256'] })).toBe(
+      'Signature algorithms="hs2019 rsa-sha256"',
+    )
+  })
+
+  test('parses signature challenges', () => {
+    expect(parseChallenge('Basic realm="x", signature REALM="Example", headers="(Request-Target)  Date"')).toEqual([
+      { realm: 'Example', components: ['(request-target)', 'date'] },
+    ])
+    expect(parseChallenge('Signature algorithms="hs2019"')).toEqual([{ components: [], algorithms: ['hs2019'] }])
+  })
+
+  test('ignores other challenges', () => {
+    expect(parseChallenge('Basic realm="x"')).toEqual([])
+  })
+
+  test('rejects malformed challenges', () => {
+    expect(() => parseChallenge('Signature realm="x')).toThrow(
+      expect.objectContaining({ code: ErrorCode.MALFORMED_HEADER }),
+    )
+  })
+})
+
+describe('Accept-Signature', () => {
+  test('creates Accept-Signature headers', () => {
+    expect(
+      createAcceptSignature([
+        {
+          components: ['@method', '@query-param;name="id"', 'content-digest'],
+          keyId: 'test',
+          algorithms: ['hmac-sha256'],
+          created: true,
+          nonce: 'abc',
+        },
+        { label: 'proxy', components: ['host'], tag: 'app' },
+      ]),
+    ).toBe(
+      'sig1=("@method" "@query-param";name="id" "content-digest");created;keyid="test";alg="hmac-sha256";nonce="abc", ' +
+        'proxy=("host");tag="app"',
+    )
+  })
+
+  test('parses Accept-Signature headers', () => {
+    expect(
+      parseAcceptSignature('sig1=("@method" "@target-uri" "Content-Digest");keyid="test";created;expires, sig2=()'),
+    ).toEqual([
+      {
+        label: 'sig1',
+        components: ['@method', '@target-uri', 'content-digest'],
+        keyId: 'test',
+        created: true,
+        expires: true,
+      },
+      { label: 'sig2', components: [] },
+    ])
+  })
+
+  test('round-trips requests', () => {
+    const requests = [
+      { label: 'sig1', components: ['@path', 'date'], algorithms: ['ed25519'], expires: true, tag: 'x' },
+    ]
+
+    expect(parseAcceptSignature(createAcceptSignature(requests))).toEqual(requests)
+  })
+
+  test.each(['sig1="@method"', 'sig1=("@method");keyid=1', 'sig1=("@method"'])('rejects %j', (header) => {
+    expect(() => parseAcceptSignature(header)).toThrow(VerificationError)
+  })
+
+  test('reads requests from response headers', () => {
+    expect(
+      readSignatureRequests({
+        'WWW-Authenticate': ['Basic realm="x"', 'Signature headers="date"'],
+        'accept-signature': 'sig1=("@method")',
+        'content-length': 0,
+      }),
+    ).toEqual([{ label: 'sig1', components: ['@method'] }, { components: ['date'] }])
+    expect(readSignatureRequests({})).toEqual([])
+  })
+})
+
+describe('SignatureKeyManager challenges', () => {
+  test('challenges for the required draft-cavage headers', () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12, { '(request-target)': true, host: 'verify', date: 'sign' })
+
+    expect(sig.createChallenge({ realm: 'api' })).toEqual({
+      'www-authenticate': 'Signature realm="api",headers="(request-target) host"',
+    })
+  })
+
+  test('requests RFC 9421 signatures with Accept-Signature', () => {
+    const sig = manager(HttpSigVersion.RFC_9421, { '(request-target)': true, date: true }, { created: true, ttl: 60 })
+
+    expect(sig.createChallenge()).toEqual({
+      'www-authenticate': 'Signature headers="@method @request-target date"',
+      'accept-signature': 'sig1=("@method" "@request-target" "date");created;expires',
+    })
+  })
+
+  test.each([HttpSigVersion.DRAFT_CAVAGE_12, HttpSigVersion.RFC_9421])(
+    'signs %s requests as challenged',
+    async (version) => {
+      const server = manager(version, { '(request-target)': true, host: true, date: true, 'content-type': true })
+      const client = manager(version, { host: true })
+      const [request] = readSignatureRequests(server.createChallenge())
+
+      const headers = await client.signRequestFor(
+        new MessageContext(mockRequest('POST', '/foo', requestHeaders)),
+        request,
+        'test',
+      )
+      const msgCtx = new MessageContext(
+        mockRequest('POST', '/foo', {
+          ...requestHeaders,
+          ...Object.fromEntries(Object.entries(headers).map(([header, value]) => [header, [value]])),
+        }),
+      )
+
+      expect(await server.verifyRequest(msgCtx)).toHaveProperty('id', 'test')
+    },
+  )
+
+  test('signs with the requested label, nonce, tag and times', async () => {
+    const client = manager(HttpSigVersion.RFC_9421, { host: true })
+    const [request] = parseAcceptSignature('proxy=("date");created;nonce="abc";tag="app"')
+
+    const headers = await client.signRequestFor(
+      new MessageContext(mockRequest('GET', '/', requestHeaders)),
+      request,
+      'test',
+      { created: new Date('2021-04-20T02:07:53Z') },
+    )
+
+    expect(headers['signature-input']).toBe(
+      'proxy=("host" "date");created=1618884473;keyid="test";alg="hmac-sha256";nonce="abc";tag="app"',
+    )
+    expect(headers.signature).toMatch(/^proxy=:/)
+  })
+
+  test('refuses requests for other keys or algorithms', async () => {
+    const client = manager(HttpSigVersion.RFC_9421, { host: true })
+    const msgCtx = new MessageContext(mockRequest('GET', '/', requestHeaders))
+    const key = await client.getKey('test')
+
+    expect(() => key.signRequestFor(msgCtx, { components: [], keyId: 'other' })).toThrow(ConfigurationError)
+    expect(() => key.signRequestFor(msgCtx, { components: [], algorithms: ['ed25519'] })).toThrow(
+      "key 'test' supports none of the requested algorithms: ed25519",
+    )
+    await expect(client.signRequestFor(msgCtx, { components: [], keyId: 'other' }, 'test')).rejects.toThrow(
+      "signature requested for key 'other', not 'test'",
+    )
+  })
+})
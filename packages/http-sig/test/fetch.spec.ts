@@ -0,0 +1,209 @@
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  ErrorCode,
+  FetchRequestInit,
+  FetchResponse,
+  HmacAlgorithm,
+  HttpSigVersion,
+  ResponseVerificationError,
+  SignatureAlgorithm,
+  signatures,
+  VerificationError,
+} from '../src'
+import { MessageContext } from '../src/MessageContext'
+
+import * as crypto from 'crypto'
+
+const sharedSecret = crypto.createSecretKey(crypto.randomBytes(32))
+
+const manager = (version: HttpSigVersion) =>
+  signatures({
+    version,
+    requestHeaders: { '(request-target)': true, host: true, 'content-type': 'sign' },
+    responseHeaders: { 'content-type': true },
+    keyId: 'test',
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    digest: DigestAlgorithm.SHA256,
+    algorithm: HmacAlgorithm.SHA256,
+    key: sharedSecret,
+  })
+
+const headersOf = (entries: [string, string][]) => ({
+  get: (name: string) => {
+    const values = entries.filter(([header]) => header.toLowerCase() === name.toLowerCase()).map(([, value]) => value)
+    return values.length > 0 ? values.join(', ') : null
+  },
+  forEach: (callback: (value: string, name: string) => void) =>
+    entries.forEach(([name, value]) => callback(value, name)),
+})
+
+const mockResponse = (status: number, headers: [string, string][], body: string): FetchResponse => ({
+  status,
+  headers: headersOf(headers),
+  clone: () => mockResponse(status, headers, body),
+  arrayBuffer: async () => new Uint8Array(Buffer.from(body, 'utf8')).buffer,
+})
+
+type SentRequest = { url: string; method: string; headers: [string, string][]; body?: Buffer }
+
+// A fetch implementation which verifies each request, and responds with a signed body
+const mockServer = (
+  version: HttpSigVersion,
+  tamper: (headers: [string, string][]) => [string, string][] = (headers) => headers,
+  servedBody?: string,
+) => {
+  const server = manager(version)
+  const sent: SentRequest[] = []
+
+  const fetch = async (input: unknown, init: FetchRequestInit = {}): Promise<FetchResponse> => {
+    const url = new URL(
+      typeof input === 'object' && input && 'url' in input ? (input as { url: string }).url : `${input}`,
+    )
+    const request = {
+      url: url.href,
+      method: init.method as string,
+      headers: init.headers as [string, string][],
+      body: init.body as Buffer | undefined,
+    }
+    sent.push(request)
+
+    const requestHeaders = new Map<string, string[]>([['host', [url.host]]])
+    for (const [header, value] of request.headers) requestHeaders.set(header, [value])
+    const key = await server.verifyRequest(
+      new MessageContext({
+        requestTarget: { method: request.method, path: url.pathname + url.search },
+        getHeader: (header) => requestHeaders.get(header),
+      }),
+    )
+    key.verifyDigestHeader(request.body || Buffer.alloc(0), requestHeaders.get(key.digestHeader)?.[0] as string)
+
+    const body = '{"ok":true}'
+    const headers = new Map([
+      ['content-type', ['application/json']],
+      [key.digestHeader as string, [key.createDigestHeader(Buffer.from(body))]],
+    ])
+    const signed = key.signResponseHeaders(
+      new MessageContext({ status: 200, getHeader: (header) => headers.get(header) }),
+    )
+    const responseHeaders: [string, string][] = [
+      ...[...headers].map(([header, [value]]): [string, string] => [header, value]),
+      ...Object.entries(signed),
+    ]
+
+    return mockResponse(200, tamper(responseHeaders), servedBody ?? body)
+  }
+
+  return { fetch, sent }
+}
+
+describe('signed fetch', () => {
+  test.each([HttpSigVersion.DRAFT_CAVAGE_12, HttpSigVersion.RFC_9421])(
+    'signs %s requests and verifies responses',
+    async (version) => {
+      const { fetch, sent } = mockServer(version)
+      const signedFetch = manager(version).createFetch({ keyId: 'test', verifyResponse: true, fetch })
+
+      const response = await signedFetch('https://example.com/foo?bar=1', {
+        method: 'post',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"hello":"world"}',
+      })
+
+      expect(response.status).toBe(200)
+      expect(sent[0].method).toBe('POST')
+      expect(sent[0].body?.toString()).toBe('{"hello":"world"}')
+      expect(sent[0].headers.map(([header]) => header)).toEqual(
+        expect.arrayContaining(['content-type', 'digest', 'signature']),
+      )
+    },
+  )
+
+  test('digests empty bodies', async () => {
+    const { fetch, sent } = mockServer(HttpSigVersion.DRAFT_CAVAGE_12)
+    const signedFetch = manager(HttpSigVersion.DRAFT_CAVAGE_12).createFetch({ keyId: 'test', fetch })
+
+    await signedFetch(new URL('https://example.com/'), { headers: [['content-type', 'text/plain']] })
+
+    expect(sent[0].method).toBe('GET')
+    expect(sent[0].body).toBeUndefined()
+    expect(sent[0].headers).toContainEqual(['digest', `SHA-256=${crypto.createHash('sha256').digest('base64')}`])
+  })
+
+  test('signs Request objects with their body', async () => {
+    const { fetch, sent } = mockServer(HttpSigVersion.RFC_9421)
+    const signedFetch = manager(HttpSigVersion.RFC_9421).createFetch({ keyId: 'test', fetch })
+    const request = {
+      url: 'https://example.com/upload',
+      method: 'PUT',
+      headers: headersOf([['Content-Type', 'text/plain']]),
+      clone: () => request,
+      arrayBuffer: async () => new Uint8Array(Buffer.from('data')).buffer,
+    }
+
+    await signedFetch(request)
+
+    expect(sent[0].method).toBe('PUT')
+    expect(sent[0].body?.toString()).toBe('data')
+  })
+
+  test('raises typed errors for responses which fail verification', async () => {
+    const { fetch } = mockServer(HttpSigVersion.DRAFT_CAVAGE_12, undefined, '{"ok":false}')
+    const signedFetch = manager(HttpSigVersion.DRAFT_CAVAGE_12).createFetch({
+      keyId: 'test',
+      verifyResponse: true,
+      fetch,
+    })
+
+    const error = await signedFetch('https://example.com/', { headers: { 'content-type': 'text/plain' } }).catch(
+      (e) => e,
+    )
+
+    expect(error).toBeInstanceOf(ResponseVerificationError)
+    expect(error).toBeInstanceOf(VerificationError)
+    expect(error.code).toBe(ErrorCode.DIGEST_MISMATCH)
+    expect(error.response.status).toBe(200)
+  })
+
+  test('raises typed errors for unsigned responses', async () => {
+    const { fetch } = mockServer(HttpSigVersion.DRAFT_CAVAGE_12, (headers) =>
+      headers.filter(([header]) => header !== 'signature'),
+    )
+    const signedFetch = manager(HttpSigVersion.DRAFT_CAVAGE_12).createFetch({
+      keyId: 'test',
+      verifyResponse: true,
+      fetch,
+    })
+
+    await expect(signedFetch('https://example.com/', { headers: { 'content-type': 'text/plain' } })).rejects.toThrow(
+      expect.objectContaining({ name: 'ResponseVerificationError', code: ErrorCode.SIGNATURE_MISSING }),
+    )
+  })
+
+  test('returns unverified responses unless asked to verify them', async () => {
+    const { fetch } = mockServer(HttpSigVersion.DRAFT_CAVAGE_12, () => [])
+    const signedFetch = manager(HttpSigVersion.DRAFT_CAVAGE_12).createFetch({ keyId: 'test', fetch })
+
+    await expect(
+      signedFetch('https://example.com/', { headers: { 'content-type': 'text/plain' } }),
+    ).resolves.toHaveProperty('status', 200)
+  })
+
+  test('refuses streamed bodies', async () => {
+    const { fetch } = mockServer(HttpSigVersion.DRAFT_CAVAGE_12)
+    const signedFetch = manager(HttpSigVersion.DRAFT_CAVAGE_12).createFetch({ keyId: 'test', fetch })
+
+    await expect(
+      signedFetch('https://example.com/', { method: 'POST', body: {} as unknown as string }),
+    ).rejects.toThrow(ConfigurationError)
+  })
+
+  test('refuses unknown keys', async () => {
+    const { fetch } = mockServer(HttpSigVersion.DRAFT_CAVAGE_12)
+    const signedFetch = manager(HttpSigVersion.DRAFT_CAVAGE_12).createFetch({ keyId: 'other', fetch })
+
+    await expect(signedFetch('https://example.com/')).rejects.toThrow(
+      expect.objectContaining({ code: ErrorCode.KEY_NOT_FOUND }),
+    )
+  })
+})
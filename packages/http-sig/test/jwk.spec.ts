@@ -0,0 +1,186 @@
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  HmacAlgorithm,
+  HttpSigVersion,
+  jwksKeyLookup,
+  keyConfigFromJwk,
+  KeyPairAlgorithm,
+  RsaPaddingScheme,
+  signatures,
+} from '../src'
+import { Jwk } from '../src/jwk'
+import { MessageContext } from '../src/MessageContext'
+
+import * as crypto from 'crypto'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+const mockRequest = (method: string, path: string, headers: { [header: string]: string[] }) => ({
+  requestTarget: { method, path },
+  getHeader(header: string): string[] | undefined {
+    return headers[header]
+  },
+})
+
+// JWK export is not present in the Node 14 typings
+const exportJwk = (key: crypto.KeyObject): Jwk =>
+  (key as unknown as { export(options: { format: 'jwk' }): Jwk }).export({ format: 'jwk' })
+
+// Test keys from RFC 9421, Appendix B.1
+const sharedSecretJwk: Jwk = {
+  kty: 'oct',
+  kid: 'test-shared-secret',
+  k: 'uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhIDi6pcl8jsasjlTMtDQ',
+}
+const ed25519Jwk: Jwk = {
+  kty: 'OKP',
+  crv: 'Ed25519',
+  kid: 'test-key-ed25519',
+  d: 'n4Ni-HpISpVObnQMW0wOhCKROaIKqKtW_2ZYb2p9KcU',
+  x: 'JrQLj5P_89iXES9-vFgrIy29clF9CC_oPPsw3c5D0bs',
+}
+
+const vectorHeaders = {
+  host: ['example.com'],
+  date: ['Tue, 20 Apr 2021 02:07:55 GMT'],
+  'content-type': ['application/json'],
+  'content-length': ['18'],
+}
+
+describe('keyConfigFromJwk', () => {
+  test('imports oct keys for HMAC', () => {
+    const config = keyConfigFromJwk(sharedSecretJwk)
+
+    expect(config).toMatchObject({ digest: DigestAlgorithm.SHA256, algorithm: HmacAlgorithm.SHA256 })
+    expect(keyConfigFromJwk({ ...sharedSecretJwk, alg: 'HS512' })).toMatchObject({ algorithm: HmacAlgorithm.SHA512 })
+  })
+
+  test('verifies the RFC 9421 HMAC test vector', async () => {
+    const key = await signatures({
+      version: HttpSigVersion.RFC_9421,
+      requestHeaders: { date: true },
+      keyLookup: jwksKeyLookup({ fetch: () => ({ keys: [sharedSecretJwk] }) }),
+    }).getKey('test-shared-secret')
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo?param=Value&Pet=dog', {
+        ...vectorHeaders,
+        'signature-input': [
+          'sig-b25=("date" "@authority" "content-type");created=1618884473;keyid="test-shared-secret"',
+        ],
+        signature: ['sig-b25=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:'],
+      }),
+    )
+
+    expect(key.verifyRequest(msgCtx)).toBe(true)
+  })
+
+  test('verifies the RFC 9421 Ed25519 test vector', async () => {
+    const key = await signatures({
+      version: HttpSigVersion.RFC_9421,
+      requestHeaders: { date: true },
+      keyLookup: jwksKeyLookup({ fetch: async () => ({ keys: [ed25519Jwk] }) }),
+    }).getKey('test-key-ed25519')
+    const msgCtx = new MessageContext(
+      mockRequest('POST', '/foo?param=Value&Pet=dog', {
+        ...vectorHeaders,
+        'signature-input': [
+          'sig-b26=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473' +
+            ';keyid="test-key-ed25519"',
+        ],
+        signature: [
+          'sig-b26=:wqcAqbmYJ2ji2glfAMaRy4gruYYnx2nEFN2HN6jrnDnQCK1u02Gb04v9EDgwUPiu4A0w6vuQv5lIp5WPpBKRCw==:',
+        ],
+      }),
+    )
+
+    expect(key.algorithm).toBe(KeyPairAlgorithm.EDDSA)
+    expect(key.verifyRequest(msgCtx)).toBe(true)
+  })
+
+  test('imports RSA keys according to alg', () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+    const jwk = { ...exportJwk(privateKey), alg: 'PS512' }
+
+    const config = keyConfigFromJwk(jwk)
+    expect(config).toMatchObject({
+      keyAlgorithm: KeyPairAlgorithm.RSA,
+      hashAlgorithm: 'sha512',
+      padding: RsaPaddingScheme.PKCS1_PSS,
+      saltLength: 64,
+    })
+    expect(config).toHaveProperty('privateKey.type', 'private')
+    expect(config).toHaveProperty('publicKey.type', 'public')
+
+    expect(() => keyConfigFromJwk({ ...jwk, alg: undefined })).toThrow('JWK must specify alg for RSA keys')
+  })
+
+  test('imports EC keys according to crv', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' })
+    const jwk = exportJwk(privateKey)
+
+    expect(keyConfigFromJwk(jwk)).toMatchObject({ keyAlgorithm: KeyPairAlgorithm.ECDSA, hashAlgorithm: 'sha384' })
+    expect(() => keyConfigFromJwk({ ...jwk, alg: 'ES256' })).toThrow('JWK has alg ES256, but P-384 keys require ES384')
+
+    const key = await signatures({
+      version: HttpSigVersion.RFC_9421,
+      keyId: 'ec',
+      ...keyConfigFromJwk(jwk),
+    }).getKey('ec')
+    expect(key.rfc9421Algorithm).toBe('ecdsa-p384-sha384')
+  })
+
+  test('imports only public keys when signing is not permitted', () => {
+    const config = keyConfigFromJwk({ ...ed25519Jwk, key_ops: ['verify'] })
+
+    expect(config).toHaveProperty('publicKey.type', 'public')
+    expect(config).toHaveProperty('privateKey', undefined)
+  })
+
+  test.each([
+    { jwk: { ...ed25519Jwk, use: 'enc' }, error: "JWK 'test-key-ed25519' is not a signature key (use: enc)" },
+    { jwk: { ...ed25519Jwk, key_ops: ['encrypt'] }, error: 'does not permit signing or verification' },
+    { jwk: { ...ed25519Jwk, crv: 'X25519' }, error: 'has unsupported crv X25519' },
+    { jwk: { ...ed25519Jwk, alg: 'ES256' }, error: 'has alg ES256, but Ed25519 keys require EdDSA' },
+    { jwk: { ...ed25519Jwk, x: 'AAAA' }, error: "JWK 'test-key-ed25519' is invalid" },
+    { jwk: { ...sharedSecretJwk, alg: 'HS384' }, error: 'has unsupported alg HS384' },
+    { jwk: { kty: 'oct' }, error: 'JWK is missing key value k' },
+    { jwk: { kty: 'foo' }, error: 'JWK has unsupported kty foo' },
+  ])('rejects unusable JWKs ($error)', ({ jwk, error }) => {
+    expect(() => keyConfigFromJwk(jwk)).toThrow(error)
+  })
+})
+
+describe('jwksKeyLookup', () => {
+  test('loads keys from a file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'http-sig-'))
+    const file = path.join(dir, 'jwks.json')
+    await fs.writeFile(file, JSON.stringify({ keys: [sharedSecretJwk, ed25519Jwk] }))
+
+    try {
+      const keyLookup = jwksKeyLookup({ path: file }, { digest: DigestAlgorithm.SHA512 })
+
+      expect(await keyLookup({ keyId: 'test-key-ed25519' })).toMatchObject({ digest: DigestAlgorithm.SHA512 })
+      expect(await keyLookup({ keyId: 'unknown' })).toBeUndefined()
+    } finally {
+      await fs.rm(dir, { recursive: true })
+    }
+  })
+
+  test('rejects unreadable files', async () => {
+    const keyLookup = jwksKeyLookup({ path: '/nonexistent/jwks.json' })
+
+    await expect(keyLookup({ keyId: 'test' })).rejects.toThrow('unable to read JWKS from /nonexistent/jwks.json')
+  })
+
+  test('rejects ambiguous and malformed key sets', async () => {
+    const ambiguous = jwksKeyLookup({ fetch: () => ({ keys: [sharedSecretJwk, sharedSecretJwk] }) })
+    const malformed = jwksKeyLookup({ fetch: () => ({} as any) })
+
+    await expect(ambiguous({ keyId: 'test-shared-secret' })).rejects.toThrow(
+      "JWKS contains multiple keys with kid 'test-shared-secret'",
+    )
+    await expect(malformed({ keyId: 'test-shared-secret' })).rejects.toThrow(ConfigurationError)
+  })
+})
@@ -0,0 +1,162 @@
+import {
+  Decimal,
+  parseDictionary,
+  parseItem,
+  parseList,
+  serializeDictionary,
+  serializeItem,
+  serializeList,
+  Token,
+} from '../src/structured-fields'
+import { ConfigurationError, VerificationError } from '../src/types'
+
+describe('structured-fields', () => {
+  describe('items', () => {
+    test.each([
+      { input: '42', value: 42 },
+      { input: '-42', value: -42 },
+      { input: '999999999999999', value: 999999999999999 },
+      { input: '4.5', value: new Decimal(4.5) },
+      { input: '-0.001', value: new Decimal(-0.001) },
+      { input: '"hello world"', value: 'hello world' },
+      { input: '"a \\"quoted\\" \\\\ string"', value: 'a "quoted" \\ string' },
+      { input: 'foo123/456', value: new Token('foo123/456') },
+      { input: '*foo:bar', value: new Token('*foo:bar') },
+      {
+        input: ':cHJldGVuZCB0aGlzIGlzIGJpbmFyeSBjb250ZW50Lg==:',
+        value: Buffer.from('pretend this is binary content.'),
+      },
+      { input: '::', value: Buffer.alloc(0) },
+      { input: '?1', value: true },
+      { input: '?0', value: false },
+    ])('parses and round-trips $input', ({ input, value }) => {
+      const item = parseItem(input)
+
+      expect(item.value).toEqual(value)
+      expect(item.params.size).toBe(0)
+      expect(serializeItem(item)).toBe(input)
+    })
+
+    test('parses parameters', () => {
+      const item = parseItem('text/html;charset=utf-8;q=0.5;b;a=?0')
+
+      expect(item.value).toEqual(new Token('text/html'))
+      expect([...item.params.entries()]).toEqual([
+        ['charset', new Token('utf-8')],
+        ['q', new Decimal(0.5)],
+        ['b', true],
+        ['a', false],
+      ])
+      expect(serializeItem(item)).toBe('text/html;charset=utf-8;q=0.5;b;a=?0')
+    })
+
+    test('discards surrounding spaces', () => {
+      expect(parseItem('  42  ').value).toBe(42)
+    })
+
+    test.each([
+      { name: 'empty', input: '' },
+      { name: 'integer too long', input: '1000000000000000' },
+      { name: 'decimal integer part too long', input: '1234567890123.0' },
+      { name: 'decimal fraction too long', input: '1.1234' },
+      { name: 'trailing decimal point', input: '1.' },
+      { name: 'lone minus', input: '-' },
+      { name: 'unterminated string', input: '"abc' },
+      { name: 'invalid escape', input: '"\\a"' },
+      { name: 'control character in string', input: '"a\tb"' },
+      { name: 'non-ASCII string', input: '"café"' },
+      { name: 'unterminated byte sequence', input: ':abc' },
+      { name: 'invalid base64', input: ':a*c:' },
+      { name: 'invalid boolean', input: '?2' },
+      { name: 'uppercase parameter key', input: 'a;B=1' },
+      { name: 'trailing garbage', input: '1 2' },
+      { name: 'leading tab', input: '\t1' },
+      { name: 'list instead of item', input: '1, 2' },
+    ])('rejects malformed item ($name)', ({ input }) => {
+      expect(() => parseItem(input)).toThrow(VerificationError)
+    })
+  })
+
+  describe('lists', () => {
+    test('parses and round-trips inner lists', () => {
+      const input = '("foo" "bar");lvl=5, ("baz");lvl=1, ()'
+      const list = parseList(input)
+
+      expect(list).toHaveLength(3)
+      expect(serializeList(list)).toBe(input)
+    })
+
+    test('normalizes whitespace', () => {
+      expect(serializeList(parseList('a,b ,\tc,  ( 1  2 )'))).toBe('a, b, c, (1 2)')
+    })
+
+    test('parses empty list', () => {
+      expect(parseList('')).toEqual([])
+      expect(serializeList([])).toBe('')
+    })
+
+    test.each([
+      { name: 'trailing comma', input: 'a, b,' },
+      { name: 'leading comma', input: ', a' },
+      { name: 'double comma', input: 'a,, b' },
+      { name: 'missing comma', input: 'a b' },
+      { name: 'unterminated inner list', input: '(a b' },
+      { name: 'unseparated inner list items', input: '(a"b")' },
+      { name: 'nested inner list', input: '((a))' },
+    ])('rejects malformed list ($name)', ({ input }) => {
+      expect(() => parseList(input)).toThrow(VerificationError)
+    })
+  })
+
+  describe('dictionaries', () => {
+    test('parses and round-trips members', () => {
+      const input = 'en="Applepie", da=:w4ZibGV0w6ZydGU=:, b;x=1, sig1=("@method");created=1618884475'
+      const dictionary = parseDictionary(input)
+
+      expect([...dictionary.keys()]).toEqual(['en', 'da', 'b', 'sig1'])
+      expect(dictionary.get('b')).toEqual({ value: true, params: new Map([['x', 1]]) })
+      expect(serializeDictionary(dictionary)).toBe(input)
+    })
+
+    test('overwrites duplicate keys', () => {
+      const dictionary = parseDictionary('a=1, b=2, a=3')
+
+      expect(serializeDictionary(dictionary)).toBe('a=3, b=2')
+    })
+
+    test.each([
+      { name: 'uppercase key', input: 'A=1' },
+      { name: 'missing value', input: 'a=' },
+      { name: 'trailing comma', input: 'a=1,' },
+      { name: 'invalid key', input: '1a=1' },
+    ])('rejects malformed dictionary ($name)', ({ input }) => {
+      expect(() => parseDictionary(input)).toThrow(VerificationError)
+    })
+  })
+
+  describe('serialization', () => {
+    test.each([
+      { value: new Decimal(1), expected: '1.0' },
+      { value: new Decimal(1.0005), expected: '1.0' },
+      { value: new Decimal(1.0015), expected: '1.002' },
+      { value: new Decimal(-2.5), expected: '-2.5' },
+    ])('serializes decimal $expected', ({ value, expected }) => {
+      expect(serializeItem({ value, params: new Map() })).toBe(expected)
+    })
+
+    test.each([
+      { name: 'non-integer number', value: 1.5 },
+      { name: 'integer out of range', value: 1e15 },
+      { name: 'decimal out of range', value: new Decimal(1e12) },
+      { name: 'non-ASCII string', value: 'café' },
+      { name: 'control character', value: 'a\nb' },
+    ])('rejects unrepresentable value ($name)', ({ value }) => {
+      expect(() => serializeItem({ value, params: new Map() })).toThrow(ConfigurationError)
+    })
+
+    test('rejects invalid keys and tokens', () => {
+      expect(() => new Token('1abc')).toThrow(ConfigurationError)
+      expect(() => serializeDictionary(new Map([['Key', { value: 1, params: new Map() }]]))).toThrow(ConfigurationError)
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import {
+  ConfigurationError,
+  DigestAlgorithm,
+  ErrorCode,
+  FetchRequest,
+  FetchResponse,
+  HmacAlgorithm,
+  HttpSigVersion,
+  MemoryReplayStore,
+  SignatureAlgorithm,
+  signatures,
+  signWebResponse,
+  verifyWebRequest,
+  verifyWebResponse,
+  webRequestMessage,
+} from '../src'
+import { MessageContext } from '../src/MessageContext'
+
+import * as crypto from 'crypto'
+
+// The DOM typings are not available, so the runtime's implementations are used through these
+type RequestInit = { method?: string; headers?: [string, string][]; body?: string }
+const { Request, Response } = globalThis as unknown as {
+  Request: new (url: string, init?: RequestInit) => FetchRequest & { text(): Promise<string> }
+  Response: new (body: string | null, init?: { status?: number; headers?: [string, string][] }) => FetchResponse & {
+    text(): Promise<string>
+  }
+}
+
+// Request and Response are only global from Node.js 18
+const describeWeb = Request && Response ? describe : describe.skip
+
+const sharedSecret = crypto.createSecretKey(crypto.randomBytes(32))
+
+const manager = (version: HttpSigVersion) =>
+  signatures({
+    version,
+    requestHeaders: { '(request-target)': true, host: true },
+    responseHeaders: { 'content-type': true },
+    replayStore: new MemoryReplayStore(),
+    keyId: 'test',
+    signatureAlgorithm: SignatureAlgorithm.HS2019,
+    digest: DigestAlgorithm.SHA256,
+    algorithm: HmacAlgorithm.SHA256,
+    key: sharedSecret,
+  })
+
+// Sign a request as a client would, with the signature headers added
+const signedRequest = async (version: HttpSigVersion, url: string, body: string, sentBody = body) => {
+  const sig = manager(version)
+  const key = await sig.getKey('test')
+  const headers: [string, string][] = [['digest', key.createDigestHeader(Buffer.from(body))]]
+  const unsigned = new Request(url, { method: 'POST', headers })
+  const signatureHeaders = key.signRequestHeaders(new MessageContext(webRequestMessage(unsigned)))
+
+  return new Request(url, {
+    method: 'POST',
+    headers: [...headers, ...Object.entries(signatureHeaders)],
+    body: sentBody,
+  })
+}
+
+describeWeb('WHATWG adapters', () => {
+  test('derive the request target and host from the URL', () => {
+    const message = webRequestMessage(new Request('https://example.com:8443/foo/bar?baz=1#frag', { method: 'post' }))
+
+    expect(message.requestTarget).toEqual({ method: 'POST', path: '/foo/bar?baz=1', scheme: 'https' })
+    expect(message.getHeader('host')).toEqual(['example.com:8443'])
+    expect(message.getHeader('date')).toBeUndefined()
+    expect(new MessageContext(message).canonicalString(['(request-target)'])).toBe(
+      '(request-target): post /foo/bar?baz=1',
+    )
+  })
+
+  test.each([HttpSigVersion.DRAFT_CAVAGE_12, HttpSigVersion.RFC_9421])(
+    'verify %s requests, leaving the body readable',
+    async (version) => {
+      const request = await signedRequest(version, 'https://example.com/foo?x=1', '{"hello":"world"}')
+
+      await expect(verifyWebRequest(manager(version), request)).resolves.toHaveProperty('id', 'test')
+      expect(await request.text()).toBe('{"hello":"world"}')
+    },
+  )
+
+  test('reject requests whose body does not match the digest', async () => {
+    const request = await signedRequest(HttpSigVersion.DRAFT_CAVAGE_12, 'https://example.com/', 'a', 'b')
+
+    await expect(verifyWebRequest(manager(HttpSigVersion.DRAFT_CAVAGE_12), request)).rejects.toThrow(
+      expect.objectContaining({ code: ErrorCode.DIGEST_MISMATCH }),
+    )
+  })
+
+  test('reject replayed requests', async () => {
+    const sig = manager(HttpSigVersion.RFC_9421)
+    const request = await signedRequest(HttpSigVersion.RFC_9421, 'https://example.com/', 'a')
+
+    await verifyWebRequest(sig, request.clone())
+    await expect(verifyWebRequest(sig, request)).rejects.toThrow(
+      expect.objectContaining({ code: ErrorCode.SIGNATURE_REPLAYED }),
+    )
+  })
+
+  test('reject unsigned requests', async () => {
+    await expect(
+      verifyWebRequest(manager(HttpSigVersion.DRAFT_CAVAGE_12), new Request('https://example.com/')),
+    ).rejects.toThrow(expect.objectContaining({ code: ErrorCode.SIGNATURE_MISSING }))
+  })
+
+  test.each([HttpSigVersion.DRAFT_CAVAGE_12, HttpSigVersion.RFC_9421])('sign %s responses', async (version) => {
+    const sig = manager(version)
+    const response = new Response('{"ok":true}', { status: 201, headers: [['Content-Type', 'application/json']] })
+
+    const signed = await signWebResponse(await sig.getKey('test'), response)
+
+    expect(signed.status).toBe(201)
+    expect(signed.headers.get('digest')).toBe(
+      `SHA-256=${crypto.createHash('sha256').update('{"ok":true}').digest('base64')}`,
+    )
+    await expect(verifyWebResponse(sig, signed)).resolves.toHaveProperty('id', 'test')
+    expect(await (signed as InstanceType<typeof Response>).text()).toBe('{"ok":true}')
+  })
+
+  test('sign responses without bodies', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+    const response = new Response(null, { status: 204, headers: [['Content-Type', 'text/plain']] })
+
+    const signed = await signWebResponse(await sig.getKey('test'), response)
+
+    expect(signed.status).toBe(204)
+    await expect(verifyWebResponse(sig, signed)).resolves.toHaveProperty('id', 'test')
+  })
+
+  test('refuse to sign responses missing configured headers', async () => {
+    const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+
+    await expect(signWebResponse(await sig.getKey('test'), new Response(null))).rejects.toThrow(
+      expect.objectContaining({ code: ErrorCode.MISSING_COMPONENT }),
+    )
+  })
+})
+
+test('signWebResponse requires the runtime to provide Response', async () => {
+  const sig = manager(HttpSigVersion.DRAFT_CAVAGE_12)
+  const response: FetchResponse = {
+    status: 200,
+    headers: { get: () => 'text/plain', forEach: (callback) => callback('text/plain', 'content-type') },
+    clone: () => response,
+    arrayBuffer: async () => new ArrayBuffer(0),
+  }
+  const globals = globalThis as { Response?: unknown }
+  const Response_ = globals.Response
+
+  try {
+    delete globals.Response
+    await expect(signWebResponse(await sig.getKey('test'), response)).rejects.toThrow(ConfigurationError)
+  } finally {
+    if (Response_) globals.Response = Response_
+  }
+})
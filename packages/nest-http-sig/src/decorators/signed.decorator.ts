@@ -8,6 +8,8 @@ export type SignedEndpointOptions = {
   verifyRequest: boolean
   signResponse: boolean
   keyId?: string
+  /** The protection space given in the challenge sent when request verification fails. */
+  realm?: string
 }
 
 const DEFAULT_OPTIONS = Object.freeze({
@@ -27,6 +29,7 @@ export const Signed = (opts?: Partial<SignedEndpointOptions>) =>
     opts
       ? {
           keyId: opts.keyId,
+          realm: opts.realm,
           verifyRequest: valueOrDefault('verifyRequest', opts, DEFAULT_OPTIONS),
           signResponse: valueOrDefault('signResponse', opts, DEFAULT_OPTIONS),
         }
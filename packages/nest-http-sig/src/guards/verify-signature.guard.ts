@@ -1,15 +1,32 @@
 // Copyright (c) Michael Holmes
 // SPDX-License-Identifier: MIT
 
-import { ConfigurationError, Signature, SignatureKeyManager, VerificationError } from '@holmesmr/http-sig'
-import { CanActivate, ExecutionContext, ForbiddenException, Inject, Injectable, RawBodyRequest } from '@nestjs/common'
+import { ConfigurationError, ErrorCode, SignatureKeyManager, VerificationError } from '@holmesmr/http-sig'
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  Injectable,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
-import { Request } from 'express'
+import { Request, Response } from 'express'
 import { SIGNATURE_INST } from '../constants'
 import { SIGNED_KEY, SignedEndpointOptions } from '../decorators/signed.decorator'
 import { requestMessageWrapper } from '../message-wrappers'
 import { getLastOrOnly } from '../common'
 
+// The exceptions thrown for the HTTP status of each verification error code
+const STATUS_EXCEPTIONS: { [status: number]: new (response: object, options: { cause: Error }) => HttpException } = {
+  400: BadRequestException,
+  401: UnauthorizedException,
+  403: ForbiddenException,
+}
+
 const isEmptyBody = (body: any): boolean => !body || (typeof body === 'object' && Object.keys(body).length === 0)
 
 @Injectable()
@@ -21,20 +38,33 @@ export class VerifySignatureGuard implements CanActivate {
       return await this.canActivateInner(context)
     } catch (e) {
       if (e instanceof VerificationError) {
-        throw new ForbiddenException('signature verification failed', { cause: e })
+        // Tell the client how to sign its request
+        const challenge = this.sig.createChallenge({ realm: this.getEndpointOptions(context)?.realm })
+        const res = context.switchToHttp().getResponse<Response>()
+        for (const [header, value] of Object.entries(challenge)) res.setHeader(header, value)
+
+        const Exception = STATUS_EXCEPTIONS[e.status] || ForbiddenException
+        throw new Exception(
+          { statusCode: e.status, message: 'signature verification failed', code: e.code },
+          { cause: e },
+        )
       } else {
         throw e
       }
     }
   }
 
-  private async canActivateInner(context: ExecutionContext): Promise<boolean> {
-    const req = context.switchToHttp().getRequest<RawBodyRequest<Request>>()
-
-    const endpointOpts = this.reflector.getAllAndOverride<SignedEndpointOptions | undefined>(SIGNED_KEY, [
+  private getEndpointOptions(context: ExecutionContext): SignedEndpointOptions | undefined {
+    return this.reflector.getAllAndOverride<SignedEndpointOptions | undefined>(SIGNED_KEY, [
       context.getHandler(),
       context.getClass(),
     ])
+  }
+
+  private async canActivateInner(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<RawBodyRequest<Request>>()
+
+    const endpointOpts = this.getEndpointOptions(context)
 
     // If the @Signed() decorator is not added to the endpoint,
     // or if signature verification isn't requested, don't proceed
@@ -50,25 +80,26 @@ export class VerifySignatureGuard implements CanActivate {
     // Prepare signature for verification
     const messageCtx = requestMessageWrapper(req)
     const signature = messageCtx.getSignature()
-    if (!signature) throw new VerificationError('signature not present on request')
-
-    const key = await this.sig.getKey(signature.keyId)
+    if (!signature) throw new VerificationError('signature not present on request', ErrorCode.SIGNATURE_MISSING)
 
-    // Verify signature
-    const sigVerified = key.verifyRequest(messageCtx)
-    if (!sigVerified) throw new VerificationError('signature verification failed')
+    // Verify signature, trying each valid version of the key
+    const key = await this.sig.verifyRequest(messageCtx, signature, { checkReplay: false })
 
     // If requested, verify body against digest
-    if (req.rawBody && signature.headers.includes('digest')) {
-      const digestHeader = getLastOrOnly(req.headers.digest)
-      if (!digestHeader) throw new VerificationError('digest required for requests with bodies')
+    if (req.rawBody && signature.headers.includes(key.digestHeader)) {
+      const digestHeader = getLastOrOnly(req.headers[key.digestHeader])
+      if (!digestHeader)
+        throw new VerificationError('digest required for requests with bodies', ErrorCode.DIGEST_MISSING)
 
       const digestVerified = key.verifyDigestHeader(req.rawBody, digestHeader)
-      if (!digestVerified) throw new VerificationError('digest verification failed')
-    } else if (!req.body && req.headers.digest) {
-      throw new VerificationError('digest provided for request with no body')
+      if (!digestVerified) throw new VerificationError('digest verification failed', ErrorCode.DIGEST_MISMATCH)
+    } else if (!req.body && req.headers[key.digestHeader]) {
+      throw new VerificationError('digest provided for request with no body', ErrorCode.DIGEST_MISMATCH)
     }
 
+    // Only remember signatures once the whole request has been verified
+    await this.sig.checkReplay(key, signature)
+
     return true
   }
 }
@@ -81,14 +81,15 @@ export class SignResponseInterceptor implements NestInterceptor {
       }
 
       const digest = key.createDigestHeader(outData)
-      res.setHeader('Digest', digest)
+      res.setHeader(key.digestHeader, digest)
       outData = new StreamableFile(outData)
     }
 
     const msgCtx = responseMessageWrapper(res)
-    const signature = key.signResponse(msgCtx)
 
-    res.setHeader('Signature', signature)
+    for (const [header, value] of Object.entries(key.signResponseHeaders(msgCtx))) {
+      res.setHeader(header, value)
+    }
 
     return outData
   }
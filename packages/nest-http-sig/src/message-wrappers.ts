@@ -6,7 +6,7 @@ import { Request, Response } from 'express'
 
 export function requestMessageWrapper(req: Request): MessageContext {
   return createMessageContext({
-    requestTarget: { method: req.method, path: req.path },
+    requestTarget: { method: req.method, path: req.originalUrl },
     getHeader(name: string) {
       const header = req.headers[name]
       if (typeof header === 'string') {